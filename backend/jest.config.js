@@ -0,0 +1,16 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  transform: {
+    '^.+\\.ts$': [
+      'ts-jest',
+      {
+        tsconfig: '<rootDir>/tests/tsconfig.json',
+        // Excluded from the type-check in tsconfig.json as well
+        diagnostics: { exclude: ['**/src/services/clearnode/**', '**/src/config/clearnode.ts'] },
+      },
+    ],
+  },
+};
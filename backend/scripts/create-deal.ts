@@ -14,11 +14,15 @@
  *   --duration <time>     Duration (e.g., 7d, 30d, 90d)
  *   --yield <bps>         Expected yield in basis points (e.g., 500 = 5%)
  *   --dealer <address>    Dealer address (default: from env)
+ *
+ * Authenticates with the API key in LIQUIUM_API_KEY (a DEALER key for the
+ * dealer address, or an ADMIN key).
  */
 
 /*
 curl -X POST http://localhost:3000/api/deals \
   -H "Content-Type: application/json" \
+  -H "X-API-Key: $LIQUIUM_API_KEY" \
   -d '{
     "depositToken": "0xFbDa5F676cB37624f28265A144A48B0d6e87d3b6",
     "targetToken": "0xFbDa5F676cB37624f28265A144A48B0d6e87d3b6",
@@ -47,6 +51,7 @@ const FLARE_TOKENS: Record<string, Address> = {
 };
 
 const API_URL = process.env.API_URL || 'http://localhost:3000';
+const API_KEY = process.env.LIQUIUM_API_KEY || '';
 
 /**
  * Parse duration string to seconds
@@ -88,13 +93,18 @@ async function createDealAPI(params: any) {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      'X-API-Key': API_KEY,
     },
     body: JSON.stringify(params),
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || error.details || 'API request failed');
+    const { error } = await response.json();
+    const details = error?.details &&
+      (typeof error.details === 'string' ? error.details : JSON.stringify(error.details));
+    throw new Error(
+      [error?.code, error?.message, details].filter(Boolean).join(': ') || 'API request failed'
+    );
   }
 
   return await response.json();
@@ -149,6 +159,11 @@ async function main() {
     process.exit(1);
   }
 
+  if (!API_KEY) {
+    console.error('❌ API key not set. Set LIQUIUM_API_KEY (ask an admin for a DEALER key)');
+    process.exit(1);
+  }
+
   const dealer = (values.dealer as Address) || process.env.DEFAULT_DEALER_ADDRESS as Address;
   if (!dealer) {
     console.error('❌ Dealer address not specified. Set --dealer or DEFAULT_DEALER_ADDRESS');
@@ -193,8 +208,11 @@ async function main() {
     console.log('✅ Deal created successfully!\n');
     console.log('📊 Result:');
     console.log(`  Deal ID:    ${result.deal.id}`);
-    console.log(`  Tx Hash:    ${result.txHash}`);
-    console.log(`  Explorer:   ${result.explorerUrl}`);
+    console.log(`  Mode:       ${result.mode}`);
+    if (result.txHash) {
+      console.log(`  Tx Hash:    ${result.txHash}`);
+      console.log(`  Explorer:   ${result.explorerUrl}`);
+    }
     console.log(`  Status:     ${result.deal.status}`);
     console.log('');
 
@@ -211,6 +229,7 @@ async function main() {
     console.log('');
     console.log('💡 Troubleshooting:');
     console.log('  - Is the backend server running? (npm run dev)');
+    console.log('  - Is LIQUIUM_API_KEY a DEALER key for this dealer (or an ADMIN key)?');
     console.log('  - Check DEAL_VAULT_ADDRESS in backend/.env');
     console.log('  - Ensure PRIVATE_KEY_BACKEND has FLR for gas');
     console.log('  - Verify token addresses in the script');
@@ -0,0 +1,62 @@
+#!/usr/bin/env ts-node
+/**
+ * Run a local mock ClearNode
+ *
+ * Usage:
+ *   npm run mock-clearnode -- --port 8765 --faults faults.json
+ *
+ * Options:
+ *   --port <port>         Port to listen on (default: MOCK_CLEARNODE_PORT or 8765)
+ *   --faults <file>       JSON array of faults to inject, e.g.
+ *                         [{ "kind": "timeout", "method": "submit_app_state", "after": 2 }]
+ *   --strict-balances     Refuse sessions that participants have not funded
+ *
+ * Point the backend at it with CLEARNODE_WS_URL=ws://127.0.0.1:8765
+ */
+import 'dotenv/config';
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { MockClearNodeServer, type Fault } from '../src/services/clearnode/mock/MockClearNodeServer';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: process.env.MOCK_CLEARNODE_PORT || '8765' },
+      faults: { type: 'string' },
+      'strict-balances': { type: 'boolean', default: false },
+    },
+  });
+
+  const faults: Fault[] = values.faults ? JSON.parse(readFileSync(values.faults, 'utf8')) : [];
+
+  const server = new MockClearNodeServer({
+    port: Number(values.port),
+    faults,
+    ledger: { autoFund: !values['strict-balances'] },
+  });
+
+  const url = await server.start();
+
+  console.log('');
+  console.log(`🟡 Mock ClearNode listening on ${url}`);
+  console.log(`   Broker: ${server.brokerAddress}`);
+  if (faults.length > 0) {
+    console.log(`   Faults: ${faults.length} scripted`);
+  }
+  console.log('');
+  console.log(`   Set CLEARNODE_WS_URL=${url} in backend/.env`);
+  console.log('');
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
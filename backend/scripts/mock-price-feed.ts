@@ -0,0 +1,99 @@
+#!/usr/bin/env ts-node
+/**
+ * Serve a local JSON price feed for the `feed` price source
+ *
+ * Usage:
+ *   npm run mock-price-feed -- --price BTC=50000 --price ETH=3000.5
+ *   npm run mock-price-feed -- --file prices.json
+ *
+ * Options:
+ *   --port <port>         Port to listen on (default: MOCK_PRICE_FEED_PORT or 8790)
+ *   --price <SYM=price>   Fixed price, repeatable
+ *   --file <file>         JSON { "BTC": { "price": "50000" } }, re-read on every request
+ *   --jitter <bps>        Random move per request, up to this many basis points
+ *   --age <seconds>       Report timestamps this far in the past, to test staleness
+ *
+ * Entries without a timestamp are stamped with the current time.
+ * Point the backend at it with PRICE_SOURCES=...,feed and
+ * PRICE_FEED_URL=http://127.0.0.1:8790
+ */
+import 'dotenv/config';
+import { readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+
+type Feed = Record<string, { price: string; timestamp?: number }>;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: process.env.MOCK_PRICE_FEED_PORT || '8790' },
+      price: { type: 'string', multiple: true, default: [] },
+      file: { type: 'string' },
+      jitter: { type: 'string', default: '0' },
+      age: { type: 'string', default: '0' },
+    },
+  });
+
+  const fixed: Feed = Object.fromEntries(
+    (values.price as string[]).map((entry) => {
+      const [symbol, price] = entry.split('=');
+      if (!symbol || !price || Number.isNaN(Number(price))) {
+        throw new Error(`Invalid --price ${entry}, expected SYMBOL=price`);
+      }
+      return [symbol.toUpperCase(), { price }];
+    })
+  );
+
+  if (!values.file && Object.keys(fixed).length === 0) {
+    throw new Error('Give at least one --price or a --file');
+  }
+
+  const jitter = Number(values.jitter);
+  const age = Number(values.age);
+
+  const load = (): Feed => {
+    const feed: Feed = values.file ? JSON.parse(readFileSync(values.file, 'utf8')) : fixed;
+    const now = Math.floor(Date.now() / 1000) - age;
+
+    return Object.fromEntries(
+      Object.entries(feed).map(([symbol, entry]) => {
+        const move = 1 + ((Math.random() * 2 - 1) * jitter) / 10_000;
+        const price = jitter > 0 ? (Number(entry.price) * move).toFixed(8) : entry.price;
+        return [symbol.toUpperCase(), { price, timestamp: entry.timestamp ?? now }];
+      })
+    );
+  };
+
+  const server = createServer((req, res) => {
+    try {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(load()));
+    } catch (error) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(Number(values.port), '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${values.port}`;
+
+  console.log('');
+  console.log(`🟡 Mock price feed listening on ${url}`);
+  console.log(`   Symbols: ${Object.keys(load()).join(', ')}`);
+  console.log('');
+  console.log(`   Set PRICE_FEED_URL=${url} and add "feed" to PRICE_SOURCES in backend/.env`);
+  console.log('');
+
+  const shutdown = () => {
+    server.close(() => process.exit(0));
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
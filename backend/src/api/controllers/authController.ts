@@ -0,0 +1,131 @@
+/**
+ * Auth Controller
+ */
+import { Request, Response } from 'express';
+import type { Hex } from 'viem';
+import { createModuleLogger } from '../../utils/logger';
+import { authService, AuthError } from '../../services/auth/AuthService';
+import { AUTH_CONFIG } from '../../config/contracts';
+import { getPrincipal } from '../middleware/auth';
+import { sendError, errorCodeForStatus } from '../errors';
+import type { ApiKeyParams, CreateApiKeyBody, SignInBody } from '../schemas/auth';
+
+const logger = createModuleLogger('authController');
+
+/**
+ * Get a nonce for a SIWE message
+ */
+export async function getNonce(req: Request, res: Response) {
+  try {
+    const { nonce, expiresAt } = await authService.createNonce();
+    
+    res.json({
+      success: true,
+      nonce,
+      domain: AUTH_CONFIG.siweDomain,
+      expiresAt,
+    });
+  } catch (error) {
+    logger.error('Error creating nonce', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to create nonce');
+  }
+}
+
+/**
+ * Sign in with a signed SIWE message
+ */
+export async function signIn(req: Request, res: Response) {
+  try {
+    const { message, signature } = req.body as SignInBody;
+    
+    const session = await authService.signIn(message, signature as Hex);
+    
+    res.json({
+      success: true,
+      ...session,
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return sendError(res, error.statusCode, errorCodeForStatus(error.statusCode), error.message);
+    }
+    
+    logger.error('Error signing in', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to sign in');
+  }
+}
+
+/**
+ * Get the authenticated principal
+ */
+export async function getMe(req: Request, res: Response) {
+  res.json({
+    success: true,
+    principal: getPrincipal(res),
+  });
+}
+
+/**
+ * Create an API key (admin)
+ */
+export async function createApiKey(req: Request, res: Response) {
+  try {
+    const { name, role, address } = req.body as CreateApiKeyBody;
+    
+    const { apiKey, key } = await authService.createApiKey(name, role, address ?? null);
+    
+    res.status(201).json({
+      success: true,
+      apiKey,
+      key,
+      message: 'Store this key now; it cannot be shown again',
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return sendError(res, error.statusCode, errorCodeForStatus(error.statusCode), error.message);
+    }
+    
+    logger.error('Error creating API key', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to create API key');
+  }
+}
+
+/**
+ * List API keys (admin)
+ */
+export async function listApiKeys(req: Request, res: Response) {
+  try {
+    const apiKeys = await authService.listApiKeys();
+    
+    res.json({
+      success: true,
+      count: apiKeys.length,
+      apiKeys,
+    });
+  } catch (error) {
+    logger.error('Error listing API keys', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to list API keys');
+  }
+}
+
+/**
+ * Revoke an API key (admin)
+ */
+export async function revokeApiKey(req: Request, res: Response) {
+  try {
+    const { id } = req.params as unknown as ApiKeyParams;
+    
+    await authService.revokeApiKey(id);
+    
+    res.json({
+      success: true,
+      message: 'API key revoked',
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return sendError(res, error.statusCode, errorCodeForStatus(error.statusCode), error.message);
+    }
+    
+    logger.error('Error revoking API key', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to revoke API key');
+  }
+}
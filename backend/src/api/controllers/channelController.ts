@@ -0,0 +1,177 @@
+/**
+ * Channel Controller
+ */
+import { Request, Response } from 'express';
+import type { Prisma } from '@prisma/client';
+import { getPrismaClient } from '../../services/database/prisma';
+import { createModuleLogger } from '../../utils/logger';
+import { nitroliteService, ChannelError } from '../../services/nitrolite/NitroliteService';
+import { sendError, errorCodeForStatus } from '../errors';
+import type {
+  ChannelParams,
+  ListChannelsQuery,
+  StateDiffQuery,
+  StateHistoryQuery,
+} from '../schemas/channels';
+
+const logger = createModuleLogger('channelController');
+const prisma = getPrismaClient();
+
+/**
+ * List channels
+ * Filtered, sorted and offset-paginated
+ */
+export async function listChannels(req: Request, res: Response) {
+  try {
+    const query = req.query as unknown as ListChannelsQuery;
+    
+    const where: Prisma.ChannelStateWhereInput = {
+      ...(query.dealId !== undefined && { dealId: query.dealId }),
+      ...(query.intent && { intent: { in: query.intent } }),
+      ...(query.clearNodeStatus && { clearNodeStatus: { in: query.clearNodeStatus } }),
+      // Participants are stored checksummed, as the schema outputs them
+      ...(query.participant && { participants: { array_contains: [query.participant] } }),
+    };
+    
+    const [channels, total] = await Promise.all([
+      prisma.channelState.findMany({
+        where,
+        // Channel ID breaks ties so offsets are stable
+        orderBy: [{ [query.sort]: query.order }, { channelId: query.order }],
+        take: query.limit,
+        skip: query.offset,
+      }),
+      prisma.channelState.count({ where }),
+    ]);
+    
+    res.json({
+      success: true,
+      count: channels.length,
+      total,
+      channels,
+    });
+  } catch (error) {
+    logger.error('Error listing channels', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to list channels');
+  }
+}
+
+/**
+ * Get ClearNode connection status
+ */
+export async function getConnectionStatus(req: Request, res: Response) {
+  res.json({
+    success: true,
+    clearNode: nitroliteService.getConnectionStatus(),
+  });
+}
+
+/**
+ * Get channel by ID, with its deal and latest state versions
+ */
+export async function getChannel(req: Request, res: Response) {
+  try {
+    const { channelId } = req.params as unknown as ChannelParams;
+    const channel = await nitroliteService.getChannelState(channelId);
+    
+    if (!channel) {
+      return sendError(res, 404, 'NOT_FOUND', 'Channel not found');
+    }
+    
+    res.json({
+      success: true,
+      channel,
+    });
+  } catch (error) {
+    logger.error('Error getting channel', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get channel');
+  }
+}
+
+/**
+ * Get a page of state history, each version diffed against the one before
+ */
+export async function getStateHistory(req: Request, res: Response) {
+  try {
+    const { channelId } = req.params as unknown as ChannelParams;
+    const { limit, offset } = req.query as unknown as StateHistoryQuery;
+    
+    if (!(await channelExists(channelId))) {
+      return sendError(res, 404, 'NOT_FOUND', 'Channel not found');
+    }
+    
+    const history = await nitroliteService.getStateHistory(channelId, limit, offset);
+    
+    res.json({
+      success: true,
+      channelId,
+      count: history.length,
+      history,
+    });
+  } catch (error) {
+    logger.error('Error getting channel state history', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get state history');
+  }
+}
+
+/**
+ * Diff two state versions
+ */
+export async function getStateDiff(req: Request, res: Response) {
+  try {
+    const { channelId } = req.params as unknown as ChannelParams;
+    const { from, to } = req.query as unknown as StateDiffQuery;
+    
+    const diff = await nitroliteService.getStateDiff(channelId, from, to);
+    
+    res.json({
+      success: true,
+      channelId,
+      diff,
+    });
+  } catch (error) {
+    if (error instanceof ChannelError) {
+      return sendError(res, error.statusCode, errorCodeForStatus(error.statusCode), error.message);
+    }
+    
+    logger.error('Error diffing channel states', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to diff states');
+  }
+}
+
+/**
+ * Get the channel's live ledger balances from ClearNode
+ */
+export async function getLedgerBalances(req: Request, res: Response) {
+  const { channelId } = req.params as unknown as ChannelParams;
+  
+  try {
+    if (!(await channelExists(channelId))) {
+      return sendError(res, 404, 'NOT_FOUND', 'Channel not found');
+    }
+  } catch (error) {
+    logger.error('Error getting channel', error);
+    return sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get channel');
+  }
+  
+  try {
+    const balances = await nitroliteService.getLedgerBalances(channelId);
+    
+    res.json({
+      success: true,
+      channelId,
+      balances,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    sendError(res, 502, 'UPSTREAM_ERROR', `ClearNode request failed: ${message}`);
+  }
+}
+
+async function channelExists(channelId: string) {
+  const channel = await prisma.channelState.findUnique({
+    where: { channelId },
+    select: { channelId: true },
+  });
+  return channel !== null;
+}
@@ -2,42 +2,76 @@
  * Deal Controller
  */
 import { Request, Response } from 'express';
+import type { Prisma } from '@prisma/client';
 import { getPrismaClient } from '../../services/database/prisma';
 import { createModuleLogger } from '../../utils/logger';
-import { nitroliteService } from '../../services/nitrolite/NitroliteService';
+import { dealVaultService } from '../../services/blockchain/DealVaultService';
+import { dealLifecycleService } from '../../services/deals/DealLifecycleService';
+import { dealStateMachine, DealTransitionError } from '../../services/deals/DealStateMachine';
+import { settlementService, SettlementError } from '../../services/settlement/SettlementService';
+import { nitroliteService, ChannelError } from '../../services/nitrolite/NitroliteService';
+import { BaseError, ContractFunctionRevertedError } from 'viem';
+import { CHAINS } from '../../config/chains';
+import { DEAL_EXECUTION_MODE } from '../../config/contracts';
+import { sendError, errorCodeForStatus } from '../errors';
+import { getPrincipal } from '../middleware/auth';
+import { sameAddress } from '../../services/auth/AuthService';
+import { pageArgs, toPage } from '../pagination';
+import type { IdParams } from '../schemas/common';
+import type { ChannelSignatureBody, CreateDealBody, ListDealsQuery } from '../schemas/deals';
 
 const logger = createModuleLogger('dealController');
 const prisma = getPrismaClient();
 
 /**
- * List all deals
+ * List deals
+ * Filtered, sorted and cursor-paginated; relations only on `include`
  */
 export async function listDeals(req: Request, res: Response) {
   try {
-    const { status, limit = '50', offset = '0' } = req.query;
+    const query = req.query as unknown as ListDealsQuery;
+    const include = query.include ?? [];
     
-    const deals = await prisma.deal.findMany({
-      where: status ? { status: status as any } : undefined,
-      take: parseInt(limit as string),
-      skip: parseInt(offset as string),
-      orderBy: { createdAt: 'desc' },
+    const where: Prisma.DealWhereInput = {
+      ...(query.status && { status: { in: query.status } }),
+      ...(query.dealer && { dealer: { equals: query.dealer, mode: 'insensitive' } }),
+      ...(query.depositToken && {
+        depositToken: { equals: query.depositToken, mode: 'insensitive' },
+      }),
+      ...(query.targetChainId !== undefined && { targetChainId: query.targetChainId }),
+      ...((query.createdFrom || query.createdTo) && {
+        createdAt: { gte: query.createdFrom, lte: query.createdTo },
+      }),
+      ...((query.expiresFrom || query.expiresTo) && {
+        expiryTimestamp: { gte: query.expiresFrom, lte: query.expiresTo },
+      }),
+      ...((query.minTotalDeposited || query.maxTotalDeposited) && {
+        totalDeposited: { gte: query.minTotalDeposited, lte: query.maxTotalDeposited },
+      }),
+    };
+    
+    const rows = await prisma.deal.findMany({
+      where,
+      ...pageArgs(query.limit, query.cursor),
+      // ID breaks ties so the cursor position is stable
+      orderBy: [{ [query.sort]: query.order }, { id: query.order }],
       include: {
-        positions: true,
-        channelState: true,
+        positions: include.includes('positions'),
+        channelState: include.includes('channelState'),
       },
     });
     
+    const { items: deals, nextCursor } = toPage(rows, query.limit);
+    
     res.json({
       success: true,
       count: deals.length,
       deals,
+      nextCursor,
     });
   } catch (error) {
     logger.error('Error listing deals', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to list deals',
-    });
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to list deals');
   }
 }
 
@@ -46,7 +80,7 @@ export async function listDeals(req: Request, res: Response) {
  */
 export async function getDeal(req: Request, res: Response) {
   try {
-    const dealId = BigInt(req.params.id);
+    const { id: dealId } = req.params as unknown as IdParams;
     
     const deal = await prisma.deal.findUnique({
       where: { id: dealId },
@@ -58,10 +92,7 @@ export async function getDeal(req: Request, res: Response) {
     });
     
     if (!deal) {
-      return res.status(404).json({
-        success: false,
-        error: 'Deal not found',
-      });
+      return sendError(res, 404, 'NOT_FOUND', 'Deal not found');
     }
     
     res.json({
@@ -70,10 +101,7 @@ export async function getDeal(req: Request, res: Response) {
     });
   } catch (error) {
     logger.error('Error getting deal', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to get deal',
-    });
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get deal');
   }
 }
 
@@ -91,64 +119,95 @@ export async function createDeal(req: Request, res: Response) {
       duration,
       expectedYield,
       dealer,
-    } = req.body;
+    } = req.body as CreateDealBody;
     
-    // Validate required fields
-    if (!depositToken || !targetToken || !targetChainId || !dealer) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: depositToken, targetToken, targetChainId, dealer',
+    // Dealers can only create deals for themselves
+    const principal = getPrincipal(res);
+    if (principal.role !== 'ADMIN' && !sameAddress(principal.address, dealer)) {
+      return sendError(res, 403, 'FORBIDDEN', 'dealer must be the authenticated address');
+    }
+    
+    const params = {
+      minDeposit: BigInt(minDeposit),
+      maxDeposit: BigInt(maxDeposit),
+      duration: BigInt(duration),
+      expectedYield: BigInt(expectedYield),
+    };
+    
+    let dealId: bigint;
+    let txHash: string | null = null;
+    
+    if (DEAL_EXECUTION_MODE === 'onchain') {
+      try {
+        ({ dealId, txHash } = await dealVaultService.createDeal({
+          depositToken,
+          targetToken,
+          targetChainId,
+          ...params,
+        }));
+      } catch (error) {
+        const revert = error instanceof BaseError
+          ? error.walk((e) => e instanceof ContractFunctionRevertedError)
+          : null;
+        
+        if (revert instanceof ContractFunctionRevertedError) {
+          logger.warn('Deal creation reverted on-chain', {
+            reason: revert.data?.errorName ?? revert.reason,
+          });
+          return sendError(
+            res,
+            422,
+            'CONTRACT_REVERTED',
+            'Deal creation reverted on-chain',
+            revert.data?.errorName ?? revert.reason ?? revert.shortMessage
+          );
+        }
+        
+        throw error;
+      }
+    } else {
+      // Simulation: no transaction, timestamp as unique ID
+      dealId = BigInt(Date.now());
+      
+      logger.info('Simulated deal created (no on-chain transaction)', { 
+        dealId: dealId.toString(), 
+        depositToken, 
+        targetToken, 
+        dealer 
       });
     }
     
-    // ===== BLOCKCHAIN INTERACTION COMMENTED OUT FOR DEVELOPMENT =====
-    // Uncomment when ready to deploy to mainnet
-    
-    // const { dealVaultService } = await import('../../services/blockchain/DealVaultService');
-    // try {
-    //   await dealVaultService.initialize();
-    // } catch (error) {
-    //   // Already initialized, continue
-    // }
-    // const { dealId, txHash } = await dealVaultService.createDeal({
-    //   depositToken: depositToken as `0x${string}`,
-    //   targetToken: targetToken as `0x${string}`,
-    //   targetChainId: BigInt(targetChainId),
-    //   minDeposit: BigInt(minDeposit || '100000000'),
-    //   maxDeposit: BigInt(maxDeposit || '10000000000'),
-    //   duration: BigInt(duration || 604800),
-    //   expectedYield: BigInt(expectedYield || 500),
-    // });
-    
-    // ===== MOCK DATA FOR DEVELOPMENT =====
-    const dealId = BigInt(Date.now()); // Use timestamp as unique ID
-    const txHash = `0x${Buffer.from(`mock-deal-${dealId}`).toString('hex').padStart(64, '0')}`;
-    
-    logger.info('Mock deal created (development mode)', { 
-      dealId: dealId.toString(), 
-      depositToken, 
-      targetToken, 
-      dealer 
-    });
+    const dealData = {
+      depositToken,
+      targetToken,
+      targetChainId,
+      minDeposit: params.minDeposit.toString(),
+      maxDeposit: params.maxDeposit.toString(),
+      duration: Number(params.duration),
+      expectedYield: Number(params.expectedYield),
+      expiryTimestamp: new Date(Date.now() + Number(params.duration) * 1000),
+      dealer,
+      simulated: DEAL_EXECUTION_MODE === 'simulation',
+      txHash,
+    };
     
-    // Store in database
-    const deal = await prisma.deal.create({
-      data: {
+    // Store in database (the indexer may already have seen DealCreated)
+    const deal = await prisma.deal.upsert({
+      where: { id: dealId },
+      create: {
         id: dealId,
-        depositToken,
-        targetToken,
-        targetChainId: BigInt(targetChainId),
         status: 'CREATED',
         totalDeposited: 0,
-        expectedYield: Number(expectedYield || 500),
-        dealer,
+        ...dealData,
       },
+      update: dealData,
     });
     
     logger.info('Deal stored in database', { dealId: deal.id.toString() });
     
     res.status(201).json({
       success: true,
+      mode: DEAL_EXECUTION_MODE,
       deal: {
         id: deal.id.toString(),
         depositToken: deal.depositToken,
@@ -156,20 +215,27 @@ export async function createDeal(req: Request, res: Response) {
         targetChainId: deal.targetChainId.toString(),
         status: deal.status,
         totalDeposited: deal.totalDeposited.toString(),
+        minDeposit: deal.minDeposit?.toString(),
+        maxDeposit: deal.maxDeposit?.toString(),
+        duration: deal.duration,
         expectedYield: deal.expectedYield,
+        expiryTimestamp: deal.expiryTimestamp?.toISOString(),
         dealer: deal.dealer,
+        simulated: deal.simulated,
         createdAt: deal.createdAt.toISOString(),
       },
       txHash,
-      explorerUrl: `https://flare-explorer.flare.network/tx/${txHash}`,
+      explorerUrl: txHash ? `${CHAINS.flare.blockExplorer}/tx/${txHash}` : null,
     });
   } catch (error) {
     logger.error('Error creating deal', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to create deal',
-      details: error instanceof Error ? error.message : 'Unknown error',
-    });
+    sendError(
+      res,
+      500,
+      'INTERNAL_ERROR',
+      'Failed to create deal',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
   }
 }
 
@@ -178,134 +244,106 @@ export async function createDeal(req: Request, res: Response) {
  */
 export async function lockDeal(req: Request, res: Response) {
   try {
-    const dealId = BigInt(req.params.id);
+    const { id: dealId } = req.params as unknown as IdParams;
     
-    // Get deal with positions
-    const deal = await prisma.deal.findUnique({
-      where: { id: dealId },
-      include: { positions: true },
-    });
-    
-    if (!deal) {
-      return res.status(404).json({
-        success: false,
-        error: 'Deal not found',
-      });
-    }
-    
-    if (deal.status !== 'CREATED') {
-      return res.status(400).json({
-        success: false,
-        error: 'Deal must be in CREATED status',
-      });
-    }
-    
-    // Calculate total LP deposits
-    const lpTotal = BigInt(deal.totalDeposited.toString());
-    
-    // Create Nitrolite channel
-    const { channelId } = await nitroliteService.createChannelForDeal(
-      dealId,
-      deal.dealer as `0x${string}`, // Dealer
-      deal.dealer as `0x${string}`, // LP (using dealer as proxy for now)
-      lpTotal // LP amount
-    );
-    
-    // Update deal status
-    const updatedDeal = await prisma.deal.update({
-      where: { id: dealId },
-      data: {
-        status: 'LOCKED',
-        lockTimestamp: new Date(),
-      },
+    const { deal, channelId, transactions } = await dealLifecycleService.lockDeal(dealId, {
+      source: 'api',
     });
     
     logger.info('Deal locked with Nitrolite channel', {
       dealId: dealId.toString(),
       channelId,
+      transactions,
     });
     
     res.json({
       success: true,
-      deal: updatedDeal,
+      deal,
       channelId,
+      transactions,
       message: 'Deal locked and channel created',
     });
   } catch (error) {
+    if (error instanceof DealTransitionError || error instanceof ChannelError) {
+      return sendError(res, error.statusCode, errorCodeForStatus(error.statusCode), error.message);
+    }
+    
     logger.error('Error locking deal', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to lock deal',
-    });
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to lock deal');
   }
 }
 
 /**
  * Settle deal (Finalize Nitrolite channel)
+ * Price and splits are computed server-side; the request body is ignored
  */
 export async function settleDeal(req: Request, res: Response) {
   try {
-    const dealId = BigInt(req.params.id);
-    const { finalPrice, dealerFinal, lpFinal } = req.body;
-    
-    // Get channel state for this deal
-    const channelState = await prisma.channelState.findUnique({
-      where: { dealId },
-    });
-    
-    if (!channelState) {
-      return res.status(404).json({
-        success: false,
-        error: 'Channel not found for deal',
-      });
-    }
-    
-    // Finalize Nitrolite channel
-    await nitroliteService.finalizeChannel(
-      channelState.channelId,
-      BigInt(dealerFinal),
-      BigInt(lpFinal)
-    );
+    const { id: dealId } = req.params as unknown as IdParams;
     
-    // Update deal status
-    const deal = await prisma.deal.update({
-      where: { id: dealId },
-      data: {
-        status: 'SETTLED',
-      },
-    });
-    
-    // Create settlement record
-    const settlement = await prisma.settlement.create({
-      data: {
-        dealId,
-        finalPrice,
-        priceSource: 'FTSO',
-        dealerFinal,
-        lpFinal,
-        status: 'COMPLETED',
-        settledAt: new Date(),
-        channelId: channelState.channelId,
-      },
-    });
+    const { deal, settlement } = await settlementService.settleDeal(dealId);
     
     logger.info('Deal settled with channel finalized', {
       dealId: dealId.toString(),
-      channelId: channelState.channelId,
+      channelId: settlement.channelId,
     });
     
     res.json({
       success: true,
       deal,
       settlement,
-      channelId: channelState.channelId,
+      channelId: settlement.channelId,
     });
   } catch (error) {
+    if (
+      error instanceof SettlementError ||
+      error instanceof DealTransitionError ||
+      error instanceof ChannelError
+    ) {
+      return sendError(res, error.statusCode, errorCodeForStatus(error.statusCode), error.message);
+    }
+    
     logger.error('Error settling deal', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to settle deal',
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to settle deal');
+  }
+}
+
+/**
+ * Countersign a channel state
+ * The next state version can only be created once this one is countersigned
+ */
+export async function signChannelState(req: Request, res: Response) {
+  try {
+    const { id: dealId } = req.params as unknown as IdParams;
+    const { version, signature } = req.body as ChannelSignatureBody;
+    
+    const channel = await prisma.channelState.findUnique({
+      where: { dealId },
+      select: { channelId: true },
     });
+    
+    if (!channel) {
+      return sendError(res, 404, 'NOT_FOUND', 'Channel not found for deal');
+    }
+    
+    const state = await nitroliteService.addCounterpartySignature(
+      channel.channelId,
+      version,
+      signature
+    );
+    
+    res.json({
+      success: true,
+      channelId: channel.channelId,
+      state,
+    });
+  } catch (error) {
+    if (error instanceof ChannelError) {
+      return sendError(res, error.statusCode, errorCodeForStatus(error.statusCode), error.message);
+    }
+    
+    logger.error('Error countersigning channel state', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to record signature');
   }
 }
 
@@ -314,7 +352,7 @@ export async function settleDeal(req: Request, res: Response) {
  */
 export async function getDealPositions(req: Request, res: Response) {
   try {
-    const dealId = BigInt(req.params.id);
+    const { id: dealId } = req.params as unknown as IdParams;
     
     const positions = await prisma.position.findMany({
       where: { dealId },
@@ -330,9 +368,54 @@ export async function getDealPositions(req: Request, res: Response) {
     });
   } catch (error) {
     logger.error('Error getting deal positions', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to get positions',
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get positions');
+  }
+}
+
+/**
+ * Get per-position payouts for a settled deal
+ */
+export async function getDealPayouts(req: Request, res: Response) {
+  try {
+    const { id: dealId } = req.params as unknown as IdParams;
+    
+    const { settlement, positions, distributed } = await settlementService.getPayouts(dealId);
+    
+    res.json({
+      success: true,
+      settlementId: settlement.id,
+      lpFinal: settlement.lpFinal.toFixed(0),
+      distributed: distributed.toString(),
+      dust: (BigInt(settlement.lpFinal.toFixed(0)) - distributed).toString(),
+      count: positions.length,
+      payouts: positions,
     });
+  } catch (error) {
+    if (error instanceof SettlementError) {
+      return sendError(res, error.statusCode, errorCodeForStatus(error.statusCode), error.message);
+    }
+    
+    logger.error('Error getting deal payouts', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get payouts');
+  }
+}
+
+/**
+ * Get status transition history for a deal
+ */
+export async function getDealTransitions(req: Request, res: Response) {
+  try {
+    const { id: dealId } = req.params as unknown as IdParams;
+    
+    const transitions = await dealStateMachine.getHistory(dealId);
+    
+    res.json({
+      success: true,
+      count: transitions.length,
+      transitions,
+    });
+  } catch (error) {
+    logger.error('Error getting deal transitions', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get transitions');
   }
 }
@@ -2,44 +2,61 @@
  * Position Controller
  */
 import { Request, Response } from 'express';
+import type { Prisma } from '@prisma/client';
 import { getPrismaClient } from '../../services/database/prisma';
 import { createModuleLogger } from '../../utils/logger';
+import { sendError } from '../errors';
+import { pageArgs, toPage } from '../pagination';
+import type { IdParams } from '../schemas/common';
+import type { ListPositionsQuery } from '../schemas/positions';
 
 const logger = createModuleLogger('positionController');
 const prisma = getPrismaClient();
 
 /**
- * List all positions
+ * List positions
+ * Filtered, sorted and cursor-paginated; relations only on `include`
  */
 export async function listPositions(req: Request, res: Response) {
   try {
-    const { owner, dealId, limit = '50', offset = '0' } = req.query;
+    const query = req.query as unknown as ListPositionsQuery;
+    const include = query.include ?? [];
     
-    const positions = await prisma.position.findMany({
-      where: {
-        ...(owner && { owner: owner as string }),
-        ...(dealId && { dealId: BigInt(dealId as string) }),
-      },
-      take: parseInt(limit as string),
-      skip: parseInt(offset as string),
-      orderBy: { createdAt: 'desc' },
+    const where: Prisma.PositionWhereInput = {
+      ...(query.owner && { owner: { equals: query.owner, mode: 'insensitive' } }),
+      ...(query.dealId !== undefined && { dealId: query.dealId }),
+      ...(query.chainId !== undefined && { chainId: query.chainId }),
+      ...(query.claimed !== undefined && { claimed: query.claimed }),
+      ...((query.createdFrom || query.createdTo) && {
+        createdAt: { gte: query.createdFrom, lte: query.createdTo },
+      }),
+      ...((query.minDepositAmount || query.maxDepositAmount) && {
+        depositAmount: { gte: query.minDepositAmount, lte: query.maxDepositAmount },
+      }),
+    };
+    
+    const rows = await prisma.position.findMany({
+      where,
+      ...pageArgs(query.limit, query.cursor),
+      // ID breaks ties so the cursor position is stable
+      orderBy: [{ [query.sort]: query.order }, { id: query.order }],
       include: {
-        deal: true,
-        remoteDeposit: true,
+        deal: include.includes('deal'),
+        remoteDeposit: include.includes('remoteDeposit'),
       },
     });
     
+    const { items: positions, nextCursor } = toPage(rows, query.limit);
+    
     res.json({
       success: true,
       count: positions.length,
       positions,
+      nextCursor,
     });
   } catch (error) {
     logger.error('Error listing positions', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to list positions',
-    });
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to list positions');
   }
 }
 
@@ -48,7 +65,7 @@ export async function listPositions(req: Request, res: Response) {
  */
 export async function getPosition(req: Request, res: Response) {
   try {
-    const positionId = BigInt(req.params.id);
+    const { id: positionId } = req.params as unknown as IdParams;
     
     const position = await prisma.position.findUnique({
       where: { id: positionId },
@@ -59,10 +76,7 @@ export async function getPosition(req: Request, res: Response) {
     });
     
     if (!position) {
-      return res.status(404).json({
-        success: false,
-        error: 'Position not found',
-      });
+      return sendError(res, 404, 'NOT_FOUND', 'Position not found');
     }
     
     res.json({
@@ -71,102 +85,63 @@ export async function getPosition(req: Request, res: Response) {
     });
   } catch (error) {
     logger.error('Error getting position', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to get position',
-    });
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get position');
   }
 }
 
 /**
- * Create new position (deposit)
+ * Withdraw from position
+ * Pays out the claimAmount stored when the deal settled. DealVault only
+ * pays the position owner's own claimPosition transaction, so this records
+ * the withdrawal; the indexer confirms it from PositionClaimed.
  */
-export async function createPosition(req: Request, res: Response) {
+export async function withdrawPosition(req: Request, res: Response) {
   try {
-    const {
-      id,
-      dealId,
-      owner,
-      depositAmount,
-      tokenAddress,
-      chainId,
-    } = req.body;
-    
-    // Validate required fields
-    if (!id || !dealId || !owner || !depositAmount || !tokenAddress || !chainId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields',
-      });
-    }
+    const { id: positionId } = req.params as unknown as IdParams;
     
-    const position = await prisma.position.create({
-      data: {
-        id: BigInt(id),
-        dealId: BigInt(dealId),
-        owner,
-        depositAmount,
-        tokenAddress,
-        chainId: BigInt(chainId),
-        claimed: false,
-      },
+    const existing = await prisma.position.findUnique({
+      where: { id: positionId },
+      select: { claimed: true, claimAmount: true, deal: { select: { status: true } } },
     });
     
-    // Update deal's total deposited
-    await prisma.deal.update({
-      where: { id: BigInt(dealId) },
-      data: {
-        totalDeposited: {
-          increment: depositAmount,
-        },
-      },
-    });
+    if (!existing) {
+      return sendError(res, 404, 'NOT_FOUND', 'Position not found');
+    }
     
-    logger.info('Position created', { positionId: position.id.toString() });
+    if (existing.deal.status !== 'SETTLED') {
+      return sendError(res, 409, 'CONFLICT', `Cannot withdraw from a deal in ${existing.deal.status} status`);
+    }
     
-    res.status(201).json({
-      success: true,
-      position,
-    });
-  } catch (error) {
-    logger.error('Error creating position', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to create position',
+    if (existing.claimAmount === null) {
+      return sendError(res, 409, 'CONFLICT', 'Position has no settled payout');
+    }
+    
+    // Compare-and-set, so a position is only withdrawn once
+    const { count } = await prisma.position.updateMany({
+      where: { id: positionId, claimed: false },
+      data: { claimed: true },
     });
-  }
-}
-
-/**
- * Withdraw from position
- */
-export async function withdrawPosition(req: Request, res: Response) {
-  try {
-    const positionId = BigInt(req.params.id);
-    const { claimAmount } = req.body;
     
-    const position = await prisma.position.update({
+    if (count === 0) {
+      return sendError(res, 409, 'CONFLICT', 'Position already withdrawn');
+    }
+    
+    const position = await prisma.position.findUniqueOrThrow({
       where: { id: positionId },
-      data: {
-        claimed: true,
-        claimAmount,
-      },
     });
     
-    logger.info('Position withdrawn', { positionId: position.id.toString() });
-    
-    // TODO: Trigger actual blockchain withdrawal
+    logger.info('Position withdrawn', {
+      positionId: position.id.toString(),
+      claimAmount: position.claimAmount?.toFixed(0),
+    });
     
     res.json({
       success: true,
       position,
-      message: 'Withdrawal processed',
+      message: 'Withdrawal recorded; claim it on-chain with DealVault.claimPosition',
     });
   } catch (error) {
     logger.error('Error withdrawing position', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to withdraw position',
-    });
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to withdraw position');
   }
 }
@@ -2,45 +2,41 @@
  * Price Controller
  */
 import { Request, Response } from 'express';
-import { getPrismaClient } from '../../services/database/prisma';
 import { createModuleLogger } from '../../utils/logger';
+import { priceAggregator, storedPrice } from '../../services/price/PriceAggregator';
+import { sendError } from '../errors';
+import type { PriceHistoryQuery, SymbolParams } from '../schemas/prices';
 
 const logger = createModuleLogger('priceController');
-const prisma = getPrismaClient();
 
 /**
  * Get current price for token
  */
 export async function getPrice(req: Request, res: Response) {
   try {
-    const { symbol } = req.params;
+    const { symbol } = req.params as unknown as SymbolParams;
     
-    // Get latest price from database
-    const latestPrice = await prisma.priceHistory.findFirst({
-      where: { tokenSymbol: symbol.toUpperCase() },
-      orderBy: { timestamp: 'desc' },
-    });
+    const latestPrice = await priceAggregator.getLatestPrice(symbol);
     
     if (!latestPrice) {
-      return res.status(404).json({
-        success: false,
-        error: `Price not found for ${symbol}`,
-      });
+      return sendError(res, 404, 'NOT_FOUND', `Price not found for ${symbol}`);
     }
     
+    const { raw, decimals, price } = storedPrice(latestPrice);
+
     res.json({
       success: true,
-      symbol: symbol.toUpperCase(),
-      price: latestPrice.price.toString(),
+      symbol,
+      price,
+      priceRaw: raw.toString(),
+      decimals,
       timestamp: latestPrice.timestamp,
       source: latestPrice.source,
+      sources: latestPrice.sources,
     });
   } catch (error) {
     logger.error('Error getting price', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to get price',
-    });
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get price');
   }
 }
 
@@ -49,27 +45,22 @@ export async function getPrice(req: Request, res: Response) {
  */
 export async function getPriceHistory(req: Request, res: Response) {
   try {
-    const { symbol } = req.params;
-    const { limit = '100', offset = '0' } = req.query;
+    const { symbol } = req.params as unknown as SymbolParams;
+    const { limit, offset } = req.query as unknown as PriceHistoryQuery;
     
-    const history = await prisma.priceHistory.findMany({
-      where: { tokenSymbol: symbol.toUpperCase() },
-      orderBy: { timestamp: 'desc' },
-      take: parseInt(limit as string),
-      skip: parseInt(offset as string),
-    });
+    const history = await priceAggregator.getPriceHistory(symbol, limit, offset);
     
     res.json({
       success: true,
-      symbol: symbol.toUpperCase(),
+      symbol,
       count: history.length,
-      history,
+      history: history.map((row) => {
+        const { raw, price } = storedPrice(row);
+        return { ...row, price, priceRaw: raw.toString() };
+      }),
     });
   } catch (error) {
     logger.error('Error getting price history', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to get price history',
-    });
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get price history');
   }
 }
@@ -0,0 +1,86 @@
+/**
+ * Ledger Reconciliation Controller
+ */
+import { Request, Response } from 'express';
+import type { Prisma } from '@prisma/client';
+import { getPrismaClient } from '../../services/database/prisma';
+import { createModuleLogger } from '../../utils/logger';
+import { ledgerReconciliation } from '../../services/reconciliation/LedgerReconciliation';
+import { sendError } from '../errors';
+import type { ReconciliationReportQuery } from '../schemas/reconciliation';
+
+const logger = createModuleLogger('reconciliationController');
+const prisma = getPrismaClient();
+
+/**
+ * Discrepancy report: open counts by severity and the matching discrepancies,
+ * most severe and most recent first
+ */
+export async function getReport(req: Request, res: Response) {
+  try {
+    const query = req.query as unknown as ReconciliationReportQuery;
+    
+    const where: Prisma.LedgerDiscrepancyWhereInput = {
+      status: { in: query.status },
+      ...(query.severity && { severity: { in: query.severity } }),
+      ...(query.source && { source: { in: query.source } }),
+      ...(query.kind && { kind: { in: query.kind } }),
+      ...(query.channelId && { channelId: query.channelId }),
+      ...(query.dealId !== undefined && { channelState: { dealId: query.dealId } }),
+    };
+    
+    const [discrepancies, total, bySeverity] = await Promise.all([
+      prisma.ledgerDiscrepancy.findMany({
+        where,
+        orderBy: [{ severity: 'desc' }, { lastSeenAt: 'desc' }, { id: 'desc' }],
+        take: query.limit,
+        skip: query.offset,
+        include: { channelState: { select: { dealId: true } } },
+      }),
+      prisma.ledgerDiscrepancy.count({ where }),
+      prisma.ledgerDiscrepancy.groupBy({
+        by: ['severity'],
+        where: { status: 'OPEN' },
+        _count: { _all: true },
+      }),
+    ]);
+    
+    const open = { CRITICAL: 0, WARNING: 0, INFO: 0 };
+    for (const group of bySeverity) {
+      open[group.severity] = group._count._all;
+    }
+    
+    res.json({
+      success: true,
+      lastRun: ledgerReconciliation.getLastRun(),
+      open,
+      count: discrepancies.length,
+      total,
+      discrepancies,
+    });
+  } catch (error) {
+    logger.error('Error getting reconciliation report', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get reconciliation report');
+  }
+}
+
+/**
+ * Run a reconciliation pass now
+ */
+export async function runReconciliation(req: Request, res: Response) {
+  try {
+    const run = await ledgerReconciliation.reconcile();
+    
+    if (!run) {
+      return sendError(res, 409, 'CONFLICT', 'A reconciliation pass is already running');
+    }
+    
+    res.json({
+      success: true,
+      run,
+    });
+  } catch (error) {
+    logger.error('Error running reconciliation', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to run reconciliation');
+  }
+}
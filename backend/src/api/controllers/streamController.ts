@@ -0,0 +1,59 @@
+/**
+ * Stream Controller
+ * Server-Sent Events endpoint for real-time updates
+ */
+import { Request, Response } from 'express';
+import { createModuleLogger } from '../../utils/logger';
+import { eventStreamService, type StreamEvent } from '../../services/stream/EventStreamService';
+import { STREAM_CONFIG } from '../../config/contracts';
+import type { StreamQuery } from '../schemas/stream';
+
+const logger = createModuleLogger('streamController');
+
+// Client reconnect delay sent with the stream (ms)
+const RETRY_DELAY = 3000;
+
+/**
+ * Subscribe to topics
+ * Resumes after the Last-Event-ID header (or `lastEventId` query) if given
+ */
+export async function subscribe(req: Request, res: Response) {
+  const { topics, lastEventId } = req.query as unknown as StreamQuery;
+  const header = req.get('Last-Event-ID');
+  const after = lastEventId ?? (header && /^\d+$/.test(header) ? BigInt(header) : undefined);
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop reverse proxies from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${RETRY_DELAY}\n\n`);
+  
+  const send = (event: StreamEvent) => {
+    res.write(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  };
+  
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), STREAM_CONFIG.keepAlive);
+  let subscription: { unsubscribe: () => void } | null = null;
+  let closed = false;
+  
+  req.on('close', () => {
+    closed = true;
+    clearInterval(keepAlive);
+    subscription?.unsubscribe();
+  });
+  
+  try {
+    subscription = await eventStreamService.subscribe(topics, after, send);
+    
+    // The client may have gone away during the replay
+    if (closed) subscription.unsubscribe();
+  } catch (error) {
+    // Headers are already sent; closing makes the client reconnect
+    logger.error('Error subscribing to stream', error);
+    clearInterval(keepAlive);
+    res.end();
+  }
+}
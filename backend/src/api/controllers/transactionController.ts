@@ -0,0 +1,32 @@
+/**
+ * Transaction Controller
+ */
+import { Request, Response } from 'express';
+import { createModuleLogger } from '../../utils/logger';
+import { transactionQueue } from '../../services/blockchain/TransactionQueueService';
+import { sendError } from '../errors';
+import type { TransactionParams } from '../schemas/transactions';
+
+const logger = createModuleLogger('transactionController');
+
+/**
+ * Get queued transaction by job ID
+ */
+export async function getTransaction(req: Request, res: Response) {
+  try {
+    const { id } = req.params as unknown as TransactionParams;
+    const job = await transactionQueue.getJob(id);
+    
+    if (!job) {
+      return sendError(res, 404, 'NOT_FOUND', 'Transaction not found');
+    }
+    
+    res.json({
+      success: true,
+      transaction: job,
+    });
+  } catch (error) {
+    logger.error('Error getting transaction', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get transaction');
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * API error envelope
+ * Every failed request returns { success: false, error: { code, message, details? } }
+ */
+import type { Response } from 'express';
+
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'UNPROCESSABLE'
+  | 'CONTRACT_REVERTED'
+  | 'UPSTREAM_ERROR'
+  | 'INTERNAL_ERROR';
+
+const CODE_BY_STATUS: Record<number, ErrorCode> = {
+  400: 'VALIDATION_FAILED',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  422: 'UNPROCESSABLE',
+  502: 'UPSTREAM_ERROR',
+};
+
+/**
+ * Error code for a service error carrying only an HTTP status
+ */
+export function errorCodeForStatus(statusCode: number): ErrorCode {
+  return CODE_BY_STATUS[statusCode] ?? 'INTERNAL_ERROR';
+}
+
+/**
+ * Send an error response in the standard envelope
+ */
+export function sendError(
+  res: Response,
+  statusCode: number,
+  code: ErrorCode,
+  message: string,
+  details?: unknown
+) {
+  return res.status(statusCode).json({
+    success: false,
+    error: {
+      code,
+      message,
+      ...(details !== undefined && { details }),
+    },
+  });
+}
@@ -0,0 +1,174 @@
+/**
+ * Authentication and authorization middleware
+ */
+import type { NextFunction, Request, Response } from 'express';
+import type { Role } from '@prisma/client';
+import { getPrismaClient } from '../../services/database/prisma';
+import { createModuleLogger } from '../../utils/logger';
+import { authService, AuthError, sameAddress, type Principal } from '../../services/auth/AuthService';
+import { sendError, errorCodeForStatus } from '../errors';
+import type { IdParams } from '../schemas/common';
+import type { StreamQuery } from '../schemas/stream';
+
+const logger = createModuleLogger('auth');
+const prisma = getPrismaClient();
+
+/**
+ * Principal set by `authenticate`
+ */
+export function getPrincipal(res: Response): Principal {
+  return res.locals.principal;
+}
+
+/**
+ * Principal for the request's credentials, or null if it has none
+ * `token` is a session token passed other than in the Authorization header.
+ */
+async function readPrincipal(req: Request, token?: string): Promise<Principal | null> {
+  const apiKey = req.get('x-api-key');
+  const [scheme, bearer] = (req.get('authorization') || '').split(' ');
+
+  if (apiKey) {
+    return await authService.verifyApiKey(apiKey);
+  }
+  if (scheme === 'Bearer' && bearer) {
+    return authService.verifyToken(bearer);
+  }
+  if (token) {
+    return authService.verifyToken(token);
+  }
+
+  return null;
+}
+
+/**
+ * Require a session token (`Authorization: Bearer <jwt>`) or an API key
+ * (`X-API-Key: <key>`)
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    const principal = await readPrincipal(req);
+
+    if (!principal) {
+      return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
+    }
+
+    res.locals.principal = principal;
+    next();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return sendError(res, error.statusCode, errorCodeForStatus(error.statusCode), error.message);
+    }
+
+    logger.error('Error authenticating request', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to authenticate request');
+  }
+}
+
+/**
+ * Require the address of every `owner:{address}` stream topic, or an admin
+ * Other topics are public. EventSource cannot set headers, so the session
+ * token may also be passed as the `token` query parameter.
+ */
+export async function requireStreamOwner(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { topics, token } = req.query as unknown as StreamQuery;
+    const owners = topics.filter((topic) => topic.startsWith('owner:'));
+
+    if (owners.length === 0) {
+      return next();
+    }
+
+    const principal = await readPrincipal(req, token);
+
+    if (!principal) {
+      return sendError(res, 401, 'UNAUTHORIZED', 'Authentication required for owner topics');
+    }
+
+    const other = owners.find((topic) => !sameAddress(topic.slice('owner:'.length), principal.address));
+    if (principal.role !== 'ADMIN' && other) {
+      return sendError(res, 403, 'FORBIDDEN', `Only the owner or an admin can subscribe to ${other}`);
+    }
+
+    res.locals.principal = principal;
+    next();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return sendError(res, error.statusCode, errorCodeForStatus(error.statusCode), error.message);
+    }
+
+    logger.error('Error authorizing stream topics', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to authorize request');
+  }
+}
+
+/**
+ * Require one of the given roles
+ */
+export function requireRole(...roles: Role[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const principal = getPrincipal(res);
+
+    if (!roles.includes(principal.role)) {
+      return sendError(res, 403, 'FORBIDDEN', `Requires role ${roles.join(' or ')}`);
+    }
+
+    next();
+  };
+}
+
+/**
+ * Require the deal's dealer or an admin (route param `id` is the deal)
+ */
+export async function requireDealer(req: Request, res: Response, next: NextFunction) {
+  try {
+    const principal = getPrincipal(res);
+    const { id } = req.params as unknown as IdParams;
+
+    const deal = await prisma.deal.findUnique({
+      where: { id },
+      select: { dealer: true },
+    });
+
+    if (!deal) {
+      return sendError(res, 404, 'NOT_FOUND', 'Deal not found');
+    }
+
+    if (principal.role !== 'ADMIN' && !sameAddress(principal.address, deal.dealer)) {
+      return sendError(res, 403, 'FORBIDDEN', 'Only the deal dealer or an admin can do this');
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Error authorizing deal access', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to authorize request');
+  }
+}
+
+/**
+ * Require the position's owner (route param `id` is the position)
+ */
+export async function requirePositionOwner(req: Request, res: Response, next: NextFunction) {
+  try {
+    const principal = getPrincipal(res);
+    const { id } = req.params as unknown as IdParams;
+
+    const position = await prisma.position.findUnique({
+      where: { id },
+      select: { owner: true },
+    });
+
+    if (!position) {
+      return sendError(res, 404, 'NOT_FOUND', 'Position not found');
+    }
+
+    if (!sameAddress(principal.address, position.owner)) {
+      return sendError(res, 403, 'FORBIDDEN', 'Only the position owner can do this');
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Error authorizing position access', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to authorize request');
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Request validation middleware
+ */
+import type { NextFunction, Request, Response } from 'express';
+import type { ZodIssue, ZodTypeAny } from 'zod';
+import { sendError } from '../errors';
+
+export interface RequestSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+type Location = keyof RequestSchemas;
+
+const LOCATIONS: Location[] = ['params', 'query', 'body'];
+
+function formatIssue(location: Location, issue: ZodIssue) {
+  return {
+    location,
+    field: issue.path.join('.'),
+    code: issue.code,
+    message: issue.message,
+  };
+}
+
+/**
+ * Validate params, query and body against zod schemas
+ * Parsed values (with defaults and transforms applied) replace the raw ones,
+ * so handlers can cast them to the schema's output type.
+ */
+export function validate(schemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues: ReturnType<typeof formatIssue>[] = [];
+    const parsed: Partial<Record<Location, unknown>> = {};
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        issues.push(...result.error.issues.map((issue) => formatIssue(location, issue)));
+      }
+    }
+
+    if (issues.length > 0) {
+      return sendError(res, 400, 'VALIDATION_FAILED', 'Request validation failed', issues);
+    }
+
+    if ('body' in parsed) {
+      req.body = parsed.body;
+    }
+    // Parsed values overwrite the raw strings in place (req.query is a getter from Express 5 on)
+    if ('query' in parsed) {
+      Object.assign(req.query, parsed.query);
+    }
+    if ('params' in parsed) {
+      Object.assign(req.params, parsed.params);
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Cursor pagination helpers
+ */
+
+/**
+ * Prisma arguments for one page: fetch one extra row to tell whether
+ * another page follows, starting after the cursor row
+ */
+export function pageArgs(limit: number, cursor?: bigint) {
+  return {
+    take: limit + 1,
+    ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+  };
+}
+
+/**
+ * Trim the extra row and derive the next cursor
+ */
+export function toPage<T extends { id: bigint }>(rows: T[], limit: number) {
+  const items = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? items[items.length - 1].id.toString() : null;
+  return { items, nextCursor };
+}
@@ -0,0 +1,66 @@
+/**
+ * Auth API Routes
+ */
+import { Router } from 'express';
+import * as authController from '../controllers/authController';
+import { validate } from '../middleware/validate';
+import { authenticate, requireRole } from '../middleware/auth';
+import { apiKeyParams, createApiKeyBody, signInBody } from '../schemas/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/auth/nonce
+ * @desc    Get a single-use nonce for a SIWE message
+ */
+router.get('/nonce', authController.getNonce);
+
+/**
+ * @route   POST /api/auth/verify
+ * @desc    Sign in with a signed SIWE (EIP-4361) message, returns a JWT
+ * @body    message, signature
+ */
+router.post('/verify', validate({ body: signInBody }), authController.signIn);
+
+/**
+ * @route   GET /api/auth/me
+ * @desc    Get the authenticated address and role
+ * @access  Authenticated
+ */
+router.get('/me', authenticate, authController.getMe);
+
+/**
+ * @route   POST /api/auth/api-keys
+ * @desc    Create an API key for a machine client
+ * @body    name, role, address
+ * @access  Admin
+ */
+router.post(
+  '/api-keys',
+  authenticate,
+  requireRole('ADMIN'),
+  validate({ body: createApiKeyBody }),
+  authController.createApiKey
+);
+
+/**
+ * @route   GET /api/auth/api-keys
+ * @desc    List API keys
+ * @access  Admin
+ */
+router.get('/api-keys', authenticate, requireRole('ADMIN'), authController.listApiKeys);
+
+/**
+ * @route   DELETE /api/auth/api-keys/:id
+ * @desc    Revoke an API key
+ * @access  Admin
+ */
+router.delete(
+  '/api-keys/:id',
+  authenticate,
+  requireRole('ADMIN'),
+  validate({ params: apiKeyParams }),
+  authController.revokeApiKey
+);
+
+export default router;
@@ -0,0 +1,67 @@
+/**
+ * Channel API Routes
+ */
+import { Router } from 'express';
+import * as channelController from '../controllers/channelController';
+import { validate } from '../middleware/validate';
+import {
+  channelParams,
+  listChannelsQuery,
+  stateDiffQuery,
+  stateHistoryQuery,
+} from '../schemas/channels';
+
+const router = Router();
+
+/**
+ * @route   GET /api/channels
+ * @desc    List channels
+ * @query   dealId, intent, clearNodeStatus, participant, sort, order, limit, offset
+ */
+router.get('/', validate({ query: listChannelsQuery }), channelController.listChannels);
+
+/**
+ * @route   GET /api/channels/status
+ * @desc    Get ClearNode connection status
+ */
+router.get('/status', channelController.getConnectionStatus);
+
+/**
+ * @route   GET /api/channels/:channelId
+ * @desc    Get channel with its deal and latest state versions
+ */
+router.get('/:channelId', validate({ params: channelParams }), channelController.getChannel);
+
+/**
+ * @route   GET /api/channels/:channelId/history
+ * @desc    Get state history, newest first, each version diffed against the previous
+ * @query   limit, offset
+ */
+router.get(
+  '/:channelId/history',
+  validate({ params: channelParams, query: stateHistoryQuery }),
+  channelController.getStateHistory
+);
+
+/**
+ * @route   GET /api/channels/:channelId/diff
+ * @desc    Diff two state versions
+ * @query   from, to
+ */
+router.get(
+  '/:channelId/diff',
+  validate({ params: channelParams, query: stateDiffQuery }),
+  channelController.getStateDiff
+);
+
+/**
+ * @route   GET /api/channels/:channelId/balances
+ * @desc    Get live ledger balances of the channel's app session from ClearNode
+ */
+router.get(
+  '/:channelId/balances',
+  validate({ params: channelParams }),
+  channelController.getLedgerBalances
+);
+
+export default router;
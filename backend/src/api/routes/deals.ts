@@ -3,45 +3,98 @@
  */
 import { Router } from 'express';
 import * as dealController from '../controllers/dealController';
+import { validate } from '../middleware/validate';
+import { authenticate, requireDealer, requireRole } from '../middleware/auth';
+import { idParams } from '../schemas/common';
+import { channelSignatureBody, createDealBody, listDealsQuery } from '../schemas/deals';
 
 const router = Router();
 
 /**
  * @route   GET /api/deals
- * @desc    List all deals
- * @query   status, limit, offset
+ * @desc    List deals (cursor-paginated)
+ * @query   status, dealer, depositToken, targetChainId, createdFrom, createdTo,
+ *          expiresFrom, expiresTo, minTotalDeposited, maxTotalDeposited,
+ *          sort, order, include, limit, cursor
  */
-router.get('/', dealController.listDeals);
+router.get('/', validate({ query: listDealsQuery }), dealController.listDeals);
 
 /**
  * @route   GET /api/deals/:id
  * @desc    Get deal by ID
  */
-router.get('/:id', dealController.getDeal);
+router.get('/:id', validate({ params: idParams }), dealController.getDeal);
 
 /**
  * @route   POST /api/deals
  * @desc    Create new deal
- * @body    depositToken, targetToken, targetChainId, expectedYield, dealer
+ * @body    depositToken, targetToken, targetChainId, minDeposit, maxDeposit, duration, expectedYield, dealer
+ * @access  Dealer (as `dealer`) or admin
  */
-router.post('/', dealController.createDeal);
+router.post(
+  '/',
+  authenticate,
+  requireRole('ADMIN', 'DEALER'),
+  validate({ body: createDealBody }),
+  dealController.createDeal
+);
 
 /**
  * @route   POST /api/deals/:id/lock
  * @desc    Lock deal (start channel)
+ * @access  Deal dealer or admin
  */
-router.post('/:id/lock', dealController.lockDeal);
+router.post(
+  '/:id/lock',
+  authenticate,
+  validate({ params: idParams }),
+  requireDealer,
+  dealController.lockDeal
+);
 
 /**
  * @route   POST /api/deals/:id/settle
- * @desc    Settle deal
+ * @desc    Settle deal (price and splits computed server-side)
+ * @access  Deal dealer or admin
  */
-router.post('/:id/settle', dealController.settleDeal);
+router.post(
+  '/:id/settle',
+  authenticate,
+  validate({ params: idParams }),
+  requireDealer,
+  dealController.settleDeal
+);
+
+/**
+ * @route   POST /api/deals/:id/channel/signatures
+ * @desc    Countersign a channel state version (dealer signature over its stateHash)
+ * @body    version, signature
+ * @access  Deal dealer or admin
+ */
+router.post(
+  '/:id/channel/signatures',
+  authenticate,
+  validate({ params: idParams, body: channelSignatureBody }),
+  requireDealer,
+  dealController.signChannelState
+);
 
 /**
  * @route   GET /api/deals/:id/positions
  * @desc    Get all positions for a deal
  */
-router.get('/:id/positions', dealController.getDealPositions);
+router.get('/:id/positions', validate({ params: idParams }), dealController.getDealPositions);
+
+/**
+ * @route   GET /api/deals/:id/payouts
+ * @desc    Get per-position payouts after settlement
+ */
+router.get('/:id/payouts', validate({ params: idParams }), dealController.getDealPayouts);
+
+/**
+ * @route   GET /api/deals/:id/transitions
+ * @desc    Get deal status transition history
+ */
+router.get('/:id/transitions', validate({ params: idParams }), dealController.getDealTransitions);
 
 export default router;
@@ -3,32 +3,38 @@
  */
 import { Router } from 'express';
 import * as positionController from '../controllers/positionController';
+import { validate } from '../middleware/validate';
+import { authenticate, requirePositionOwner } from '../middleware/auth';
+import { idParams } from '../schemas/common';
+import { listPositionsQuery, withdrawPositionBody } from '../schemas/positions';
 
 const router = Router();
 
 /**
  * @route   GET /api/positions
- * @desc    List all positions
- * @query   owner, dealId, limit, offset
+ * @desc    List positions (cursor-paginated)
+ * @query   owner, dealId, chainId, claimed, createdFrom, createdTo,
+ *          minDepositAmount, maxDepositAmount, sort, order, include, limit, cursor
  */
-router.get('/', positionController.listPositions);
+router.get('/', validate({ query: listPositionsQuery }), positionController.listPositions);
 
 /**
  * @route   GET /api/positions/:id
  * @desc    Get position by ID
  */
-router.get('/:id', positionController.getPosition);
-
-/**
- * @route   POST /api/positions
- * @desc    Create new position (deposit)
- */
-router.post('/', positionController.createPosition);
+router.get('/:id', validate({ params: idParams }), positionController.getPosition);
 
 /**
  * @route   POST /api/positions/:id/withdraw
- * @desc    Withdraw from position
+ * @desc    Withdraw a settled position's payout
+ * @access  Position owner
  */
-router.post('/:id/withdraw', positionController.withdrawPosition);
+router.post(
+  '/:id/withdraw',
+  authenticate,
+  validate({ params: idParams, body: withdrawPositionBody }),
+  requirePositionOwner,
+  positionController.withdrawPosition
+);
 
 export default router;
@@ -3,6 +3,8 @@
  */
 import { Router } from 'express';
 import * as priceController from '../controllers/priceController';
+import { validate } from '../middleware/validate';
+import { priceHistoryQuery, symbolParams } from '../schemas/prices';
 
 const router = Router();
 
@@ -10,12 +12,17 @@ const router = Router();
  * @route   GET /api/prices/:symbol
  * @desc    Get current price for token symbol
  */
-router.get('/:symbol', priceController.getPrice);
+router.get('/:symbol', validate({ params: symbolParams }), priceController.getPrice);
 
 /**
  * @route   GET /api/prices/:symbol/history
  * @desc    Get price history
+ * @query   limit, offset
  */
-router.get('/:symbol/history', priceController.getPriceHistory);
+router.get(
+  '/:symbol/history',
+  validate({ params: symbolParams, query: priceHistoryQuery }),
+  priceController.getPriceHistory
+);
 
 export default router;
@@ -0,0 +1,33 @@
+/**
+ * Ledger Reconciliation API Routes
+ */
+import { Router } from 'express';
+import * as reconciliationController from '../controllers/reconciliationController';
+import { validate } from '../middleware/validate';
+import { authenticate, requireRole } from '../middleware/auth';
+import { reconciliationReportQuery } from '../schemas/reconciliation';
+
+const router = Router();
+
+/**
+ * @route   GET /api/reconciliation/report
+ * @desc    Get ledger discrepancies between ChannelState, ClearNode and YellowChannel
+ * @query   status, severity, source, kind, channelId, dealId, limit, offset
+ * @access  Admin
+ */
+router.get(
+  '/report',
+  authenticate,
+  requireRole('ADMIN'),
+  validate({ query: reconciliationReportQuery }),
+  reconciliationController.getReport
+);
+
+/**
+ * @route   POST /api/reconciliation/run
+ * @desc    Run a reconciliation pass now
+ * @access  Admin
+ */
+router.post('/run', authenticate, requireRole('ADMIN'), reconciliationController.runReconciliation);
+
+export default router;
@@ -0,0 +1,20 @@
+/**
+ * Stream API Routes
+ */
+import { Router } from 'express';
+import * as streamController from '../controllers/streamController';
+import { validate } from '../middleware/validate';
+import { requireStreamOwner } from '../middleware/auth';
+import { streamQuery } from '../schemas/stream';
+
+const router = Router();
+
+/**
+ * @route   GET /api/stream
+ * @desc    Server-Sent Events for deal status, channel state and price updates
+ * @query   topics (deal:{id}, owner:{address}, price:{symbol}), lastEventId, token
+ * @access  Public; owner topics need that address's token or an admin
+ */
+router.get('/', validate({ query: streamQuery }), requireStreamOwner, streamController.subscribe);
+
+export default router;
@@ -0,0 +1,17 @@
+/**
+ * Transaction Queue API Routes
+ */
+import { Router } from 'express';
+import * as transactionController from '../controllers/transactionController';
+import { validate } from '../middleware/validate';
+import { transactionParams } from '../schemas/transactions';
+
+const router = Router();
+
+/**
+ * @route   GET /api/transactions/:id
+ * @desc    Get queued transaction status by job ID
+ */
+router.get('/:id', validate({ params: transactionParams }), transactionController.getTransaction);
+
+export default router;
@@ -0,0 +1,30 @@
+/**
+ * Auth request schemas
+ */
+import { z } from 'zod';
+import { Role } from '@prisma/client';
+import { address } from './common';
+
+export const signInBody = z.object({
+  message: z.string().min(1).max(4096),
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/, 'Invalid signature'),
+});
+
+export const createApiKeyBody = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    role: z.nativeEnum(Role),
+    address: address.optional(),
+  })
+  .refine((body) => body.role === 'ADMIN' || body.address, {
+    message: 'DEALER and LP keys need an address',
+    path: ['address'],
+  });
+
+export const apiKeyParams = z.object({
+  id: z.string().cuid('Invalid API key ID'),
+});
+
+export type SignInBody = z.infer<typeof signInBody>;
+export type CreateApiKeyBody = z.infer<typeof createApiKeyBody>;
+export type ApiKeyParams = z.infer<typeof apiKeyParams>;
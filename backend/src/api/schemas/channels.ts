@@ -0,0 +1,38 @@
+/**
+ * Channel request schemas
+ */
+import { z } from 'zod';
+import { StateIntent } from '@prisma/client';
+import { address, csv, id, pagination, sortOrder, uint } from './common';
+
+export const CHANNEL_SORT_FIELDS = ['updatedAt', 'createdAt', 'version'] as const;
+
+const version = uint.transform((value) => BigInt(value));
+
+export const channelParams = z.object({
+  channelId: z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Invalid channel ID'),
+});
+
+export const listChannelsQuery = z.object({
+  dealId: id.optional(),
+  intent: csv(Object.values(StateIntent) as [StateIntent, ...StateIntent[]]).optional(),
+  clearNodeStatus: csv(['open', 'closed', 'settling']).optional(),
+  participant: address.optional(),
+  sort: z.enum(CHANNEL_SORT_FIELDS).default('updatedAt'),
+  order: sortOrder,
+  ...pagination(50),
+});
+
+export const stateHistoryQuery = z.object({
+  ...pagination(20),
+});
+
+export const stateDiffQuery = z.object({
+  from: version,
+  to: version,
+});
+
+export type ChannelParams = z.infer<typeof channelParams>;
+export type ListChannelsQuery = z.infer<typeof listChannelsQuery>;
+export type StateHistoryQuery = z.infer<typeof stateHistoryQuery>;
+export type StateDiffQuery = z.infer<typeof stateDiffQuery>;
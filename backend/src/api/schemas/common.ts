@@ -0,0 +1,120 @@
+/**
+ * Shared request schema primitives
+ */
+import { z } from 'zod';
+import { getAddress, isAddress } from 'viem';
+import { isSupportedChain, SUPPORTED_CHAIN_IDS } from '../../config/chains';
+
+const UINT_PATTERN = /^\d+$/;
+
+/**
+ * EVM address; mixed-case input must carry a valid EIP-55 checksum.
+ * Output is checksummed.
+ */
+export const address = z
+  .string()
+  .refine((value) => isAddress(value, { strict: true }), 'Invalid address or checksum')
+  .transform((value) => getAddress(value));
+
+/**
+ * 65-byte ECDSA signature, hex encoded
+ */
+export const signature = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{130}$/, 'Invalid signature')
+  .transform((value) => value as `0x${string}`);
+
+/**
+ * Non-negative integer given as a decimal string or safe integer.
+ * Output is a canonical decimal string (token amounts in base units).
+ */
+export const uint = z
+  .union([z.string(), z.number()])
+  .refine(
+    (value) => (typeof value === 'number' ? Number.isSafeInteger(value) && value >= 0 : UINT_PATTERN.test(value)),
+    'Must be a non-negative integer'
+  )
+  .transform((value) => BigInt(value).toString());
+
+/**
+ * Positive token amount in base units
+ */
+export const amount = uint.refine((value) => value !== '0', 'Must be greater than zero');
+
+/**
+ * Numeric database ID (deal, position)
+ */
+export const id = uint.transform((value) => BigInt(value));
+
+/**
+ * Chain ID of a supported chain
+ */
+export const chainId = uint
+  .transform((value) => Number(value))
+  .refine(isSupportedChain, `Unsupported chain ID (expected one of ${SUPPORTED_CHAIN_IDS.join(', ')})`)
+  .transform((value) => BigInt(value));
+
+/**
+ * Basis points (0-10000)
+ */
+export const bps = z.coerce.number().int().min(0).max(10_000);
+
+/**
+ * Token symbol, uppercased
+ */
+export const symbol = z
+  .string()
+  .regex(/^[A-Za-z0-9]{1,16}$/, 'Invalid token symbol')
+  .transform((value) => value.toUpperCase());
+
+/**
+ * Comma-separated list of allowed values, e.g. "CREATED,LOCKED"
+ * Also accepts a repeated query parameter (?status=A&status=B).
+ */
+export function csv<T extends [string, ...string[]]>(values: T) {
+  return z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) =>
+      (Array.isArray(value) ? value : [value])
+        .flatMap((item) => item.split(','))
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(z.enum(values)).min(1));
+}
+
+/**
+ * ISO 8601 date or datetime
+ */
+export const date = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/, 'Invalid ISO 8601 date')
+  .transform((value) => new Date(value))
+  .refine((value) => !Number.isNaN(value.getTime()), 'Invalid ISO 8601 date');
+
+export const sortOrder = z.enum(['asc', 'desc']).default('desc');
+
+/**
+ * Cursor pagination query parameters
+ * The cursor is the ID of the last item of the previous page (`nextCursor`).
+ */
+export function cursorPagination(defaultLimit: number) {
+  return {
+    limit: z.coerce.number().int().min(1).max(500).default(defaultLimit),
+    cursor: id.optional(),
+  };
+}
+
+/**
+ * Offset pagination query parameters
+ */
+export function pagination(defaultLimit: number) {
+  return {
+    limit: z.coerce.number().int().min(1).max(500).default(defaultLimit),
+    offset: z.coerce.number().int().min(0).default(0),
+  };
+}
+
+export const idParams = z.object({ id });
+
+export type IdParams = z.infer<typeof idParams>;
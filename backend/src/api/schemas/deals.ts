@@ -0,0 +1,61 @@
+/**
+ * Deal request schemas
+ */
+import { z } from 'zod';
+import { DealStatus } from '@prisma/client';
+import {
+  address,
+  amount,
+  bps,
+  chainId,
+  csv,
+  cursorPagination,
+  date,
+  signature,
+  sortOrder,
+  uint,
+} from './common';
+
+export const DEAL_SORT_FIELDS = ['createdAt', 'expiryTimestamp', 'totalDeposited', 'id'] as const;
+
+export const listDealsQuery = z.object({
+  status: csv(Object.values(DealStatus) as [DealStatus, ...DealStatus[]]).optional(),
+  dealer: address.optional(),
+  depositToken: address.optional(),
+  targetChainId: chainId.optional(),
+  createdFrom: date.optional(),
+  createdTo: date.optional(),
+  expiresFrom: date.optional(),
+  expiresTo: date.optional(),
+  minTotalDeposited: uint.optional(),
+  maxTotalDeposited: uint.optional(),
+  sort: z.enum(DEAL_SORT_FIELDS).default('createdAt'),
+  order: sortOrder,
+  include: csv(['positions', 'channelState']).optional(),
+  ...cursorPagination(50),
+});
+
+export const createDealBody = z
+  .object({
+    depositToken: address,
+    targetToken: address,
+    targetChainId: chainId,
+    minDeposit: amount.default('100000000'),
+    maxDeposit: amount.default('10000000000'),
+    duration: z.coerce.number().int().positive().default(604800), // seconds
+    expectedYield: bps.default(500),
+    dealer: address,
+  })
+  .refine((body) => BigInt(body.minDeposit) <= BigInt(body.maxDeposit), {
+    message: 'minDeposit must not exceed maxDeposit',
+    path: ['minDeposit'],
+  });
+
+export const channelSignatureBody = z.object({
+  version: uint.transform((value) => BigInt(value)),
+  signature,
+});
+
+export type ListDealsQuery = z.infer<typeof listDealsQuery>;
+export type CreateDealBody = z.infer<typeof createDealBody>;
+export type ChannelSignatureBody = z.infer<typeof channelSignatureBody>;
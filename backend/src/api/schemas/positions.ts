@@ -0,0 +1,36 @@
+/**
+ * Position request schemas
+ */
+import { z } from 'zod';
+import {
+  address,
+  chainId,
+  csv,
+  cursorPagination,
+  date,
+  id,
+  sortOrder,
+  uint,
+} from './common';
+
+export const POSITION_SORT_FIELDS = ['createdAt', 'depositAmount', 'id'] as const;
+
+export const listPositionsQuery = z.object({
+  owner: address.optional(),
+  dealId: id.optional(),
+  chainId: chainId.optional(),
+  claimed: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  createdFrom: date.optional(),
+  createdTo: date.optional(),
+  minDepositAmount: uint.optional(),
+  maxDepositAmount: uint.optional(),
+  sort: z.enum(POSITION_SORT_FIELDS).default('createdAt'),
+  order: sortOrder,
+  include: csv(['deal', 'remoteDeposit']).optional(),
+  ...cursorPagination(50),
+});
+
+// The payout is the claimAmount computed at settlement; nothing is accepted
+export const withdrawPositionBody = z.object({}).strict();
+
+export type ListPositionsQuery = z.infer<typeof listPositionsQuery>;
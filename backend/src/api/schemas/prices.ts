@@ -0,0 +1,14 @@
+/**
+ * Price request schemas
+ */
+import { z } from 'zod';
+import { pagination, symbol } from './common';
+
+export const symbolParams = z.object({ symbol });
+
+export const priceHistoryQuery = z.object({
+  ...pagination(100),
+});
+
+export type SymbolParams = z.infer<typeof symbolParams>;
+export type PriceHistoryQuery = z.infer<typeof priceHistoryQuery>;
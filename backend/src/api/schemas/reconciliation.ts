@@ -0,0 +1,24 @@
+/**
+ * Ledger reconciliation request schemas
+ */
+import { z } from 'zod';
+import {
+  DiscrepancyKind,
+  DiscrepancySeverity,
+  DiscrepancySource,
+  DiscrepancyStatus,
+} from '@prisma/client';
+import { csv, id, pagination } from './common';
+import { channelParams } from './channels';
+
+export const reconciliationReportQuery = z.object({
+  status: csv(Object.values(DiscrepancyStatus) as [DiscrepancyStatus, ...DiscrepancyStatus[]]).default('OPEN'),
+  severity: csv(Object.values(DiscrepancySeverity) as [DiscrepancySeverity, ...DiscrepancySeverity[]]).optional(),
+  source: csv(Object.values(DiscrepancySource) as [DiscrepancySource, ...DiscrepancySource[]]).optional(),
+  kind: csv(Object.values(DiscrepancyKind) as [DiscrepancyKind, ...DiscrepancyKind[]]).optional(),
+  channelId: channelParams.shape.channelId.optional(),
+  dealId: id.optional(),
+  ...pagination(100),
+});
+
+export type ReconciliationReportQuery = z.infer<typeof reconciliationReportQuery>;
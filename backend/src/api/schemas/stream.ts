@@ -0,0 +1,48 @@
+/**
+ * Stream request schemas
+ */
+import { z } from 'zod';
+import { address, id, symbol, uint } from './common';
+import { topics as streamTopics } from '../../services/stream/EventStreamService';
+
+const MAX_TOPICS = 50;
+
+/**
+ * Subscription topic: deal:{id}, owner:{address} or price:{symbol}.
+ * Output is the canonical topic name.
+ */
+const topic = z.string().transform((value, ctx) => {
+  const [kind, key = '', ...rest] = value.trim().split(':');
+  const parsers = {
+    deal: () => id.safeParse(key),
+    owner: () => address.safeParse(key),
+    price: () => symbol.safeParse(key),
+  };
+
+  const parsed = rest.length === 0 && kind in parsers
+    ? parsers[kind as keyof typeof parsers]()
+    : null;
+
+  if (!parsed?.success) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Invalid topic "${value}" (expected deal:{id}, owner:{address} or price:{symbol})`,
+    });
+    return z.NEVER;
+  }
+
+  return streamTopics[kind as keyof typeof parsers](parsed.data as never);
+});
+
+export const streamQuery = z.object({
+  topics: z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) => (Array.isArray(value) ? value : [value]).flatMap((item) => item.split(',')))
+    .pipe(z.array(topic).min(1).max(MAX_TOPICS)),
+  // Alternative to the Last-Event-ID header, for clients that cannot set it
+  lastEventId: uint.transform((value) => BigInt(value)).optional(),
+  // Session token for owner topics, for clients that cannot set the Authorization header
+  token: z.string().min(1).optional(),
+});
+
+export type StreamQuery = z.infer<typeof streamQuery>;
@@ -0,0 +1,10 @@
+/**
+ * Transaction queue request schemas
+ */
+import { z } from 'zod';
+
+export const transactionParams = z.object({
+  id: z.string().cuid('Invalid transaction job ID'),
+});
+
+export type TransactionParams = z.infer<typeof transactionParams>;
@@ -53,3 +53,15 @@ export function isHubChain(chainId: number): boolean {
 export function isRemoteChain(chainId: number): boolean {
   return REMOTE_CHAINS.some((chain) => chain.id === chainId);
 }
+
+// Chain IDs accepted by the API: the chains above plus the testnets
+// deployed to (see getContractsByChain)
+export const SUPPORTED_CHAIN_IDS = [
+  ...Object.values(CHAINS).map((chain) => chain.id),
+  114, // Flare Coston2
+  84532, // Base Sepolia
+];
+
+export function isSupportedChain(chainId: number): boolean {
+  return SUPPORTED_CHAIN_IDS.includes(chainId);
+}
@@ -14,13 +14,21 @@ export const CLEARNODE_CONFIG = {
   // Authentication scope
   scope: 'console',
   
-  // Session expiration (1 hour by default)
+  // Session key expiration (1 hour by default)
   sessionExpiration: 3600,
   
-  // Reconnection settings
-  maxReconnectAttempts: 5,
+  // Rotate to a new session key this many seconds before expiry
+  sessionRotationMargin: 300,
+  
+  // Reconnection settings (retried indefinitely, with jitter)
   reconnectInterval: 3000, // Initial delay in ms
   reconnectBackoffMultiplier: 2,
+  maxReconnectDelay: 60000, // Backoff cap
+  
+  // Circuit breaker: after this many failed connection attempts in a row,
+  // requests fail fast and reconnects pause for the cooldown
+  circuitBreakerThreshold: 5,
+  circuitBreakerCooldown: 300000, // 5 minutes
   
   // Request timeout
   requestTimeout: 30000, // 30 seconds
@@ -38,6 +46,11 @@ export const CLEARNODE_CONFIG = {
 // Protocol constants
 export const PROTOCOL_CONSTANTS = {
   protocol: 'nitroliterpc',
-  defaultQuorum: 100,
+  // Asset identifier for app session allocations
+  asset: 'usdc',
+  // App session weights: the dealer holds dealerWeight and LPs share the
+  // rest by deposit, so quorum needs the dealer plus a deposit majority
+  totalWeight: 10_000,
+  dealerWeight: 5_000,
   defaultChallenge: 0,
 } as const;
@@ -44,12 +44,194 @@ export const BASE_CONTRACTS: ContractAddresses = {
   remotePosition: process.env.BASE_POSITION_ADDRESS || '',
 };
 
+/**
+ * Parse an environment variable of comma-separated key:value pairs
+ * Entries are trimmed and checked, so a malformed one fails at startup
+ * naming the variable instead of surfacing later as a bad lookup.
+ */
+function parsePairs(
+  name: string,
+  format: string,
+  isKey: (key: string) => boolean,
+  isValue: (value: string) => boolean
+): [string, string][] {
+  return (process.env[name] || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const parts = entry.split(':').map((part) => part.trim());
+
+      if (parts.length !== 2 || !isKey(parts[0]) || !isValue(parts[1])) {
+        throw new Error(`Invalid ${name} entry "${entry}" (expected ${format})`);
+      }
+
+      return parts as [string, string];
+    });
+}
+
+// Same as the API's token symbol
+const isSymbol = (value: string) => /^[A-Za-z0-9]{1,16}$/.test(value);
+
+// FTSO interface: the legacy symbol-based FtsoRegistry or FTSOv2 feed IDs
+export type FtsoInterface = 'registry' | 'v2';
+
 // FTSO Configuration
 export const FTSO_CONFIG = {
   registryAddress: process.env.FTSO_REGISTRY_ADDRESS || '0xaD67FE66660Fb8dFE9d6b1b4240d8650e30F6019',
+  // FtsoV2; looked up by name in the Flare contract registry when unset
+  v2Address: process.env.FTSO_V2_ADDRESS || '',
+  contractRegistryAddress: '0xaD67FE66660Fb8dFE9d6b1b4240d8650e30F6019', // Same on every Flare network
+  // Chain ID -> interface, e.g. "14:v2,114:v2"; networks not listed use the registry
+  interfaces: Object.fromEntries(
+    parsePairs(
+      'FTSO_INTERFACES',
+      '{chainId}:registry or {chainId}:v2',
+      (chainId) => /^\d+$/.test(chainId),
+      (ftsoInterface) => ftsoInterface === 'registry' || ftsoInterface === 'v2'
+    ).map(([chainId, ftsoInterface]) => [Number(chainId), ftsoInterface])
+  ) as Record<number, FtsoInterface>,
+  // Symbol -> bytes21 FTSOv2 feed ID; FTSO_FEED_IDS adds or overrides, e.g. "WBTC:0x01..."
+  feedIds: {
+    FLR: '0x01464c522f55534400000000000000000000000000',
+    SGB: '0x015347422f55534400000000000000000000000000',
+    BTC: '0x014254432f55534400000000000000000000000000',
+    ETH: '0x014554482f55534400000000000000000000000000',
+    XRP: '0x015852502f55534400000000000000000000000000',
+    USDC: '0x01555344432f555344000000000000000000000000',
+    USDT: '0x01555344542f555344000000000000000000000000',
+    ...Object.fromEntries(
+      parsePairs(
+        'FTSO_FEED_IDS',
+        '{symbol}:{bytes21 feed ID}',
+        isSymbol,
+        (feedId) => /^0x[0-9a-fA-F]{42}$/.test(feedId)
+      ).map(([symbol, feedId]) => [symbol.toUpperCase(), feedId.toLowerCase()])
+    ),
+  } as Record<string, string>,
+};
+
+// Price aggregation configuration
+export const PRICE_CONFIG = {
+  // Sources read each round: ftso, priceReader, feed
+  sources: (process.env.PRICE_SOURCES || 'ftso')
+    .split(',')
+    .map((source) => source.trim())
+    .filter(Boolean),
+  // Symbols fetched and stored each round
+  symbols: (process.env.PRICE_SYMBOLS || 'BTC,ETH,FLR')
+    .split(',')
+    .map((symbol) => symbol.trim().toUpperCase())
+    .filter(Boolean),
+  // JSON price feed: http(s) URL or file path, e.g. { "BTC": { "price": "50000.5", "timestamp": 1732300000 } }
+  feedUrl: process.env.PRICE_FEED_URL || '',
+  maxAge: Number(process.env.PRICE_MAX_AGE || 300), // Seconds before a reading is stale
+  maxFutureSkew: 30, // Seconds a reading may be ahead of our clock
+  maxDeviationBps: BigInt(process.env.PRICE_MAX_DEVIATION_BPS || '200'), // From the median, else an outlier
+  minSources: Number(process.env.PRICE_MIN_SOURCES || 1), // Readings needed after rejections
+  sourceTimeout: 10_000, // Per source read
   updateInterval: 90_000, // 90 seconds
 };
 
+// Settlement configuration
+export const SETTLEMENT_CONFIG = {
+  protocolFeeBps: BigInt(process.env.PROTOCOL_FEE_BPS || '100'), // Matches DealVault.protocolFeeBps
+  maxPriceAge: 3600, // Max age (seconds) of the price used at expiry
+  // Token address -> FTSO symbol, e.g. "0xabc...:BTC,0xdef...:ETH"
+  tokenSymbols: Object.fromEntries(
+    parsePairs(
+      'TOKEN_SYMBOLS',
+      '{token address}:{symbol}',
+      (address) => /^0x[0-9a-fA-F]{40}$/.test(address),
+      isSymbol
+    ).map(([address, symbol]) => [address.toLowerCase(), symbol.toUpperCase()])
+  ) as Record<string, string>,
+};
+
+// Deal lifecycle scheduler configuration
+export const SCHEDULER_CONFIG = {
+  // Lock once totalDeposited reaches this amount (deposit token base units); unset disables
+  lockFillAmount: process.env.SCHEDULER_LOCK_FILL_AMOUNT
+    ? BigInt(process.env.SCHEDULER_LOCK_FILL_AMOUNT)
+    : null,
+  // Lock this many seconds after creation if the deal has deposits
+  lockDeadline: Number(process.env.SCHEDULER_LOCK_DEADLINE || 86400),
+  settlementLease: 300_000, // Retry a SETTLING deal untouched for 5 minutes
+  pollInterval: 30_000, // 30 seconds
+};
+
+// Deal execution mode: 'onchain' sends createDeal to DealVault,
+// 'simulation' stores deals with generated IDs and no transaction
+export type DealExecutionMode = 'onchain' | 'simulation';
+
+export const DEAL_EXECUTION_MODE: DealExecutionMode =
+  process.env.DEAL_EXECUTION_MODE === 'onchain' ? 'onchain' : 'simulation';
+
+// DealVault event indexer configuration
+export const INDEXER_CONFIG = {
+  startBlock: BigInt(process.env.INDEXER_START_BLOCK || '0'),
+  confirmations: BigInt(process.env.INDEXER_CONFIRMATIONS || '12'),
+  reorgDepth: BigInt(process.env.INDEXER_REORG_DEPTH || '64'), // Blocks re-checked for reorgs each pass
+  batchSize: BigInt(process.env.INDEXER_BATCH_SIZE || '2000'), // Max blocks per getLogs
+  pollInterval: 15_000, // 15 seconds
+};
+
+// Channel watchtower configuration
+export const WATCHTOWER_CONFIG = {
+  startBlock: BigInt(process.env.WATCHTOWER_START_BLOCK || process.env.INDEXER_START_BLOCK || '0'),
+  // Disputes are time-critical, so fewer confirmations than the indexer
+  confirmations: BigInt(process.env.WATCHTOWER_CONFIRMATIONS || '2'),
+  batchSize: BigInt(process.env.WATCHTOWER_BATCH_SIZE || '2000'), // Max blocks per getLogs
+  pollInterval: 30_000, // 30 seconds
+  responsePriority: 100, // Ahead of other queued transactions
+  alertWebhook: process.env.WATCHTOWER_ALERT_WEBHOOK || '', // POSTed JSON when a dispute cannot be answered
+};
+
+// Ledger reconciliation configuration
+export const RECONCILIATION_CONFIG = {
+  pollInterval: Number(process.env.RECONCILIATION_INTERVAL || 300) * 1000, // Seconds between passes
+  // Discrepancies at or above this severity are alerted once when first seen
+  alertSeverity: (process.env.RECONCILIATION_ALERT_SEVERITY || 'CRITICAL').toUpperCase(),
+  alertWebhook: process.env.RECONCILIATION_ALERT_WEBHOOK || process.env.WATCHTOWER_ALERT_WEBHOOK || '',
+};
+
+// Transaction queue worker configuration
+export const TX_QUEUE_CONFIG = {
+  pollInterval: 5_000, // 5 seconds
+  claimLease: 60_000, // A claimed job not signed and saved within a minute goes back to the queue
+  stuckTimeout: 90_000, // Bump gas if not mined after 90 seconds
+  gasBumpPercent: 15n, // Nodes require at least 10% to replace
+  maxGasBumps: 5, // Then keep re-broadcasting the last fees and alert
+  retryBackoff: 15_000, // Base delay between retries, doubled per attempt
+};
+
+// Real-time event stream configuration
+export const STREAM_CONFIG = {
+  pollInterval: 1_000, // 1 second
+  retention: 86_400_000, // Events kept for resume for 24 hours
+  cleanupInterval: 3_600_000, // Prune expired events hourly
+  replayBatch: 500,
+  keepAlive: 15_000, // SSE comment sent every 15 seconds
+};
+
+// API authentication configuration
+export const AUTH_CONFIG = {
+  jwtSecret: process.env.JWT_SECRET || '',
+  jwtTtl: Number(process.env.JWT_TTL || 3600), // Seconds a login token is valid
+  nonceTtl: 600, // Seconds a SIWE nonce can be used
+  // Host the frontend serves SIWE messages from
+  siweDomain: process.env.SIWE_DOMAIN || new URL(process.env.CORS_ORIGIN || 'http://localhost:3001').host,
+  // Comma-separated addresses granted the ADMIN / DEALER role on sign-in
+  adminAddresses: (process.env.ADMIN_ADDRESSES || '')
+    .split(',')
+    .map((address) => address.trim().toLowerCase())
+    .filter(Boolean),
+  dealerAddresses: (process.env.DEALER_ADDRESSES || '')
+    .split(',')
+    .map((address) => address.trim().toLowerCase())
+    .filter(Boolean),
+};
+
 // Yellow Network Configuration
 export const YELLOW_CONFIG = {
   wsUrl: process.env.YELLOW_NODE_WS_URL || 'wss://testnet.yellow.org',
@@ -8,14 +8,22 @@ import 'dotenv/config';
   return this.toString();
 };
 
-import express, { type Express } from 'express';
+import express, { type Express, type NextFunction, type Request, type Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import { logger } from './utils/logger';
-import { validateContracts } from './config/contracts';
+import { validateContracts, DEAL_EXECUTION_MODE, AUTH_CONFIG } from './config/contracts';
 import { getPrismaClient, checkDatabaseConnection, disconnectPrisma } from './services/database/prisma';
 import { nitroliteService } from './services/nitrolite/NitroliteService';
-import { ftsoService } from './services/price/FTSOPriceService';
+import { priceAggregator } from './services/price/PriceAggregator';
+import { dealVaultIndexer } from './services/indexer/DealVaultIndexer';
+import { transactionQueue } from './services/blockchain/TransactionQueueService';
+import { dealVaultService } from './services/blockchain/DealVaultService';
+import { dealScheduler } from './services/scheduler/DealScheduler';
+import { eventStreamService } from './services/stream/EventStreamService';
+import { channelWatchtower } from './services/watchtower/ChannelWatchtower';
+import { ledgerReconciliation } from './services/reconciliation/LedgerReconciliation';
+import { sendError } from './api/errors';
 
 const app: Express = express();
 const PORT = process.env.PORT || 3000;
@@ -32,6 +40,11 @@ app.use(express.urlencoded({ extended: true }));
 import dealRoutes from './api/routes/deals';
 import positionRoutes from './api/routes/positions';
 import priceRoutes from './api/routes/prices';
+import transactionRoutes from './api/routes/transactions';
+import authRoutes from './api/routes/auth';
+import streamRoutes from './api/routes/stream';
+import channelRoutes from './api/routes/channels';
+import reconciliationRoutes from './api/routes/reconciliation';
 
 // Health check endpoint
 app.get('/health', async (req, res) => {
@@ -55,6 +68,11 @@ app.get('/', (req, res) => {
       deals: '/api/deals',
       positions: '/api/positions',
       prices: '/api/prices',
+      transactions: '/api/transactions',
+      auth: '/api/auth',
+      stream: '/api/stream',
+      channels: '/api/channels',
+      reconciliation: '/api/reconciliation',
     },
   });
 });
@@ -63,6 +81,26 @@ app.get('/', (req, res) => {
 app.use('/api/deals', dealRoutes);
 app.use('/api/positions', positionRoutes);
 app.use('/api/prices', priceRoutes);
+app.use('/api/transactions', transactionRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/stream', streamRoutes);
+app.use('/api/channels', channelRoutes);
+app.use('/api/reconciliation', reconciliationRoutes);
+
+// Unknown routes
+app.use((req, res) => {
+  sendError(res, 404, 'NOT_FOUND', `Route not found: ${req.method} ${req.path}`);
+});
+
+// Errors raised outside controllers (e.g. malformed JSON bodies)
+app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+  if (error.type === 'entity.parse.failed') {
+    return sendError(res, 400, 'VALIDATION_FAILED', 'Malformed JSON body');
+  }
+
+  logger.error('Unhandled request error', error);
+  sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+});
 
 // Start server
 async function startServer() {
@@ -71,6 +109,10 @@ async function startServer() {
     validateContracts();
     logger.info('Contract addresses validated');
     
+    if (!AUTH_CONFIG.jwtSecret) {
+      logger.warn('JWT_SECRET not set: sign-in is disabled, only API keys work');
+    }
+    
     // Initialize database
     const prisma = getPrismaClient();
     const dbHealthy = await checkDatabaseConnection();
@@ -81,6 +123,12 @@ async function startServer() {
     
     logger.info('Database connected');
     
+    // Deals are sent to DealVault only in on-chain mode
+    if (DEAL_EXECUTION_MODE === 'onchain') {
+      await dealVaultService.initialize();
+    }
+    logger.info(`Deal execution mode: ${DEAL_EXECUTION_MODE}`);
+    
     // Initialize Nitrolite service
     try {
       await nitroliteService.initialize();
@@ -90,9 +138,46 @@ async function startServer() {
       logger.warn('Note: Set CUSTODY_CONTRACT_ADDRESS in .env to enable Nitrolite');
     }
     
-    // Start FTSO price fetching
-    // ftsoService.startPriceFetching(['BTC', 'ETH', 'FLR', 'USDC', 'USDT']);
-    logger.info('FTSO price fetching started');
+    // Start price aggregation
+    if (process.env.PRICE_FETCHING_ENABLED !== 'false') {
+      priceAggregator.start();
+    }
+    
+    // Start DealVault event indexer
+    if (process.env.INDEXER_ENABLED !== 'false') {
+      dealVaultIndexer.start();
+    }
+    
+    // Start deal lifecycle scheduler
+    if (process.env.SCHEDULER_ENABLED !== 'false') {
+      dealScheduler.start();
+    }
+    
+    // Start channel dispute watchtower
+    if (process.env.WATCHTOWER_ENABLED !== 'false') {
+      try {
+        channelWatchtower.start();
+      } catch (error) {
+        logger.warn('Channel watchtower not started', error);
+      }
+    }
+    
+    // Start ledger reconciliation
+    if (process.env.RECONCILIATION_ENABLED !== 'false') {
+      ledgerReconciliation.start();
+    }
+    
+    // Start real-time event stream
+    if (process.env.STREAM_ENABLED !== 'false') {
+      await eventStreamService.start();
+    }
+    
+    // Start transaction queue worker
+    try {
+      transactionQueue.start();
+    } catch (error) {
+      logger.warn('Transaction queue worker not started', error);
+    }
     
     // Start listening
     app.listen(PORT, () => {
@@ -110,14 +195,26 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully...');
-  ftsoService.stopPriceFetching();
+  priceAggregator.stop();
+  dealVaultIndexer.stop();
+  transactionQueue.stop();
+  dealScheduler.stop();
+  eventStreamService.stop();
+  channelWatchtower.stop();
+  ledgerReconciliation.stop();
   await disconnectPrisma();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully...');
-  ftsoService.stopPriceFetching();
+  priceAggregator.stop();
+  dealVaultIndexer.stop();
+  transactionQueue.stop();
+  dealScheduler.stop();
+  eventStreamService.stop();
+  channelWatchtower.stop();
+  ledgerReconciliation.stop();
   await disconnectPrisma();
   process.exit(0);
 });
@@ -0,0 +1,259 @@
+/**
+ * Auth Service
+ * Sign-In with Ethereum (EIP-4361) logins, JWT sessions and API keys
+ */
+import { createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { createPublicClient, getAddress, http, type Address, type Hex } from 'viem';
+import { generateSiweNonce, parseSiweMessage } from 'viem/siwe';
+import type { Role } from '@prisma/client';
+import { createModuleLogger } from '../../utils/logger';
+import { getPrismaClient } from '../database/prisma';
+import { CHAINS, isSupportedChain } from '../../config/chains';
+import { AUTH_CONFIG } from '../../config/contracts';
+
+const logger = createModuleLogger('auth');
+const prisma = getPrismaClient();
+
+const API_KEY_PREFIX = 'lqm_';
+
+/**
+ * Authenticated caller of the API
+ */
+export interface Principal {
+  type: 'siwe' | 'apiKey';
+  role: Role;
+  // Acting address; null only for admin API keys
+  address: Address | null;
+  apiKeyId?: string;
+}
+
+interface TokenClaims {
+  sub: string;
+  role: Role;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public statusCode: number = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Compare two addresses regardless of checksum casing
+ */
+export function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Service for API authentication
+ */
+export class AuthService {
+  // Verifies EOA and smart-account (ERC-1271/6492) signatures
+  private client = createPublicClient({
+    chain: {
+      id: CHAINS.flare.id,
+      name: CHAINS.flare.name,
+      nativeCurrency: CHAINS.flare.nativeCurrency,
+      rpcUrls: { default: { http: [CHAINS.flare.rpcUrl] } },
+    },
+    transport: http(CHAINS.flare.rpcUrl),
+  });
+
+  /**
+   * Role granted to an address signing in
+   */
+  roleFor(address: string): Role {
+    const normalized = address.toLowerCase();
+    if (AUTH_CONFIG.adminAddresses.includes(normalized)) return 'ADMIN';
+    if (AUTH_CONFIG.dealerAddresses.includes(normalized)) return 'DEALER';
+    return 'LP';
+  }
+
+  /**
+   * Issue a single-use SIWE nonce
+   */
+  async createNonce() {
+    const nonce = generateSiweNonce();
+    const expiresAt = new Date(Date.now() + AUTH_CONFIG.nonceTtl * 1000);
+
+    await prisma.authNonce.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    await prisma.authNonce.create({ data: { nonce, expiresAt } });
+
+    return { nonce, expiresAt };
+  }
+
+  /**
+   * Verify a signed SIWE message and start a session
+   */
+  async signIn(message: string, signature: Hex) {
+    const parsed = parseSiweMessage(message);
+
+    if (!parsed.address || !parsed.nonce || !parsed.chainId) {
+      throw new AuthError('Malformed SIWE message', 400);
+    }
+
+    if (!isSupportedChain(parsed.chainId)) {
+      throw new AuthError(`Unsupported chain ID ${parsed.chainId}`, 400);
+    }
+
+    // Consume the nonce first so a message can only be tried once
+    const { count } = await prisma.authNonce.deleteMany({
+      where: { nonce: parsed.nonce, expiresAt: { gte: new Date() } },
+    });
+
+    if (count === 0) {
+      throw new AuthError('Unknown or expired nonce');
+    }
+
+    const valid = await this.client.verifySiweMessage({
+      message,
+      signature,
+      domain: AUTH_CONFIG.siweDomain,
+      nonce: parsed.nonce,
+    });
+
+    if (!valid) {
+      throw new AuthError('Invalid SIWE signature');
+    }
+
+    const address = getAddress(parsed.address);
+    const role = this.roleFor(address);
+    const session = this.issueToken(address, role);
+
+    logger.info('Signed in with Ethereum', { address, role });
+
+    return { ...session, address, role };
+  }
+
+  /**
+   * Sign a session token for an address
+   */
+  issueToken(address: Address, role: Role) {
+    if (!AUTH_CONFIG.jwtSecret) {
+      throw new AuthError('JWT_SECRET is not configured', 500);
+    }
+
+    const claims: TokenClaims = { sub: address, role };
+    const token = jwt.sign(claims, AUTH_CONFIG.jwtSecret, {
+      algorithm: 'HS256',
+      expiresIn: AUTH_CONFIG.jwtTtl,
+    });
+
+    return { token, expiresAt: new Date(Date.now() + AUTH_CONFIG.jwtTtl * 1000) };
+  }
+
+  /**
+   * Resolve a session token to its principal
+   */
+  verifyToken(token: string): Principal {
+    if (!AUTH_CONFIG.jwtSecret) {
+      throw new AuthError('JWT_SECRET is not configured', 500);
+    }
+
+    try {
+      const claims = jwt.verify(token, AUTH_CONFIG.jwtSecret, {
+        algorithms: ['HS256'],
+      }) as TokenClaims;
+
+      return { type: 'siwe', role: claims.role, address: getAddress(claims.sub) };
+    } catch {
+      throw new AuthError('Invalid or expired token');
+    }
+  }
+
+  /**
+   * Create an API key; the key is only returned here
+   */
+  async createApiKey(name: string, role: Role, address: Address | null) {
+    if (role !== 'ADMIN' && !address) {
+      throw new AuthError(`${role} API keys need an address`, 400);
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name,
+        role,
+        address,
+        keyHash: hashApiKey(key),
+        keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      },
+      select: { id: true, name: true, role: true, address: true, keyPrefix: true, createdAt: true },
+    });
+
+    logger.info('API key created', { id: apiKey.id, name, role });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * List API keys (without hashes)
+   */
+  async listApiKeys() {
+    return await prisma.apiKey.findMany({
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        name: true,
+        role: true,
+        address: true,
+        keyPrefix: true,
+        lastUsedAt: true,
+        revokedAt: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  /**
+   * Revoke an API key
+   */
+  async revokeApiKey(id: string) {
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new AuthError('API key not found or already revoked', 404);
+    }
+
+    logger.info('API key revoked', { id });
+  }
+
+  /**
+   * Resolve an API key to its principal
+   */
+  async verifyApiKey(key: string): Promise<Principal> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashApiKey(key) },
+    });
+
+    if (!apiKey || apiKey.revokedAt) {
+      throw new AuthError('Invalid API key');
+    }
+
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return {
+      type: 'apiKey',
+      role: apiKey.role,
+      address: apiKey.address ? getAddress(apiKey.address) : null,
+      apiKeyId: apiKey.id,
+    };
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
@@ -5,14 +5,19 @@
 import { 
   createWalletClient, 
   createPublicClient,
+  decodeEventLog,
+  encodeFunctionData,
   http, 
   type Address,
-  type Hash
+  type EncodeFunctionDataParameters,
+  type Hash,
+  type Hex
 } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { createModuleLogger } from '../../utils/logger';
 import { CHAINS } from '../../config/chains';
 import { FLARE_CONTRACTS } from '../../config/contracts';
+import { transactionQueue } from './TransactionQueueService';
 
 const logger = createModuleLogger('dealVault');
 
@@ -88,8 +93,32 @@ const DEAL_VAULT_ABI = [
     inputs: [{ name: 'dealId', type: 'uint256' }],
     outputs: [{ name: '', type: 'bool' }],
   },
+  {
+    name: 'DealCreated',
+    type: 'event',
+    inputs: [
+      { name: 'dealId', type: 'uint256', indexed: true },
+      { name: 'depositToken', type: 'address', indexed: false },
+      { name: 'duration', type: 'uint256', indexed: false },
+    ],
+  },
+  // Errors, so reverts decode to a name
+  { name: 'InvalidDuration', type: 'error', inputs: [] },
+  { name: 'InvalidDepositAmount', type: 'error', inputs: [] },
+  { name: 'DealNotActive', type: 'error', inputs: [] },
+  { name: 'ChannelNotLinked', type: 'error', inputs: [] },
+  { name: 'InvalidDeal', type: 'error', inputs: [] },
+  { name: 'DealStillActive', type: 'error', inputs: [] },
+  {
+    name: 'OwnableUnauthorizedAccount',
+    type: 'error',
+    inputs: [{ name: 'account', type: 'address' }],
+  },
 ] as const;
 
+// Writes sent through the transaction queue
+type DealVaultWrite = 'linkChannel' | 'lockDeal' | 'finalizeDeal';
+
 export interface CreateDealParams {
   depositToken: Address;
   targetToken: Address;
@@ -188,6 +217,7 @@ export class DealVaultService {
   async createDeal(params: CreateDealParams): Promise<{
     dealId: bigint;
     txHash: Hash;
+    blockNumber: bigint;
   }> {
     try {
       logger.info('Creating deal on-chain', { params });
@@ -217,21 +247,49 @@ export class DealVaultService {
         hash: txHash,
       });
 
+      if (receipt.status !== 'success') {
+        throw new Error(`Deal creation transaction reverted: ${txHash}`);
+      }
+
+      // Extract dealId from the DealCreated log
+      const dealId = this.getCreatedDealId(receipt.logs);
+
       logger.info('Deal creation confirmed', {
         txHash,
+        dealId,
         blockNumber: receipt.blockNumber,
       });
 
-      // Extract dealId from logs
-      const dealId = request.result as bigint;
-
-      return { dealId, txHash };
+      return { dealId, txHash, blockNumber: receipt.blockNumber };
     } catch (error) {
       logger.error('Failed to create deal on-chain', error);
       throw error;
     }
   }
 
+  /**
+   * Find the DealCreated event emitted by this vault in receipt logs
+   */
+  private getCreatedDealId(logs: { address: string; data: `0x${string}`; topics: [Hex, ...Hex[]] | [] }[]): bigint {
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== this.vaultAddress.toLowerCase()) continue;
+
+      try {
+        const event = decodeEventLog({
+          abi: DEAL_VAULT_ABI,
+          eventName: 'DealCreated',
+          data: log.data,
+          topics: log.topics,
+        });
+        return event.args.dealId;
+      } catch {
+        // Not a DealCreated log
+      }
+    }
+
+    throw new Error('DealCreated event not found in receipt');
+  }
+
   /**
    * Get deal information from contract
    */
@@ -272,79 +330,80 @@ export class DealVaultService {
 
   /**
    * Link a state channel to a deal
+   * Enqueued; returns the transaction queue job. A higher `priority` sends
+   * it ahead of writes already queued, such as a re-link before lockDeal.
    */
-  async linkChannel(dealId: bigint, channelId: string): Promise<Hash> {
+  async linkChannel(dealId: bigint, channelId: string, priority?: number) {
     try {
-      logger.info('Linking channel to deal', { dealId, channelId });
-
-      const txHash = await this.walletClient.writeContract({
-        address: this.vaultAddress,
-        abi: DEAL_VAULT_ABI,
-        functionName: 'linkChannel',
-        args: [dealId, channelId as `0x${string}`],
-      });
-
-      await this.publicClient.waitForTransactionReceipt({ hash: txHash });
-
-      logger.info('Channel linked successfully', { dealId, channelId, txHash });
+      logger.info('Queueing channel link', { dealId, channelId });
 
-      return txHash;
+      return await this.enqueueWrite(
+        {
+          abi: DEAL_VAULT_ABI,
+          functionName: 'linkChannel',
+          args: [dealId, channelId as `0x${string}`],
+        },
+        priority
+      );
     } catch (error) {
-      logger.error('Failed to link channel', error);
+      logger.error('Failed to queue channel link', error);
       throw error;
     }
   }
 
   /**
    * Lock a deal (prevent new deposits)
+   * Enqueued; returns the transaction queue job
    */
-  async lockDeal(dealId: bigint): Promise<Hash> {
+  async lockDeal(dealId: bigint) {
     try {
-      logger.info('Locking deal', { dealId });
-
-      const txHash = await this.walletClient.writeContract({
-        address: this.vaultAddress,
-        abi: DEAL_VAULT_ABI,
-        functionName: 'lockDeal',
-        args: [dealId],
-      });
-
-      await this.publicClient.waitForTransactionReceipt({ hash: txHash });
-
-      logger.info('Deal locked successfully', { dealId, txHash });
+      logger.info('Queueing deal lock', { dealId });
 
-      return txHash;
+      return await this.enqueueWrite({ abi: DEAL_VAULT_ABI, functionName: 'lockDeal', args: [dealId] });
     } catch (error) {
-      logger.error('Failed to lock deal', error);
+      logger.error('Failed to queue deal lock', error);
       throw error;
     }
   }
 
   /**
    * Finalize a deal
+   * Enqueued; returns the transaction queue job
    */
-  async finalizeDeal(dealId: bigint): Promise<Hash> {
+  async finalizeDeal(dealId: bigint) {
     try {
-      logger.info('Finalizing deal', { dealId });
+      logger.info('Queueing deal finalization', { dealId });
 
-      const txHash = await this.walletClient.writeContract({
-        address: this.vaultAddress,
-        abi: DEAL_VAULT_ABI,
-        functionName: 'finalizeDeal',
-        args: [dealId],
-      });
-
-      await this.publicClient.waitForTransactionReceipt({ hash: txHash });
-
-      logger.info('Deal finalized successfully', { dealId, txHash });
-
-      return txHash;
+      return await this.enqueueWrite({ abi: DEAL_VAULT_ABI, functionName: 'finalizeDeal', args: [dealId] });
     } catch (error) {
-      logger.error('Failed to finalize deal', error);
+      logger.error('Failed to queue deal finalization', error);
       throw error;
     }
   }
 
+  /**
+   * Encode a DealVault call and hand it to the transaction queue
+   */
+  private async enqueueWrite(
+    call: EncodeFunctionDataParameters<typeof DEAL_VAULT_ABI, DealVaultWrite>,
+    priority?: number
+  ) {
+    const vault = (this.vaultAddress || FLARE_CONTRACTS.dealVault) as Address;
+    if (!vault) {
+      throw new Error('DEAL_VAULT_ADDRESS not configured');
+    }
+
+    const data = encodeFunctionData(call);
+
+    return await transactionQueue.enqueue({
+      chainId: CHAINS.flare.id,
+      to: vault,
+      data,
+      method: call.functionName,
+      priority,
+    });
+  }
+
   /**
    * Get the vault address
    */
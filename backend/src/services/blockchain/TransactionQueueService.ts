@@ -0,0 +1,627 @@
+/**
+ * Transaction Queue Service
+ * Persistent queue for backend-signed transactions with nonce management,
+ * gas bumping and retries
+ */
+import {
+  createWalletClient,
+  createPublicClient,
+  http,
+  keccak256,
+  ExecutionRevertedError,
+  FeeCapTooHighError,
+  InsufficientFundsError,
+  IntrinsicGasTooHighError,
+  IntrinsicGasTooLowError,
+  NonceMaxValueError,
+  NonceTooHighError,
+  TipAboveFeeCapError,
+  TransactionTypeNotSupportedError,
+  type Address,
+  type Chain,
+  type Hash,
+  type Hex,
+  type TransactionReceipt,
+} from 'viem';
+import type { Prisma, TransactionQueue } from '@prisma/client';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { createModuleLogger } from '../../utils/logger';
+import { getChainById } from '../../config/chains';
+import { TX_QUEUE_CONFIG } from '../../config/contracts';
+import { getPrismaClient } from '../database/prisma';
+
+const logger = createModuleLogger('txQueue');
+const prisma = getPrismaClient();
+
+export interface EnqueueParams {
+  chainId: number;
+  to: Address;
+  data: Hex;
+  value?: bigint;
+  gasLimit?: bigint;
+  method?: string;
+  priority?: number;
+  maxRetries?: number;
+}
+
+function createChainClients(chain: Chain, rpcUrl: string, account: PrivateKeyAccount) {
+  return {
+    publicClient: createPublicClient({ chain, transport: http(rpcUrl) }),
+    walletClient: createWalletClient({ account, chain, transport: http(rpcUrl) }),
+  };
+}
+
+type ChainClients = ReturnType<typeof createChainClients>;
+
+// Advisory lock class for claiming jobs; the second key is the chain ID
+const CLAIM_LOCK = 0x7478; // "tx"
+
+// Node errors that reject a signed transaction for good: sending the same
+// bytes again cannot succeed. Anything else (timeouts, "already known",
+// underpriced replacements) is left to the next reconcile.
+const REJECTIONS = [
+  InsufficientFundsError,
+  IntrinsicGasTooLowError,
+  IntrinsicGasTooHighError,
+  NonceTooHighError,
+  NonceMaxValueError,
+  FeeCapTooHighError,
+  TipAboveFeeCapError,
+  TransactionTypeNotSupportedError,
+  ExecutionRevertedError,
+];
+
+/**
+ * Whether a broadcast error means the node will never accept the transaction
+ */
+export function isRejected(error: unknown): boolean {
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return REJECTIONS.some((rejection) => rejection.nodeMessage.test(message));
+}
+
+interface SignedTransaction {
+  signedTx: Hex;
+  txHash: Hash;
+  nonce: bigint;
+}
+
+/**
+ * Worker that drains TransactionQueue, one in-flight transaction per chain
+ */
+export class TransactionQueueService {
+  private account: PrivateKeyAccount | null = null;
+  private clients: Map<number, ChainClients> = new Map();
+  private isRunning = false;
+  private isPolling = false;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  /**
+   * Add a transaction to the queue
+   */
+  async enqueue(params: EnqueueParams) {
+    if (!getChainById(params.chainId)) {
+      throw new Error(`Unsupported chain ID: ${params.chainId}`);
+    }
+
+    const job = await prisma.transactionQueue.create({
+      data: {
+        chainId: BigInt(params.chainId),
+        to: params.to,
+        data: params.data,
+        value: (params.value ?? 0n).toString(),
+        gasLimit: params.gasLimit?.toString(),
+        method: params.method,
+        priority: params.priority ?? 0,
+        maxRetries: params.maxRetries ?? 3,
+      },
+    });
+
+    logger.info('Transaction enqueued', {
+      jobId: job.id,
+      chainId: params.chainId,
+      method: params.method,
+    });
+
+    return job;
+  }
+
+  /**
+   * Get a queued transaction by ID
+   */
+  async getJob(id: string) {
+    return await prisma.transactionQueue.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Start the queue worker
+   */
+  start() {
+    if (this.isRunning) {
+      logger.warn('Transaction queue already running');
+      return;
+    }
+
+    if (!process.env.PRIVATE_KEY_BACKEND) {
+      throw new Error('PRIVATE_KEY_BACKEND not configured');
+    }
+
+    this.account = privateKeyToAccount(process.env.PRIVATE_KEY_BACKEND as `0x${string}`);
+    this.isRunning = true;
+
+    logger.info('Starting transaction queue worker', {
+      sender: this.account.address,
+      interval: `${TX_QUEUE_CONFIG.pollInterval / 1000}s`,
+    });
+
+    this.poll();
+
+    this.intervalId = setInterval(() => {
+      this.poll();
+    }, TX_QUEUE_CONFIG.pollInterval);
+  }
+
+  /**
+   * Stop the queue worker
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    logger.info('Stopped transaction queue worker');
+  }
+
+  private async poll() {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      await this.checkInFlight();
+      await this.sendNext();
+    } catch (error) {
+      logger.error('Transaction queue pass failed', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Resolve receipts for in-flight transactions and bump stuck ones
+   */
+  private async checkInFlight() {
+    const inFlight = await prisma.transactionQueue.findMany({
+      where: { status: 'PROCESSING' },
+    });
+
+    for (const job of inFlight) {
+      // Claimed but not signed yet. Another worker may still be signing it,
+      // so only a claim past its lease (the worker died) is released; its
+      // nonce was never broadcast.
+      if (!job.txHash || !job.signedTx || job.nonce === null) {
+        if (!job.claimedAt || Date.now() - job.claimedAt.getTime() > TX_QUEUE_CONFIG.claimLease) {
+          const { count } = await prisma.transactionQueue.updateMany({
+            where: { id: job.id, status: 'PROCESSING', txHash: null, claimedAt: job.claimedAt },
+            data: { status: 'PENDING', nonce: null, claimedAt: null },
+          });
+          if (count > 0) {
+            logger.warn('Released expired transaction claim', { jobId: job.id, nonce: job.nonce?.toString() });
+          }
+        }
+        continue;
+      }
+
+      try {
+        await this.reconcile(job);
+      } catch (error) {
+        logger.error('Failed to check transaction', { jobId: job.id, error });
+      }
+    }
+  }
+
+  /**
+   * Settle an in-flight job against the chain. The job keeps its nonce until
+   * one of its broadcasts is mined or the chain shows the nonce used by
+   * another transaction; only then can none of its broadcasts be mined.
+   */
+  private async reconcile(job: TransactionQueue) {
+    const { publicClient } = this.getClients(Number(job.chainId));
+
+    // Read the nonce first: if one of our broadcasts used it, its receipt exists by now
+    const minedNonce = await publicClient.getTransactionCount({
+      address: this.account!.address,
+      blockTag: 'latest',
+    });
+
+    // Any broadcast of this nonce may be the one that got mined
+    const hashes = [job.txHash, ...job.replacedTxHashes].filter(Boolean) as Hash[];
+    const receipt = await this.findReceipt(publicClient, hashes);
+
+    if (receipt) {
+      const confirmed = receipt.status === 'success';
+
+      await prisma.transactionQueue.updateMany({
+        where: { id: job.id, status: 'PROCESSING' },
+        data: {
+          status: confirmed ? 'CONFIRMED' : 'FAILED',
+          txHash: receipt.transactionHash,
+          blockNumber: receipt.blockNumber,
+          error: confirmed ? null : 'Transaction reverted',
+          processedAt: new Date(),
+        },
+      });
+
+      logger.info(confirmed ? 'Transaction confirmed' : 'Transaction reverted', {
+        jobId: job.id,
+        txHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber.toString(),
+      });
+      return;
+    }
+
+    if (BigInt(minedNonce) > job.nonce!) {
+      await this.recordFailure(job, new Error(`Nonce ${job.nonce} was used by another transaction`));
+      return;
+    }
+
+    if (job.sentAt && Date.now() - job.sentAt.getTime() > TX_QUEUE_CONFIG.stuckTimeout) {
+      if (job.gasBumps < TX_QUEUE_CONFIG.maxGasBumps) {
+        await this.bumpGas(job);
+      } else {
+        await this.rebroadcast(job);
+      }
+    }
+  }
+
+  /**
+   * Send the next pending transaction on every chain without one in flight
+   */
+  private async sendNext() {
+    const busyChains = await prisma.transactionQueue.findMany({
+      where: { status: 'PROCESSING' },
+      select: { chainId: true },
+      distinct: ['chainId'],
+    });
+    const busy = new Set(busyChains.map((job: { chainId: bigint }) => job.chainId.toString()));
+
+    const pending = await prisma.transactionQueue.findMany({
+      where: {
+        status: 'PENDING',
+        availableAt: { lte: new Date() },
+        ...(busy.size > 0 && { chainId: { notIn: [...busy].map(BigInt) } }),
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    for (const job of pending) {
+      const chainKey = job.chainId.toString();
+      if (busy.has(chainKey)) continue;
+      busy.add(chainKey);
+
+      await this.send(job);
+    }
+  }
+
+  /**
+   * Claim a pending job with the next nonce for its chain, sign and save
+   * it, then broadcast
+   */
+  private async send(pending: TransactionQueue) {
+    const job = await this.claim(pending);
+    if (!job) return;
+
+    let signed: SignedTransaction;
+    let sent: TransactionQueue;
+    try {
+      const { publicClient } = this.getClients(Number(job.chainId));
+      const nonce = job.nonce!;
+
+      const gas = job.gasLimit
+        ? BigInt(job.gasLimit)
+        : await publicClient.estimateGas({
+          account: this.account!,
+          to: job.to as Address,
+          data: job.data as Hex,
+          value: BigInt(job.value),
+        });
+
+      const fees = await publicClient.estimateFeesPerGas();
+      signed = await this.sign(job, {
+        nonce,
+        gas,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      });
+
+      // Saved before broadcasting so a restart reconciles this nonce instead
+      // of re-sending; only while the claim is still ours
+      const { count } = await prisma.transactionQueue.updateMany({
+        where: { id: job.id, status: 'PROCESSING', txHash: null, claimedAt: job.claimedAt },
+        data: {
+          txHash: signed.txHash,
+          signedTx: signed.signedTx,
+          gasLimit: gas.toString(),
+          maxFeePerGas: fees.maxFeePerGas.toString(),
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+          gasBumps: 0,
+          sentAt: new Date(),
+          error: null,
+        },
+      });
+      if (count === 0) {
+        logger.warn('Transaction claim expired before it was saved', { jobId: job.id });
+        return;
+      }
+      sent = { ...job, txHash: signed.txHash, signedTx: signed.signedTx };
+    } catch (error) {
+      await this.recordFailure(job, error);
+      return;
+    }
+
+    if (!(await this.broadcast(sent, signed.signedTx))) return;
+
+    logger.info('Transaction sent', {
+      jobId: job.id,
+      method: job.method,
+      txHash: signed.txHash,
+      nonce: signed.nonce.toString(),
+    });
+  }
+
+  /**
+   * Claim a pending job and reserve the chain's next nonce for it
+   * Runs under a per-chain advisory lock, so concurrent workers neither put
+   * two jobs in flight on one chain nor hand out the same nonce.
+   */
+  private async claim(job: TransactionQueue): Promise<TransactionQueue | null> {
+    const chainId = Number(job.chainId);
+
+    return await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CLAIM_LOCK}, ${chainId}::int)`;
+
+        const inFlight = await tx.transactionQueue.count({
+          where: { chainId: job.chainId, status: 'PROCESSING' },
+        });
+        if (inFlight > 0) return null;
+
+        const nonce = await this.getNonce(tx, chainId);
+        const claimedAt = new Date();
+
+        const { count } = await tx.transactionQueue.updateMany({
+          where: { id: job.id, status: 'PENDING' },
+          data: { status: 'PROCESSING', nonce, claimedAt },
+        });
+
+        return count === 0 ? null : { ...job, status: 'PROCESSING' as const, nonce, claimedAt };
+      },
+      { timeout: TX_QUEUE_CONFIG.claimLease }
+    );
+  }
+
+  /**
+   * Re-sign a stuck transaction with the same nonce and higher fees
+   */
+  private async bumpGas(job: TransactionQueue) {
+    const { publicClient } = this.getClients(Number(job.chainId));
+    const current = await publicClient.estimateFeesPerGas();
+
+    const bump = (previous: string | null, market: bigint) => {
+      const bumped = (BigInt(previous ?? '0') * (100n + TX_QUEUE_CONFIG.gasBumpPercent)) / 100n;
+      return bumped > market ? bumped : market;
+    };
+
+    const maxFeePerGas = bump(job.maxFeePerGas, current.maxFeePerGas);
+    const maxPriorityFeePerGas = bump(job.maxPriorityFeePerGas, current.maxPriorityFeePerGas);
+
+    const signed = await this.sign(job, {
+      nonce: job.nonce!,
+      gas: BigInt(job.gasLimit!),
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    });
+
+    // Another worker may have reconciled the same job meanwhile
+    const { count } = await prisma.transactionQueue.updateMany({
+      where: { id: job.id, status: 'PROCESSING', txHash: job.txHash },
+      data: {
+        txHash: signed.txHash,
+        signedTx: signed.signedTx,
+        replacedTxHashes: { push: job.txHash! },
+        maxFeePerGas: maxFeePerGas.toString(),
+        maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+        gasBumps: { increment: 1 },
+        sentAt: new Date(),
+      },
+    });
+    if (count === 0) return;
+
+    const bumped = {
+      ...job,
+      txHash: signed.txHash,
+      signedTx: signed.signedTx,
+      replacedTxHashes: [...job.replacedTxHashes, job.txHash!],
+      gasBumps: job.gasBumps + 1,
+    };
+    if (!(await this.broadcast(bumped, signed.signedTx))) return;
+
+    logger.warn('Stuck transaction re-sent with higher gas', {
+      jobId: job.id,
+      previousTxHash: job.txHash,
+      txHash: signed.txHash,
+      maxFeePerGas: maxFeePerGas.toString(),
+      gasBumps: job.gasBumps + 1,
+    });
+  }
+
+  /**
+   * Re-send the latest signed transaction once gas bumps are used up
+   */
+  private async rebroadcast(job: TransactionQueue) {
+    const { count } = await prisma.transactionQueue.updateMany({
+      where: { id: job.id, status: 'PROCESSING', txHash: job.txHash },
+      data: { sentAt: new Date() },
+    });
+    if (count === 0) return;
+
+    if (!(await this.broadcast(job, job.signedTx as Hex))) return;
+
+    logger.error('Transaction still not mined after the last gas bump', {
+      jobId: job.id,
+      method: job.method,
+      txHash: job.txHash,
+      nonce: job.nonce!.toString(),
+      gasBumps: job.gasBumps,
+    });
+  }
+
+  /**
+   * Send a saved transaction. A rejection counts as a failed attempt and
+   * frees the nonce; other errors are left to the next reconcile. Returns
+   * whether the job is still in flight.
+   */
+  private async broadcast(job: TransactionQueue, signedTx: Hex): Promise<boolean> {
+    try {
+      const { walletClient } = this.getClients(Number(job.chainId));
+      await walletClient.sendRawTransaction({ serializedTransaction: signedTx });
+    } catch (error) {
+      if (isRejected(error)) {
+        await this.recordFailure(job, error);
+        return false;
+      }
+
+      logger.warn('Broadcast failed', {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return true;
+  }
+
+  private async sign(
+    job: TransactionQueue,
+    params: { nonce: bigint; gas: bigint; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  ): Promise<SignedTransaction> {
+    const { walletClient } = this.getClients(Number(job.chainId));
+
+    const signedTx = await walletClient.signTransaction({
+      account: this.account!,
+      chain: walletClient.chain,
+      to: job.to as Address,
+      data: job.data as Hex,
+      value: BigInt(job.value),
+      gas: params.gas,
+      nonce: Number(params.nonce),
+      maxFeePerGas: params.maxFeePerGas,
+      maxPriorityFeePerGas: params.maxPriorityFeePerGas,
+    });
+
+    return { signedTx, txHash: keccak256(signedTx), nonce: params.nonce };
+  }
+
+  /**
+   * Count a failed attempt and schedule a retry or give up
+   */
+  private async recordFailure(job: TransactionQueue, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryCount = job.retryCount + 1;
+    const exhausted = retryCount >= job.maxRetries;
+
+    // Only while no other worker has moved the job on
+    const { count } = await prisma.transactionQueue.updateMany({
+      where: { id: job.id, status: 'PROCESSING', txHash: job.txHash },
+      data: {
+        status: exhausted ? 'FAILED' : 'PENDING',
+        retryCount,
+        error: message,
+        availableAt: new Date(Date.now() + TX_QUEUE_CONFIG.retryBackoff * 2 ** (retryCount - 1)),
+        // A retry signs with a fresh nonce; earlier hashes are kept for the record
+        nonce: null,
+        claimedAt: null,
+        ...(job.txHash && {
+          txHash: null,
+          signedTx: null,
+          replacedTxHashes: { push: job.txHash },
+        }),
+        ...(exhausted && { processedAt: new Date() }),
+      },
+    });
+    if (count === 0) return;
+
+    logger.error(exhausted ? 'Transaction failed permanently' : 'Transaction attempt failed', {
+      jobId: job.id,
+      method: job.method,
+      retryCount,
+      maxRetries: job.maxRetries,
+      error: message,
+    });
+  }
+
+  private async findReceipt(
+    publicClient: ChainClients['publicClient'],
+    hashes: Hash[]
+  ): Promise<TransactionReceipt | null> {
+    for (const hash of hashes) {
+      try {
+        return await publicClient.getTransactionReceipt({ hash });
+      } catch {
+        // Not mined (or dropped) yet
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Next nonce: the chain's pending count, or past the highest nonce saved
+   * for this chain if the node has not seen (or has dropped) that broadcast.
+   * Called under the claim lock.
+   */
+  private async getNonce(tx: Prisma.TransactionClient, chainId: number): Promise<bigint> {
+    const { publicClient } = this.getClients(chainId);
+
+    const [count, saved] = await Promise.all([
+      publicClient.getTransactionCount({
+        address: this.account!.address,
+        blockTag: 'pending',
+      }),
+      tx.transactionQueue.aggregate({
+        where: { chainId: BigInt(chainId), nonce: { not: null } },
+        _max: { nonce: true },
+      }),
+    ]);
+
+    const pending = BigInt(count);
+    const next = saved._max.nonce === null ? 0n : saved._max.nonce + 1n;
+    return pending > next ? pending : next;
+  }
+
+  private getClients(chainId: number): ChainClients {
+    let clients = this.clients.get(chainId);
+    if (clients) return clients;
+
+    const config = getChainById(chainId);
+    if (!config) {
+      throw new Error(`Unsupported chain ID: ${chainId}`);
+    }
+
+    const chain: Chain = {
+      id: config.id,
+      name: config.name,
+      nativeCurrency: config.nativeCurrency,
+      rpcUrls: {
+        default: { http: [config.rpcUrl] },
+        public: { http: [config.rpcUrl] },
+      },
+    };
+
+    clients = createChainClients(chain, config.rpcUrl, this.account!);
+    this.clients.set(chainId, clients);
+
+    return clients;
+  }
+}
+
+// Export singleton instance
+export const transactionQueue = new TransactionQueueService();
@@ -13,6 +13,7 @@ import {
   createAuthRequestMessage,
   createAuthVerifyMessage,
   createSignedRequest,
+  generateRequestId,
 } from './MessageSigner';
 import {
   type MessageSigner,
@@ -23,11 +24,118 @@ import {
   RPCMethod,
   type AppDefinition,
   type AppAllocation,
+  type AppSessionResponse,
+  type AppSessionInfo,
+  type AppSessionStatus,
+  type SubmitAppStateParams,
+  type AppStateIntent,
+  type CloseAppSessionParams,
+  type GetAppSessionsParams,
   type ChannelInfo,
+  type Allowance,
+  type ClearNodeNotification,
 } from './types';
 
 const logger = createModuleLogger('clearnode');
 
+// Read-only methods, resent after re-authentication when the connection
+// drops before they are answered. Anything else may already have been
+// applied, so it fails instead.
+const REPLAYABLE_METHODS = new Set<string>([
+  RPCMethod.GetConfig,
+  RPCMethod.GetChannels,
+  RPCMethod.GetLedgerBalances,
+  RPCMethod.GetAppSessions,
+  RPCMethod.GetAppDefinition,
+]);
+
+// Methods ClearNode pushes without a request
+const NOTIFICATION_METHODS = new Set<string>([
+  RPCMethod.BalanceUpdate,
+  RPCMethod.ChannelUpdate,
+  RPCMethod.AppSessionUpdate,
+  RPCMethod.TransferNotification,
+]);
+
+/**
+ * Typed notification from a server push
+ * Payloads arrive either bare or wrapped in a one-element array.
+ */
+export function parseNotification(method: string, result: any, account: Address | undefined): ClearNodeNotification | null {
+  const payload = Array.isArray(result) ? result[0] : result;
+
+  if (!payload || typeof payload !== 'object') {
+    return null;
+  }
+
+  switch (method) {
+    case RPCMethod.BalanceUpdate: {
+      const balances = Array.isArray(payload) ? payload : payload.balance_updates;
+      if (!Array.isArray(balances) || !account) return null;
+
+      return {
+        type: 'balanceUpdate',
+        data: {
+          account,
+          balances: balances.map((balance) => ({
+            asset: balance.asset,
+            amount: String(balance.amount ?? balance.balance),
+          })),
+        },
+      };
+    }
+
+    case RPCMethod.ChannelUpdate:
+      if (!payload.channel_id) return null;
+      return { type: 'channelUpdate', data: payload };
+
+    case RPCMethod.AppSessionUpdate: {
+      const session = payload.app_session ?? payload;
+      if (!session.app_session_id) return null;
+
+      return {
+        type: 'appSessionUpdate',
+        data: { session, allocations: payload.participant_allocations ?? payload.allocations ?? [] },
+      };
+    }
+
+    case RPCMethod.TransferNotification: {
+      const transactions = Array.isArray(payload) ? payload : payload.transactions;
+      if (!Array.isArray(transactions)) return null;
+      return { type: 'transfer', data: { transactions } };
+    }
+
+    default:
+      return null;
+  }
+}
+
+interface PendingRequest {
+  requestId: number;
+  method: string;
+  params: any[];
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface SessionKey {
+  wallet: ethers.Wallet;
+  signer: MessageSigner;
+  expiresAt: number;
+  allowances: Allowance[];
+}
+
+/**
+ * Supplies the per-asset allowances granted to each new session key
+ */
+export type AllowanceProvider = () => Promise<Allowance[]>;
+
 /**
  * ClearNode Service
  * Handles all communication with ClearNode via WebSocket
@@ -35,22 +143,41 @@ const logger = createModuleLogger('clearnode');
 export class ClearNodeService extends EventEmitter {
   private ws: WebSocket | null = null;
   private wallet: ethers.Wallet | null = null;
+  // Signs RPC traffic with the current session key
   private messageSigner: MessageSigner | null = null;
   private connectionStatus: ConnectionStatus = ConnectionStatus.Disconnected;
   private isAuthenticated: boolean = false;
   private jwtToken: string | null = null;
-  private reconnectAttempts: number = 0;
-  private requestMap: Map<number, {
-    resolve: (value: any) => void;
-    reject: (error: Error) => void;
-    timeout: NodeJS.Timeout;
-  }> = new Map();
+  private requestMap: Map<number, PendingRequest> = new Map();
+  // Replayable requests cut off by a dropped connection
+  private replayQueue: Set<PendingRequest> = new Set();
+  // Callers of waitUntilAuthenticated
+  private authWaiters: Set<Waiter> = new Set();
+  // The authentication in progress (new connection or key rotation)
+  private pendingConnect: Waiter | null = null;
+  private connectionTimeout: NodeJS.Timeout | null = null;
+  private authRequestIds: Set<number> = new Set();
+  
+  // Reconnection: set by connect(), cleared by disconnect()
+  private shouldReconnect: boolean = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private consecutiveFailures: number = 0;
+  private circuitOpenUntil: number | null = null;
+  
+  // Session keys: a fresh one per authentication, rotated before expiry
+  private pendingSession: SessionKey | null = null;
+  // Signer and params a rotation replaced, restored if it fails
+  private rotatedFrom: { signer: MessageSigner; authParams: NonNullable<ClearNodeService['authParams']> } | null = null;
+  private rotation: Promise<void> | null = null;
+  private rotationTimer: NodeJS.Timeout | null = null;
+  private allowanceProvider: AllowanceProvider | null = null;
   
   // Authentication params
   private authParams: {
     address: Address;
-    sessionKey: Address;
-    expiresAt: number;
+    sessionKey: Address | null;
+    expiresAt: number | null;
+    allowances: Allowance[];
   } | null = null;
 
   constructor() {
@@ -63,13 +190,14 @@ export class ClearNodeService extends EventEmitter {
   async initialize(privateKey: string) {
     try {
       this.wallet = new ethers.Wallet(privateKey);
-      this.messageSigner = createMessageSigner(this.wallet);
       
-      // Set auth params
+      // Session keys are generated on each authentication; the wallet
+      // itself only signs their EIP-712 policies
       this.authParams = {
         address: this.wallet.address as Address,
-        sessionKey: this.wallet.address as Address, // Using same for simplicity
-        expiresAt: Math.floor(Date.now() / 1000) + CLEARNODE_CONFIG.sessionExpiration,
+        sessionKey: null,
+        expiresAt: null,
+        allowances: [],
       };
 
       logger.info('ClearNode service initialized', {
@@ -83,38 +211,59 @@ export class ClearNodeService extends EventEmitter {
 
   /**
    * Connect to ClearNode
+   * Resolves once authenticated. Whether or not this attempt succeeds, lost
+   * connections are retried until disconnect() is called.
    */
   async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.wallet || !this.messageSigner || !this.authParams) {
-        reject(new Error('Service not initialized'));
-        return;
-      }
+    if (!this.wallet || !this.authParams) {
+      throw new Error('Service not initialized');
+    }
+
+    this.shouldReconnect = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    return this.openConnection();
+  }
 
+  /**
+   * Open a socket and authenticate
+   */
+  private openConnection(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      // Replace any socket still open; its events are ignored from here on
       if (this.ws) {
-        this.ws.close();
+        const previous = this.ws;
+        this.ws = null;
+        previous.terminate();
+        this.handleConnectionLost(new Error('Connection replaced'));
       }
 
+      this.pendingConnect = { resolve, reject };
       this.connectionStatus = ConnectionStatus.Connecting;
       this.emit('connecting');
 
       logger.info('Connecting to ClearNode', { url: CLEARNODE_CONFIG.wsUrl });
 
-      this.ws = new WebSocket(CLEARNODE_CONFIG.wsUrl);
+      const ws = new WebSocket(CLEARNODE_CONFIG.wsUrl);
+      this.ws = ws;
 
-      // Connection timeout
-      const connectionTimeout = setTimeout(() => {
-        if (this.connectionStatus === ConnectionStatus.Connecting) {
-          this.ws?.close();
-          reject(new Error('Connection timeout'));
+      // Covers both the socket opening and the authentication handshake
+      this.connectionTimeout = setTimeout(() => {
+        this.connectionTimeout = null;
+        if (this.ws === ws && !this.isAuthenticated) {
+          this.failConnection(new Error('Connection timeout'));
         }
       }, CLEARNODE_CONFIG.connectionTimeout);
 
       // WebSocket event handlers
-      this.ws.on('open', async () => {
-        clearTimeout(connectionTimeout);
+      ws.on('open', async () => {
+        if (this.ws !== ws) return;
+
         this.connectionStatus = ConnectionStatus.Connected;
-        this.reconnectAttempts = 0;
         this.emit('connected');
         
         logger.info('WebSocket connected to ClearNode');
@@ -122,26 +271,25 @@ export class ClearNodeService extends EventEmitter {
         // Start authentication
         try {
           await this.startAuthentication();
-          resolve();
         } catch (error) {
-          reject(error);
+          this.failConnection(error as Error);
         }
       });
 
-      this.ws.on('message', (data: WebSocket.Data) => {
+      ws.on('message', (data: WebSocket.Data) => {
+        if (this.ws !== ws) return;
         this.handleMessage(data);
       });
 
-      this.ws.on('error', (error) => {
-        clearTimeout(connectionTimeout);
+      ws.on('error', (error) => {
+        if (this.ws !== ws) return;
         logger.error('WebSocket error', error);
-        this.emit('error', error);
+        this.emitError(error);
       });
 
-      this.ws.on('close', (code, reason) => {
-        clearTimeout(connectionTimeout);
-        this.connectionStatus = ConnectionStatus.Disconnected;
-        this.isAuthenticated = false;
+      ws.on('close', (code, reason) => {
+        if (this.ws !== ws) return;
+        this.ws = null;
         
         logger.info('WebSocket closed', {
           code,
@@ -153,8 +301,7 @@ export class ClearNodeService extends EventEmitter {
           reason: reason.toString(),
         });
 
-        // Attempt reconnection
-        this.attemptReconnect();
+        this.handleConnectionLost(new Error(`Connection closed (${code})`));
       });
     });
   }
@@ -163,22 +310,32 @@ export class ClearNodeService extends EventEmitter {
    * Start authentication flow
    */
   private async startAuthentication() {
-    if (!this.wallet || !this.messageSigner || !this.authParams) {
+    if (!this.wallet || !this.authParams) {
       throw new Error('Service not initialized');
     }
 
-    this.connectionStatus = ConnectionStatus.Authenticating;
+    // A key rotation re-authenticates while the current session stays usable
+    if (!this.isAuthenticated) {
+      this.connectionStatus = ConnectionStatus.Authenticating;
+    }
 
     try {
-      // Create and send auth_request
+      const session = await this.createSessionKey();
+      this.pendingSession = session;
+
+      const requestId = generateRequestId();
+      this.authRequestIds.add(requestId);
+
+      // Create and send auth_request, signed by the new session key
       const authRequest = await createAuthRequestMessage(
-        this.messageSigner,
+        session.signer,
         this.authParams.address,
-        this.authParams.sessionKey,
+        session.wallet.address as Address,
         CLEARNODE_CONFIG.application,
-        this.authParams.expiresAt,
+        session.expiresAt,
         CLEARNODE_CONFIG.scope,
-        []
+        session.allowances,
+        requestId
       );
 
       logger.info('Sending auth_request');
@@ -205,7 +362,12 @@ export class ClearNodeService extends EventEmitter {
 
         logger.debug('Received response', { method, requestId });
 
-        // Handle authentication messages
+        // Handle authentication messages; answers to an abandoned
+        // attempt are dropped
+        if (method === RPCMethod.AuthChallenge || method === RPCMethod.AuthVerify) {
+          if (!this.authRequestIds.has(requestId)) return;
+        }
+
         if (method === RPCMethod.AuthChallenge) {
           await this.handleAuthChallenge(message as RPCResponse);
           return;
@@ -222,6 +384,8 @@ export class ClearNodeService extends EventEmitter {
           clearTimeout(handler.timeout);
           handler.resolve(result);
           this.requestMap.delete(requestId);
+        } else if (NOTIFICATION_METHODS.has(method)) {
+          this.handleNotification(method, result);
         }
 
         this.emit('message', message);
@@ -233,6 +397,11 @@ export class ClearNodeService extends EventEmitter {
         
         logger.error('Received error', { code, errorMessage, requestId });
 
+        if (this.authRequestIds.has(requestId)) {
+          this.failConnection(new Error(`Authentication failed: ${code}: ${errorMessage}`));
+          return;
+        }
+
         const handler = this.requestMap.get(requestId);
         if (handler) {
           clearTimeout(handler.timeout);
@@ -240,13 +409,28 @@ export class ClearNodeService extends EventEmitter {
           this.requestMap.delete(requestId);
         }
 
-        this.emit('error', new Error(errorMessage));
+        this.emitError(new Error(errorMessage));
       }
     } catch (error) {
       logger.error('Error handling message', error);
     }
   }
 
+  /**
+   * Emit a server push as its typed event
+   */
+  private handleNotification(method: string, result: any) {
+    const notification = parseNotification(method, result, this.authParams?.address);
+
+    if (!notification) {
+      logger.warn('Ignoring malformed ClearNode notification', { method });
+      return;
+    }
+
+    logger.debug('Received notification', { type: notification.type });
+    this.emit(notification.type, notification.data);
+  }
+
   /**
    * Handle auth challenge response
    */
@@ -256,6 +440,12 @@ export class ClearNodeService extends EventEmitter {
     }
 
     try {
+      const session = this.pendingSession;
+
+      if (!session) {
+        throw new Error('Challenge received with no session key pending');
+      }
+
       const challengeData = message.res[2];
       const challenge = challengeData[0]?.challengeMessage || challengeData.challengeMessage;
 
@@ -265,23 +455,43 @@ export class ClearNodeService extends EventEmitter {
 
       logger.info('Received auth_challenge', { challenge: challenge.substring(0, 20) + '...' });
 
-      // Create and send auth_verify with EIP-712 signature
+      const requestId = generateRequestId();
+      this.authRequestIds.add(requestId);
+
+      // Create and send auth_verify: the wallet signs the EIP-712 policy
+      // granting the session key, which signs the request itself
       const authVerify = await createAuthVerifyMessage(
         this.wallet,
         CLEARNODE_CONFIG.eip712Domain,
         challenge,
         CLEARNODE_CONFIG.scope,
         this.authParams.address,
-        this.authParams.sessionKey,
-        this.authParams.expiresAt,
-        []
+        session.wallet.address as Address,
+        session.expiresAt,
+        session.allowances,
+        requestId,
+        session.signer
       );
 
+      // ClearNode checks requests against the new key once it has seen
+      // auth_verify, so switch signers as it is sent
+      if (this.isAuthenticated) {
+        this.rotatedFrom = { signer: this.messageSigner!, authParams: this.authParams };
+      }
+      this.pendingSession = null;
+      this.messageSigner = session.signer;
+      this.authParams = {
+        ...this.authParams,
+        sessionKey: session.wallet.address as Address,
+        expiresAt: session.expiresAt,
+        allowances: session.allowances,
+      };
+
       logger.info('Sending auth_verify');
       this.ws?.send(authVerify);
     } catch (error) {
       logger.error('Failed to handle auth challenge', error);
-      throw error;
+      this.failConnection(error as Error);
     }
   }
 
@@ -289,71 +499,188 @@ export class ClearNodeService extends EventEmitter {
    * Handle auth success response
    */
   private async handleAuthSuccess(message: RPCResponse) {
-    try {
-      const result = message.res[2];
-      const success = result[0]?.success ?? result.success;
-      const jwtToken = result[0]?.jwtToken ?? result.jwtToken;
+    const result = message.res[2];
+    const success = result[0]?.success ?? result.success;
+    const jwtToken = result[0]?.jwtToken ?? result.jwtToken;
 
-      if (success) {
-        this.isAuthenticated = true;
-        this.connectionStatus = ConnectionStatus.Authenticated;
-        
-        if (jwtToken) {
-          this.jwtToken = jwtToken;
-          logger.info('JWT token received');
-        }
+    if (!success) {
+      logger.error('Failed to handle auth success', { result });
+      this.failConnection(new Error('Authentication failed'));
+      return;
+    }
 
-        logger.info('Authentication successful');
-        this.emit('authenticated', jwtToken);
-      } else {
-        throw new Error('Authentication failed');
-      }
-    } catch (error) {
-      logger.error('Failed to handle auth success', error);
-      throw error;
+    this.isAuthenticated = true;
+    this.connectionStatus = ConnectionStatus.Authenticated;
+    this.authRequestIds.clear();
+    this.rotatedFrom = null;
+
+    if (this.connectionTimeout) {
+      clearTimeout(this.connectionTimeout);
+      this.connectionTimeout = null;
+    }
+    
+    if (jwtToken) {
+      this.jwtToken = jwtToken;
+      logger.info('JWT token received');
+    }
+
+    this.consecutiveFailures = 0;
+    if (this.circuitOpenUntil !== null) {
+      this.circuitOpenUntil = null;
+      logger.info('ClearNode circuit closed');
+      this.emit('circuitClosed');
+    }
+
+    logger.info('Authentication successful', {
+      sessionKey: this.authParams?.sessionKey,
+      expiresAt: new Date(this.authParams!.expiresAt! * 1000).toISOString(),
+    });
+    this.emit('authenticated', jwtToken);
+
+    this.scheduleRotation();
+
+    this.pendingConnect?.resolve();
+    this.pendingConnect = null;
+
+    for (const waiter of this.authWaiters) {
+      waiter.resolve();
     }
+    this.authWaiters.clear();
+
+    this.replayRequests();
   }
 
   /**
-   * Send a request and wait for response
+   * Abandon the current connection attempt
+   * Closing the socket schedules the next attempt. On an authenticated
+   * connection the attempt was a key rotation, which leaves it open.
    */
-  async sendRequest(method: string, params: any[] = []): Promise<any> {
-    if (!this.isAuthenticated) {
-      throw new Error('Not authenticated');
+  private failConnection(error: Error) {
+    if (this.isAuthenticated) {
+      this.failRotation(error);
+      return;
+    }
+
+    this.pendingConnect?.reject(error);
+    this.pendingConnect = null;
+    this.ws?.terminate();
+  }
+
+  /**
+   * Resolve once the connection is authenticated
+   * Waits through reconnects for up to `timeout` ms, but fails at once while
+   * the circuit breaker is open or when connect() has not been called.
+   */
+  waitUntilAuthenticated(timeout: number = CLEARNODE_CONFIG.requestTimeout): Promise<void> {
+    if (this.isAuthenticated) {
+      return Promise.resolve();
+    }
+
+    if (this.isCircuitOpen()) {
+      return Promise.reject(this.circuitOpenError());
     }
 
-    if (!this.messageSigner) {
-      throw new Error('Message signer not initialized');
+    if (!this.shouldReconnect) {
+      return Promise.reject(new Error('Not connected to ClearNode'));
     }
 
-    const requestId = Date.now();
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.authWaiters.delete(waiter);
+        reject(new Error('Timed out waiting for ClearNode authentication'));
+      }, timeout);
+
+      const waiter: Waiter = {
+        resolve: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+
+      this.authWaiters.add(waiter);
+    });
+  }
+
+  /**
+   * Send a request and wait for response
+   * Waits for authentication first if a reconnect is under way.
+   */
+  async sendRequest(method: string, params: any[] = []): Promise<any> {
+    if (!this.wallet) {
+      throw new Error('Service not initialized');
+    }
 
-    return new Promise(async (resolve, reject) => {
-      // Set timeout
-      const timeout = setTimeout(() => {
-        this.requestMap.delete(requestId);
-        reject(new Error(`Request timeout for ${method}`));
-      }, CLEARNODE_CONFIG.requestTimeout);
+    await this.waitUntilAuthenticated();
 
-      // Store handler
-      this.requestMap.set(requestId, {
+    return new Promise((resolve, reject) => {
+      const request: PendingRequest = {
+        requestId: 0,
+        method,
+        params,
         resolve,
         reject,
-        timeout,
-      });
+        // Covers replays: the request fails if not answered in time overall
+        timeout: setTimeout(() => {
+          this.requestMap.delete(request.requestId);
+          this.replayQueue.delete(request);
+          reject(new Error(`Request timeout for ${method}`));
+        }, CLEARNODE_CONFIG.requestTimeout),
+      };
 
-      try {
-        // Create and send request
-        const request = await createSignedRequest(this.messageSigner!, method, params);
-        this.ws?.send(request);
-        
-        logger.debug('Request sent', { method, requestId });
-      } catch (error) {
-        clearTimeout(timeout);
-        this.requestMap.delete(requestId);
-        reject(error);
-      }
+      this.dispatchRequest(request);
+    });
+  }
+
+  /**
+   * Sign and send a request under a fresh ID
+   */
+  private async dispatchRequest(request: PendingRequest) {
+    request.requestId = generateRequestId();
+    this.requestMap.set(request.requestId, request);
+
+    try {
+      let signer: MessageSigner;
+      let message: string;
+
+      // Sign again if the session key was rotated meanwhile
+      do {
+        signer = this.messageSigner!;
+        message = await createSignedRequest(signer, request.method, request.params, request.requestId);
+      } while (signer !== this.messageSigner);
+
+      // The connection dropped while signing; the request was replayed or failed
+      if (!this.requestMap.has(request.requestId)) return;
+
+      this.ws?.send(message);
+      
+      logger.debug('Request sent', { method: request.method, requestId: request.requestId });
+    } catch (error) {
+      clearTimeout(request.timeout);
+      this.requestMap.delete(request.requestId);
+      request.reject(error as Error);
+    }
+  }
+
+  /**
+   * Resend requests cut off by the last dropped connection
+   */
+  private replayRequests() {
+    if (this.replayQueue.size === 0) return;
+
+    const requests = [...this.replayQueue];
+    this.replayQueue.clear();
+
+    logger.info('Replaying requests after re-authentication', {
+      methods: requests.map((request) => request.method),
     });
+
+    for (const request of requests) {
+      this.dispatchRequest(request);
+    }
   }
 
   /**
@@ -385,6 +712,110 @@ export class ClearNodeService extends EventEmitter {
     }
   }
 
+  /**
+   * Submit a new application state
+   * ClearNode checks the signing quorum and increments the session version.
+   * `deposit` and `withdraw` change the session's totals (resize).
+   */
+  async submitAppState(
+    appSessionId: string,
+    allocations: AppAllocation[],
+    sessionData?: string,
+    intent: AppStateIntent = 'operate'
+  ): Promise<AppSessionResponse> {
+    try {
+      const params: SubmitAppStateParams = {
+        app_session_id: appSessionId,
+        // Omitted for plain updates, which every ClearNode version accepts
+        ...(intent !== 'operate' && { intent }),
+        allocations,
+        ...(sessionData && { session_data: sessionData }),
+      };
+
+      const result = await this.sendRequest(RPCMethod.SubmitAppState, [params]);
+      const response: AppSessionResponse = result[0] || result;
+
+      logger.info('Application state submitted', {
+        app_session_id: appSessionId,
+        intent,
+        version: response.version,
+      });
+
+      return response;
+    } catch (error) {
+      logger.error('Failed to submit application state', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close an application session with its final allocations
+   * Funds are released to the participants' unified balances
+   */
+  async closeAppSession(
+    appSessionId: string,
+    allocations: AppAllocation[],
+    sessionData?: string
+  ): Promise<AppSessionResponse> {
+    try {
+      const params: CloseAppSessionParams = {
+        app_session_id: appSessionId,
+        allocations,
+        ...(sessionData && { session_data: sessionData }),
+      };
+
+      const result = await this.sendRequest(RPCMethod.CloseAppSession, [params]);
+      const response: AppSessionResponse = result[0] || result;
+
+      logger.info('Application session closed', {
+        app_session_id: appSessionId,
+        status: response.status,
+      });
+
+      return response;
+    } catch (error) {
+      logger.error('Failed to close application session', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get application sessions, by default those of this participant
+   */
+  async getAppSessions(status?: AppSessionStatus, participant?: Address): Promise<AppSessionInfo[]> {
+    try {
+      const params: GetAppSessionsParams = {
+        participant: participant ?? this.authParams?.address,
+        ...(status && { status }),
+      };
+
+      const result = await this.sendRequest(RPCMethod.GetAppSessions, [params]);
+
+      // Older ClearNodes return the list itself, newer ones { app_sessions }
+      const sessions = result?.[0]?.app_sessions ?? result;
+      return Array.isArray(sessions) ? sessions : [];
+    } catch (error) {
+      logger.error('Failed to get application sessions', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the definition an application session was created with
+   */
+  async getAppDefinition(appSessionId: string): Promise<AppDefinition> {
+    try {
+      const result = await this.sendRequest(RPCMethod.GetAppDefinition, [
+        { app_session_id: appSessionId },
+      ]);
+
+      return result[0] || result;
+    } catch (error) {
+      logger.error('Failed to get application definition', error);
+      throw error;
+    }
+  }
+
   /**
    * Get channels
    */
@@ -418,50 +849,347 @@ export class ClearNodeService extends EventEmitter {
   }
 
   /**
-   * Attempt to reconnect
+   * Set where session key allowances come from
+   */
+  setAllowanceProvider(provider: AllowanceProvider) {
+    this.allowanceProvider = provider;
+  }
+
+  /**
+   * Re-read allowances and rotate the session key if any of them grew
+   */
+  async refreshAllowances(): Promise<void> {
+    if (!this.isAuthenticated) return;
+
+    const allowances = await this.loadAllowances();
+    const current = new Map(
+      (this.authParams?.allowances ?? []).map((allowance) => [allowance.asset, BigInt(allowance.amount)])
+    );
+
+    if (allowances.some((allowance) => BigInt(allowance.amount) > (current.get(allowance.asset) ?? 0n))) {
+      await this.rotateSessionKey();
+    }
+  }
+
+  /**
+   * Re-authenticate the open connection with a new session key
+   * Requests already sent finish under the old key; later ones are signed
+   * with the new key from the moment auth_verify is sent.
+   */
+  async rotateSessionKey(): Promise<void> {
+    // The next connection authenticates with a new key anyway
+    if (!this.isAuthenticated || !this.ws) return;
+
+    if (this.rotation) return this.rotation;
+
+    logger.info('Rotating session key', { sessionKey: this.authParams?.sessionKey });
+
+    this.rotation = new Promise<void>((resolve, reject) => {
+      this.pendingConnect = { resolve, reject };
+
+      this.connectionTimeout = setTimeout(() => {
+        this.connectionTimeout = null;
+        if (this.pendingConnect) {
+          this.failConnection(new Error('Session key rotation timeout'));
+        }
+      }, CLEARNODE_CONFIG.connectionTimeout);
+
+      this.startAuthentication().catch((error) => this.failConnection(error));
+    }).finally(() => {
+      this.rotation = null;
+    });
+
+    return this.rotation;
+  }
+
+  /**
+   * Generate a session key with the current allowances
+   */
+  private async createSessionKey(): Promise<SessionKey> {
+    const wallet = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+
+    return {
+      wallet,
+      signer: createMessageSigner(wallet),
+      expiresAt: Math.floor(Date.now() / 1000) + CLEARNODE_CONFIG.sessionExpiration,
+      allowances: await this.loadAllowances(),
+    };
+  }
+
+  private async loadAllowances(): Promise<Allowance[]> {
+    if (!this.allowanceProvider) return [];
+
+    try {
+      return await this.allowanceProvider();
+    } catch (error) {
+      logger.warn('Failed to load session allowances; keeping the current ones', error);
+      return this.authParams?.allowances ?? [];
+    }
+  }
+
+  /**
+   * Rotate the session key shortly before it expires
    */
-  private attemptReconnect() {
-    if (this.reconnectAttempts >= CLEARNODE_CONFIG.maxReconnectAttempts) {
-      logger.error('Maximum reconnection attempts reached');
+  private scheduleRotation() {
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+    }
+
+    const rotateAt = (this.authParams!.expiresAt! - CLEARNODE_CONFIG.sessionRotationMargin) * 1000;
+
+    this.rotationTimer = setTimeout(() => {
+      this.rotationTimer = null;
+      this.rotateSessionKey().catch((error) => {
+        logger.error('Session key rotation failed', error);
+      });
+    }, Math.max(0, rotateAt - Date.now()));
+  }
+
+  /**
+   * Keep signing with the current session key until it expires
+   * The rotation is retried meanwhile; once the key has expired the
+   * connection is dropped and reconnects with a fresh one.
+   */
+  private failRotation(error: Error) {
+    if (this.rotatedFrom) {
+      this.messageSigner = this.rotatedFrom.signer;
+      this.authParams = this.rotatedFrom.authParams;
+      this.rotatedFrom = null;
+    }
+
+    this.pendingSession = null;
+    this.authRequestIds.clear();
+
+    if (this.connectionTimeout) {
+      clearTimeout(this.connectionTimeout);
+      this.connectionTimeout = null;
+    }
+
+    this.pendingConnect?.reject(error);
+    this.pendingConnect = null;
+
+    const expiresAt = this.authParams!.expiresAt! * 1000;
+
+    logger.warn('Session key rotation failed; keeping the current key', {
+      error: error.message,
+      expiresAt: new Date(expiresAt).toISOString(),
+    });
+
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+    }
+
+    this.rotationTimer = setTimeout(() => {
+      this.rotationTimer = null;
+
+      if (expiresAt <= Date.now()) {
+        logger.error('Session key expired before it could be rotated');
+        this.ws?.terminate();
+        return;
+      }
+
+      this.rotateSessionKey().catch((error) => {
+        logger.error('Session key rotation failed', error);
+      });
+    }, Math.max(0, Math.min(CLEARNODE_CONFIG.reconnectInterval, expiresAt - Date.now())));
+  }
+
+  /**
+   * Settle everything tied to a lost connection and schedule a reconnect
+   */
+  private handleConnectionLost(error: Error) {
+    const wasAuthenticated = this.isAuthenticated;
+
+    this.isAuthenticated = false;
+    this.connectionStatus = ConnectionStatus.Disconnected;
+    this.authRequestIds.clear();
+    this.pendingSession = null;
+    this.rotatedFrom = null;
+
+    if (this.connectionTimeout) {
+      clearTimeout(this.connectionTimeout);
+      this.connectionTimeout = null;
+    }
+
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+
+    this.pendingConnect?.reject(error);
+    this.pendingConnect = null;
+
+    // Reads are replayed once re-authenticated; anything else may have been
+    // applied by ClearNode, so the caller has to find out
+    for (const request of this.requestMap.values()) {
+      if (REPLAYABLE_METHODS.has(request.method)) {
+        this.replayQueue.add(request);
+      } else {
+        clearTimeout(request.timeout);
+        request.reject(new Error(`Connection lost before ${request.method} was answered`));
+      }
+    }
+    this.requestMap.clear();
+
+    if (!wasAuthenticated) {
+      this.recordFailure(error);
+    }
+
+    if (this.shouldReconnect) {
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Count a failed connection attempt, opening the circuit at the threshold
+   * While half-open after a cooldown, a single failure opens it again.
+   */
+  private recordFailure(error: Error) {
+    this.consecutiveFailures++;
+
+    if (this.consecutiveFailures < CLEARNODE_CONFIG.circuitBreakerThreshold) {
       return;
     }
 
-    this.reconnectAttempts++;
-    const delay = CLEARNODE_CONFIG.reconnectInterval * 
-      Math.pow(CLEARNODE_CONFIG.reconnectBackoffMultiplier, this.reconnectAttempts - 1);
+    const wasOpen = this.circuitOpenUntil !== null;
+    this.circuitOpenUntil = Date.now() + CLEARNODE_CONFIG.circuitBreakerCooldown;
+
+    logger.error('ClearNode circuit open', {
+      failures: this.consecutiveFailures,
+      until: new Date(this.circuitOpenUntil).toISOString(),
+      error: error.message,
+    });
+
+    if (!wasOpen) {
+      this.emit('circuitOpen', new Date(this.circuitOpenUntil));
+    }
+
+    // Fail fast rather than hold callers through the cooldown
+    const circuitError = this.circuitOpenError();
+
+    for (const waiter of this.authWaiters) {
+      waiter.reject(circuitError);
+    }
+    this.authWaiters.clear();
+
+    for (const request of this.replayQueue) {
+      clearTimeout(request.timeout);
+      request.reject(circuitError);
+    }
+    this.replayQueue.clear();
+  }
+
+  /**
+   * Schedule the next connection attempt
+   * Exponential backoff with equal jitter, so several instances do not
+   * reconnect in lockstep; while the circuit is open, wait out the cooldown.
+   */
+  private scheduleReconnect() {
+    if (this.reconnectTimer) return;
+
+    let delay: number;
+
+    if (this.isCircuitOpen()) {
+      delay = this.circuitOpenUntil! - Date.now();
+    } else {
+      const backoff = Math.min(
+        CLEARNODE_CONFIG.maxReconnectDelay,
+        CLEARNODE_CONFIG.reconnectInterval *
+          Math.pow(CLEARNODE_CONFIG.reconnectBackoffMultiplier, Math.max(0, this.consecutiveFailures - 1))
+      );
+      delay = backoff / 2 + Math.random() * (backoff / 2);
+    }
+
+    const attempt = this.consecutiveFailures + 1;
 
     logger.info('Attempting to reconnect', {
-      attempt: this.reconnectAttempts,
-      delay,
+      attempt,
+      delay: Math.round(delay),
     });
 
-    this.emit('reconnecting', this.reconnectAttempts);
+    this.emit('reconnecting', attempt);
 
-    setTimeout(() => {
-      this.connect().catch(error => {
-        logger.error(`Reconnection attempt ${this.reconnectAttempts} failed`, error);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openConnection().catch(error => {
+        logger.error(`Reconnection attempt ${attempt} failed`, error);
       });
     }, delay);
   }
 
+  private isCircuitOpen(): boolean {
+    return this.circuitOpenUntil !== null && this.circuitOpenUntil > Date.now();
+  }
+
+  private circuitOpenError(): Error {
+    return new Error(
+      `ClearNode unavailable after ${this.consecutiveFailures} failed connection attempts; ` +
+      `retrying at ${new Date(this.circuitOpenUntil!).toISOString()}`
+    );
+  }
+
+  /**
+   * Emit an error event only when someone listens
+   * EventEmitter throws on unhandled 'error' events, which would take the
+   * process down from a background reconnect.
+   */
+  private emitError(error: Error) {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+
   /**
    * Disconnect from ClearNode
    */
   disconnect() {
-    if (this.ws) {
-      // Clear all pending requests
-      for (const [requestId, handler] of this.requestMap.entries()) {
-        clearTimeout(handler.timeout);
-        handler.reject(new Error('Connection closed'));
-        this.requestMap.delete(requestId);
-      }
+    this.shouldReconnect = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.connectionTimeout) {
+      clearTimeout(this.connectionTimeout);
+      this.connectionTimeout = null;
+    }
 
-      this.ws.close(1000, 'User initiated disconnect');
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+
+    const error = new Error('Connection closed');
+
+    this.pendingConnect?.reject(error);
+    this.pendingConnect = null;
+
+    // Clear all pending requests
+    for (const request of [...this.requestMap.values(), ...this.replayQueue]) {
+      clearTimeout(request.timeout);
+      request.reject(error);
+    }
+    this.requestMap.clear();
+    this.replayQueue.clear();
+
+    for (const waiter of this.authWaiters) {
+      waiter.reject(error);
+    }
+    this.authWaiters.clear();
+
+    if (this.ws) {
+      const ws = this.ws;
       this.ws = null;
+      ws.close(1000, 'User initiated disconnect');
+      this.emit('disconnected', { code: 1000, reason: 'User initiated disconnect' });
     }
 
     this.isAuthenticated = false;
     this.connectionStatus = ConnectionStatus.Disconnected;
+    this.authRequestIds.clear();
+    this.pendingSession = null;
+    this.rotatedFrom = null;
   }
 
   /**
@@ -471,11 +1199,17 @@ export class ClearNodeService extends EventEmitter {
     status: ConnectionStatus;
     authenticated: boolean;
     address: Address | null;
+    sessionKey: Address | null;
+    sessionExpiresAt: Date | null;
+    circuitOpenUntil: Date | null;
   } {
     return {
       status: this.connectionStatus,
       authenticated: this.isAuthenticated,
       address: this.authParams?.address || null,
+      sessionKey: this.authParams?.sessionKey || null,
+      sessionExpiresAt: this.authParams?.expiresAt ? new Date(this.authParams.expiresAt * 1000) : null,
+      circuitOpenUntil: this.isCircuitOpen() ? new Date(this.circuitOpenUntil!) : null,
     };
   }
 }
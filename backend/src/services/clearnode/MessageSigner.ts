@@ -88,9 +88,9 @@ export async function createAuthRequestMessage(
   application: string,
   expiresAt: number,
   scope: string = 'console',
-  allowances: Allowance[] = []
+  allowances: Allowance[] = [],
+  requestId: number = generateRequestId()
 ): Promise<string> {
-  const requestId = Date.now();
   const timestamp = Math.floor(Date.now() / 1000);
   
   const params = {
@@ -116,6 +116,8 @@ export async function createAuthRequestMessage(
 
 /**
  * Helper to create auth verify message
+ * The wallet signs the EIP-712 policy; `requestSigner` (by default the
+ * wallet too) signs the request envelope.
  */
 export async function createAuthVerifyMessage(
   wallet: ethers.Wallet,
@@ -125,9 +127,10 @@ export async function createAuthVerifyMessage(
   walletAddress: Address,
   sessionKey: Address,
   expiresAt: number,
-  allowances: Allowance[] = []
+  allowances: Allowance[] = [],
+  requestId: number = generateRequestId(),
+  requestSigner: MessageSigner = createMessageSigner(wallet)
 ): Promise<string> {
-  const requestId = Date.now();
   const timestamp = Math.floor(Date.now() / 1000);
 
   // Create EIP-712 policy message
@@ -143,9 +146,6 @@ export async function createAuthVerifyMessage(
   // Sign with EIP-712
   const eip712Signature = await signEIP712AuthMessage(wallet, domain, policyMessage);
 
-  // Create message signer for the request
-  const messageSigner = createMessageSigner(wallet);
-
   const params = {
     signature: eip712Signature,
     challengeMessage: challenge,
@@ -155,7 +155,7 @@ export async function createAuthVerifyMessage(
     req: [requestId, 'auth_verify', [params], timestamp],
   };
 
-  const signature = await messageSigner(request);
+  const signature = await requestSigner(request);
 
   return JSON.stringify({
     req: request.req,
@@ -169,9 +169,9 @@ export async function createAuthVerifyMessage(
 export async function createSignedRequest(
   signer: MessageSigner,
   method: string,
-  params: any[] = []
+  params: any[] = [],
+  requestId: number = generateRequestId()
 ): Promise<string> {
-  const requestId = Date.now();
   const timestamp = Math.floor(Date.now() / 1000);
 
   const request: RequestData = {
@@ -186,11 +186,16 @@ export async function createSignedRequest(
   });
 }
 
+// Last request ID handed out in this process
+let lastRequestId = 0;
+
 /**
  * Generate unique request ID
+ * Strictly increasing; starts from the clock so IDs stay unique across restarts
  */
 export function generateRequestId(): number {
-  return Date.now();
+  lastRequestId = Math.max(lastRequestId + 1, Date.now());
+  return lastRequestId;
 }
 
 /**
@@ -0,0 +1,508 @@
+/**
+ * Mock ClearNode Server
+ * Local WebSocket stand-in for ClearNode, for running the lock/settle flow
+ * offline and in CI. Speaks the same RPC envelope as ClearNodeService,
+ * verifies request signatures and the EIP-712 auth policy, keeps balances
+ * in an in-memory ledger, pushes balance, channel and app session
+ * notifications, and can be scripted to time out, fail or drop the
+ * connection on chosen requests.
+ *
+ * App state quorum is not checked: the backend submits states as the
+ * session operator with a single signature.
+ */
+import { randomBytes, randomUUID } from 'crypto';
+import { ethers } from 'ethers';
+import WebSocket, { WebSocketServer } from 'ws';
+import { type Address } from 'viem';
+import { createModuleLogger } from '../../../utils/logger';
+import { CLEARNODE_CONFIG } from '../../../config/clearnode';
+import { createMessageSigner } from '../MessageSigner';
+import {
+  RPCMethod,
+  type AuthRequestParams,
+  type AuthVerifyParams,
+  type CreateAppSessionParams,
+  type CloseAppSessionParams,
+  type EIP712Domain,
+  type GetAppSessionsParams,
+  type MessageSigner,
+  type RPCRequest,
+  type SubmitAppStateParams,
+} from '../types';
+import { LedgerError, MockLedger, type MockLedgerOptions } from './MockLedger';
+
+const logger = createModuleLogger('mockClearNode');
+
+// Requests after which the session is announced with an asu notification
+const SESSION_METHODS = new Set<string>([
+  RPCMethod.CreateAppSession,
+  RPCMethod.SubmitAppState,
+  RPCMethod.CloseAppSession,
+]);
+
+const POLICY_TYPES = {
+  Policy: [
+    { name: 'challenge', type: 'string' },
+    { name: 'scope', type: 'string' },
+    { name: 'wallet', type: 'address' },
+    { name: 'session_key', type: 'address' },
+    { name: 'expires_at', type: 'uint64' },
+    { name: 'allowances', type: 'Allowance[]' },
+  ],
+  Allowance: [
+    { name: 'asset', type: 'string' },
+    { name: 'amount', type: 'string' },
+  ],
+};
+
+export type FaultKind = 'timeout' | 'error' | 'disconnect';
+
+/**
+ * A scripted failure
+ * `timeout` never answers the request, `error` answers with an RPC error
+ * and `disconnect` drops the connection when the request arrives.
+ */
+export interface Fault {
+  kind: FaultKind;
+  method?: string; // Every method when omitted
+  after?: number; // Let this many matching requests through first
+  times?: number; // Matching requests affected (default 1, Infinity for all)
+  code?: string; // RPC error code for `error`
+  message?: string;
+}
+
+export interface MockClearNodeOptions {
+  port?: number; // 0 picks a free port
+  host?: string;
+  brokerPrivateKey?: string; // Signs responses; random when omitted
+  eip712Domain?: EIP712Domain; // Must match the client's CLEARNODE_DOMAIN_NAME
+  ledger?: MockLedgerOptions;
+  faults?: Fault[];
+}
+
+interface Connection {
+  challenge: string | null;
+  pendingAuth: AuthRequestParams | null;
+  wallet: Address | null;
+  sessionKey: Address | null;
+}
+
+class RPCFailure extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'RPCFailure';
+  }
+}
+
+/**
+ * Mock ClearNode WebSocket server
+ */
+export class MockClearNodeServer {
+  readonly ledger: MockLedger;
+  private wss: WebSocketServer | null = null;
+  private connections = new Map<WebSocket, Connection>();
+  private faults: (Fault & { after: number; times: number })[] = [];
+  private broker: ethers.Wallet;
+  private signer: MessageSigner;
+  private domain: EIP712Domain;
+  private options: MockClearNodeOptions;
+
+  constructor(options: MockClearNodeOptions = {}) {
+    this.options = options;
+    this.ledger = new MockLedger(options.ledger);
+    this.broker = options.brokerPrivateKey
+      ? new ethers.Wallet(options.brokerPrivateKey)
+      : new ethers.Wallet(ethers.hexlify(randomBytes(32)));
+    this.signer = createMessageSigner(this.broker);
+    this.domain = options.eip712Domain ?? CLEARNODE_CONFIG.eip712Domain;
+
+    for (const fault of options.faults ?? []) {
+      this.injectFault(fault);
+    }
+  }
+
+  /**
+   * Start listening; resolves with the WebSocket URL
+   */
+  async start(): Promise<string> {
+    if (this.wss) {
+      return this.url;
+    }
+
+    const wss = new WebSocketServer({
+      port: this.options.port ?? 8765,
+      host: this.options.host ?? '127.0.0.1',
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      wss.once('listening', resolve);
+      wss.once('error', reject);
+    });
+
+    wss.on('connection', (ws) => this.handleConnection(ws));
+    this.wss = wss;
+
+    logger.info('Mock ClearNode listening', { url: this.url, broker: this.broker.address });
+    return this.url;
+  }
+
+  /**
+   * Close every connection and stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.wss) return;
+
+    const wss = this.wss;
+    this.wss = null;
+
+    for (const ws of this.connections.keys()) {
+      ws.terminate();
+    }
+    this.connections.clear();
+
+    await new Promise<void>((resolve) => wss.close(() => resolve()));
+    logger.info('Mock ClearNode stopped');
+  }
+
+  get url(): string {
+    if (!this.wss) {
+      throw new Error('Mock ClearNode not started');
+    }
+
+    const address = this.wss.address();
+    if (typeof address === 'string') return address;
+    return `ws://${address.address}:${address.port}`;
+  }
+
+  get brokerAddress(): Address {
+    return this.broker.address as Address;
+  }
+
+  /**
+   * Fail upcoming requests as described by `fault`
+   */
+  injectFault(fault: Fault) {
+    this.faults.push({ after: 0, times: 1, ...fault });
+  }
+
+  clearFaults() {
+    this.faults.length = 0;
+  }
+
+  /**
+   * Drop every client connection, as a ClearNode restart would
+   */
+  disconnectAll() {
+    for (const ws of this.connections.keys()) {
+      ws.terminate();
+    }
+  }
+
+  /**
+   * Push a notification to every authenticated connection, or only to
+   * those of `wallet`
+   */
+  async notify(method: string, payload: unknown, wallet?: Address) {
+    for (const [ws, connection] of this.connections) {
+      if (!connection.wallet) continue;
+      if (wallet && connection.wallet.toLowerCase() !== wallet.toLowerCase()) continue;
+
+      await this.sendResult(ws, 0, method, [payload]);
+    }
+  }
+
+  /**
+   * Deposit for a participant, notifying their connections
+   */
+  async fund(participant: Address, asset: string, amount: string) {
+    const channel = this.ledger.fund(participant, asset, amount);
+
+    await this.notify(RPCMethod.ChannelUpdate, channel, participant);
+    await this.notifyBalances([participant]);
+
+    return channel;
+  }
+
+  /**
+   * Number of open client connections
+   */
+  get connectionCount() {
+    return this.connections.size;
+  }
+
+  private handleConnection(ws: WebSocket) {
+    this.connections.set(ws, { challenge: null, pendingAuth: null, wallet: null, sessionKey: null });
+
+    ws.on('message', (data) => {
+      this.handleMessage(ws, data.toString()).catch((error) => {
+        logger.error('Mock ClearNode failed to handle message', error);
+      });
+    });
+
+    ws.on('close', () => {
+      this.connections.delete(ws);
+    });
+  }
+
+  private async handleMessage(ws: WebSocket, raw: string) {
+    let request: RPCRequest;
+
+    try {
+      request = JSON.parse(raw);
+    } catch {
+      this.sendError(ws, 0, 'invalid_message', 'Message is not JSON');
+      return;
+    }
+
+    if (!Array.isArray(request?.req) || request.req.length !== 4 || !Array.isArray(request.sig)) {
+      this.sendError(ws, 0, 'invalid_message', 'Expected { req: [id, method, params, timestamp], sig: [signature] }');
+      return;
+    }
+
+    const [requestId, method, params] = request.req;
+
+    const fault = this.takeFault(method);
+    if (fault) {
+      logger.info('Injecting fault', { method, requestId, kind: fault.kind });
+
+      switch (fault.kind) {
+        case 'timeout':
+          return;
+        case 'disconnect':
+          ws.terminate();
+          return;
+        case 'error':
+          this.sendError(ws, requestId, fault.code ?? 'injected_fault', fault.message ?? `Injected failure for ${method}`);
+          return;
+      }
+    }
+
+    try {
+      const connection = this.connections.get(ws)!;
+      const signer = this.recoverSigner(request);
+      const result = await this.dispatch(connection, signer, method, params?.[0] ?? {});
+
+      // Auth challenges are sent under their own method name
+      const responseMethod = method === RPCMethod.AuthRequest ? RPCMethod.AuthChallenge : method;
+      await this.sendResult(ws, requestId, responseMethod, result);
+
+      // Changed sessions are announced after the response
+      if (SESSION_METHODS.has(method)) {
+        const resized = (params?.[0]?.intent ?? 'operate') !== 'operate';
+        await this.notifySession(result[0].app_session_id, method !== RPCMethod.SubmitAppState || resized);
+      }
+    } catch (error) {
+      if (error instanceof RPCFailure) {
+        this.sendError(ws, requestId, error.code, error.message);
+      } else if (error instanceof LedgerError) {
+        this.sendError(ws, requestId, 'invalid_request', error.message);
+      } else {
+        logger.error('Mock ClearNode request failed', { method, error });
+        this.sendError(ws, requestId, 'internal_error', 'Internal error');
+      }
+    }
+  }
+
+  private async dispatch(connection: Connection, signer: Address | null, method: string, params: any): Promise<any[]> {
+    if (method === RPCMethod.AuthRequest) {
+      return [this.authRequest(connection, signer, params)];
+    }
+
+    if (method === RPCMethod.AuthVerify) {
+      return [this.authVerify(connection, params)];
+    }
+
+    if (!connection.wallet) {
+      throw new RPCFailure('unauthorized', 'Authentication required');
+    }
+
+    if (!signer || (signer !== connection.sessionKey && signer !== connection.wallet)) {
+      throw new RPCFailure('invalid_signature', 'Request not signed by the session key');
+    }
+
+    switch (method) {
+      case RPCMethod.GetConfig:
+        return [{ broker_address: this.brokerAddress, networks: [] }];
+
+      case RPCMethod.CreateAppSession: {
+        const { definition, allocations } = params as CreateAppSessionParams;
+        const session = this.ledger.createAppSession(definition, allocations ?? []);
+        return [{ app_session_id: session.id, status: session.status, version: session.version }];
+      }
+
+      case RPCMethod.SubmitAppState: {
+        const { app_session_id, allocations, session_data, intent } = params as SubmitAppStateParams;
+        const session = this.ledger.submitAppState(app_session_id, allocations ?? [], session_data, intent);
+        return [{ app_session_id: session.id, status: session.status, version: session.version }];
+      }
+
+      case RPCMethod.CloseAppSession: {
+        const { app_session_id, allocations, session_data } = params as CloseAppSessionParams;
+        const session = this.ledger.closeAppSession(app_session_id, allocations ?? [], session_data);
+        return [{ app_session_id: session.id, status: session.status, version: session.version }];
+      }
+
+      case RPCMethod.GetAppSessions: {
+        const { participant, status } = params as GetAppSessionsParams;
+        return [{ app_sessions: this.ledger.getAppSessions(participant, status) }];
+      }
+
+      case RPCMethod.GetAppDefinition:
+        return [this.ledger.getAppSession(params.app_session_id).definition];
+
+      case RPCMethod.GetChannels:
+        return [this.ledger.getChannels(params.participant)];
+
+      case RPCMethod.GetLedgerBalances:
+        return [this.ledger.getBalances(params.channel_id ?? params.account_id ?? connection.wallet)];
+
+      default:
+        throw new RPCFailure('method_not_found', `Unknown method: ${method}`);
+    }
+  }
+
+  /**
+   * Remember the requested policy and hand out a single-use challenge
+   */
+  private authRequest(connection: Connection, signer: Address | null, params: AuthRequestParams) {
+    if (!ethers.isAddress(params.address) || !ethers.isAddress(params.session_key)) {
+      throw new RPCFailure('invalid_params', 'address and session_key must be addresses');
+    }
+
+    if (!signer || (signer !== ethers.getAddress(params.address) && signer !== ethers.getAddress(params.session_key))) {
+      throw new RPCFailure('invalid_signature', 'auth_request not signed by the wallet or session key');
+    }
+
+    if (Number(params.expires_at) <= Math.floor(Date.now() / 1000)) {
+      throw new RPCFailure('invalid_params', 'expires_at is in the past');
+    }
+
+    connection.pendingAuth = params;
+    connection.challenge = randomUUID();
+
+    return { challengeMessage: connection.challenge };
+  }
+
+  /**
+   * Check the EIP-712 Policy signature against the pending challenge
+   */
+  private authVerify(connection: Connection, params: AuthVerifyParams) {
+    const pending = connection.pendingAuth;
+
+    if (!pending || !connection.challenge || params.challengeMessage !== connection.challenge) {
+      throw new RPCFailure('unauthorized', 'Unknown or expired challenge');
+    }
+
+    // The challenge is single use, whatever the outcome
+    connection.challenge = null;
+    connection.pendingAuth = null;
+
+    const policy = {
+      challenge: params.challengeMessage,
+      scope: pending.scope,
+      wallet: pending.address,
+      session_key: pending.session_key,
+      expires_at: Number(pending.expires_at),
+      allowances: pending.allowances ?? [],
+    };
+
+    let recovered: string;
+    try {
+      recovered = ethers.verifyTypedData(this.domain, POLICY_TYPES, policy, params.signature);
+    } catch {
+      throw new RPCFailure('unauthorized', 'Malformed policy signature');
+    }
+
+    if (recovered !== ethers.getAddress(pending.address)) {
+      throw new RPCFailure('unauthorized', 'Policy not signed by the wallet');
+    }
+
+    connection.wallet = ethers.getAddress(pending.address) as Address;
+    connection.sessionKey = ethers.getAddress(pending.session_key) as Address;
+
+    logger.info('Mock ClearNode client authenticated', { wallet: connection.wallet });
+
+    return {
+      success: true,
+      address: connection.wallet,
+      session_key: connection.sessionKey,
+      jwtToken: ethers.hexlify(randomBytes(32)),
+    };
+  }
+
+  /**
+   * Announce a session to every operator, and the participants' balances
+   * when funds moved in or out of it
+   */
+  private async notifySession(sessionId: string, balancesMoved: boolean) {
+    const session = this.ledger.getAppSession(sessionId);
+
+    await this.notify(RPCMethod.AppSessionUpdate, {
+      app_session: this.ledger.getAppSessionInfo(sessionId),
+      participant_allocations: session.allocations,
+    });
+
+    if (balancesMoved) {
+      await this.notifyBalances(session.definition.participants);
+    }
+  }
+
+  private async notifyBalances(participants: Address[]) {
+    for (const participant of new Set(participants.map((address) => address.toLowerCase()))) {
+      await this.notify(
+        RPCMethod.BalanceUpdate,
+        {
+          balance_updates: this.ledger
+            .getBalances(participant)
+            .map((balance) => ({ asset: balance.asset, amount: balance.balance })),
+        },
+        participant as Address
+      );
+    }
+  }
+
+  /**
+   * Address that signed the request payload, as ClearNodeService signs it
+   */
+  private recoverSigner(request: RPCRequest): Address | null {
+    try {
+      const digest = ethers.id(JSON.stringify({ req: request.req }));
+      return ethers.recoverAddress(digest, request.sig[0]) as Address;
+    } catch {
+      return null;
+    }
+  }
+
+  private takeFault(method: string): Fault | null {
+    const index = this.faults.findIndex((fault) => !fault.method || fault.method === method);
+    if (index === -1) return null;
+
+    const fault = this.faults[index];
+    if (fault.after > 0) {
+      fault.after--;
+      return null;
+    }
+
+    if (--fault.times <= 0) {
+      this.faults.splice(index, 1);
+    }
+
+    return fault;
+  }
+
+  private async sendResult(ws: WebSocket, requestId: number, method: string, result: any[]) {
+    const res: [number, string, any[], number] = [requestId, method, result, Math.floor(Date.now() / 1000)];
+    const signature = await this.signer({ res });
+    this.send(ws, { res, sig: [signature] });
+  }
+
+  private sendError(ws: WebSocket, requestId: number, code: string, message: string) {
+    this.send(ws, { err: [requestId, code, message, Math.floor(Date.now() / 1000)] });
+  }
+
+  private send(ws: WebSocket, message: unknown) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+}
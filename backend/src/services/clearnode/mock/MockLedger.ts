@@ -0,0 +1,381 @@
+/**
+ * Mock Ledger
+ * In-memory unified balances, channels and app sessions for the mock ClearNode
+ */
+import { randomBytes } from 'crypto';
+import { ethers } from 'ethers';
+import { type Address } from 'viem';
+import type {
+  AppAllocation,
+  AppDefinition,
+  AppStateIntent,
+  AppSessionInfo,
+  AppSessionStatus,
+  ChannelInfo,
+  LedgerBalance,
+} from '../types';
+
+// Amounts are kept at a fixed 18-decimal scale so both base-unit integers
+// and decimal strings can be allocated
+const SCALE = 18;
+
+/**
+ * Error returned to the client as an RPC error
+ */
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+export interface MockAppSession {
+  id: string;
+  definition: AppDefinition;
+  status: AppSessionStatus;
+  version: number;
+  sessionData?: string;
+  allocations: AppAllocation[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MockLedgerOptions {
+  // Credit participants the shortfall when they fund a session
+  autoFund?: boolean;
+  chainId?: number;
+  adjudicator?: Address;
+}
+
+function parseAmount(amount: string): bigint {
+  try {
+    const value = ethers.parseUnits(amount, SCALE);
+    if (value < 0n) throw new Error();
+    return value;
+  } catch {
+    throw new LedgerError(`Invalid amount: ${amount}`);
+  }
+}
+
+function formatAmount(value: bigint): string {
+  const formatted = ethers.formatUnits(value, SCALE);
+  return formatted.endsWith('.0') ? formatted.slice(0, -2) : formatted;
+}
+
+function totalsByAsset(allocations: AppAllocation[]): Map<string, bigint> {
+  const totals = new Map<string, bigint>();
+  for (const allocation of allocations) {
+    totals.set(allocation.asset, (totals.get(allocation.asset) ?? 0n) + parseAmount(allocation.amount));
+  }
+  return totals;
+}
+
+/**
+ * In-memory ledger
+ * Accounts are lowercased wallet addresses or app session IDs.
+ */
+export class MockLedger {
+  private balances = new Map<string, Map<string, bigint>>();
+  private channels = new Map<string, ChannelInfo>();
+  private sessions = new Map<string, MockAppSession>();
+  private options: Required<MockLedgerOptions>;
+
+  constructor(options: MockLedgerOptions = {}) {
+    this.options = {
+      autoFund: options.autoFund ?? true,
+      chainId: options.chainId ?? 114,
+      adjudicator: options.adjudicator ?? ethers.ZeroAddress as Address,
+    };
+  }
+
+  /**
+   * Deposit into a participant's unified balance through a ledger channel
+   */
+  fund(participant: Address, asset: string, amount: string): ChannelInfo {
+    const value = parseAmount(amount);
+    this.credit(participant.toLowerCase(), asset, value);
+
+    const existing = [...this.channels.values()].find(
+      (channel) => channel.participant.toLowerCase() === participant.toLowerCase() && channel.token === asset
+    );
+    const now = new Date().toISOString();
+
+    if (existing) {
+      existing.amount = formatAmount(parseAmount(existing.amount) + value);
+      existing.version++;
+      existing.updated_at = now;
+      return existing;
+    }
+
+    const channel: ChannelInfo = {
+      channel_id: ethers.hexlify(randomBytes(32)),
+      participant,
+      status: 'open',
+      token: asset as Address,
+      amount: formatAmount(value),
+      chain_id: this.options.chainId,
+      adjudicator: this.options.adjudicator,
+      challenge: 3600,
+      nonce: Date.now(),
+      version: 1,
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.channels.set(channel.channel_id, channel);
+    return channel;
+  }
+
+  getChannels(participant?: Address): ChannelInfo[] {
+    return [...this.channels.values()].filter(
+      (channel) => !participant || channel.participant.toLowerCase() === participant.toLowerCase()
+    );
+  }
+
+  /**
+   * Balances of a wallet, app session or ledger channel (its participant)
+   */
+  getBalances(account: string): LedgerBalance[] {
+    const channel = this.channels.get(account);
+    const key = channel ? channel.participant.toLowerCase() : account.toLowerCase();
+    const session = this.sessions.get(account);
+
+    if (session) {
+      return [...totalsByAsset(session.allocations)].map(([asset, balance]) => ({
+        participant: account as Address,
+        asset,
+        balance: formatAmount(balance),
+      }));
+    }
+
+    return [...(this.balances.get(key) ?? new Map<string, bigint>())].map(([asset, balance]) => ({
+      participant: (channel?.participant ?? account) as Address,
+      asset,
+      balance: formatAmount(balance),
+    }));
+  }
+
+  /**
+   * Move the initial allocations from unified balances into a new session
+   */
+  createAppSession(definition: AppDefinition, allocations: AppAllocation[]): MockAppSession {
+    if (!definition?.participants?.length) {
+      throw new LedgerError('App definition has no participants');
+    }
+
+    if (definition.weights.length !== definition.participants.length) {
+      throw new LedgerError('App definition needs one weight per participant');
+    }
+
+    const totalWeight = definition.weights.reduce((sum, weight) => sum + weight, 0);
+    if (definition.quorum > totalWeight) {
+      throw new LedgerError(`Quorum ${definition.quorum} exceeds total weight ${totalWeight}`);
+    }
+
+    this.assertParticipants(definition, allocations);
+
+    for (const allocation of allocations) {
+      const account = allocation.participant.toLowerCase();
+      const amount = parseAmount(allocation.amount);
+      const shortfall = amount - this.balanceOf(account, allocation.asset);
+
+      if (shortfall > 0n) {
+        if (!this.options.autoFund) {
+          throw new LedgerError(`Insufficient ${allocation.asset} balance for ${allocation.participant}`);
+        }
+        this.fund(allocation.participant, allocation.asset, formatAmount(shortfall));
+      }
+
+      this.credit(account, allocation.asset, -amount);
+    }
+
+    const now = new Date();
+    const session: MockAppSession = {
+      id: ethers.hexlify(randomBytes(32)),
+      definition,
+      status: 'open',
+      version: 1,
+      allocations,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Replace a session's allocations
+   * Operate keeps the totals per asset; deposit moves each participant's
+   * increase in from their unified balance and withdraw moves decreases out.
+   */
+  submitAppState(
+    sessionId: string,
+    allocations: AppAllocation[],
+    sessionData?: string,
+    intent: AppStateIntent = 'operate'
+  ): MockAppSession {
+    const session = this.getOpenSession(sessionId);
+
+    this.assertParticipants(session.definition, allocations);
+
+    if (intent === 'operate') {
+      this.assertConserved(session, allocations);
+    } else {
+      this.resize(session, allocations, intent);
+    }
+
+    session.allocations = allocations;
+    session.sessionData = sessionData ?? session.sessionData;
+    session.version++;
+    session.updatedAt = new Date();
+
+    return session;
+  }
+
+  /**
+   * Release final allocations to the participants' unified balances
+   */
+  closeAppSession(sessionId: string, allocations: AppAllocation[], sessionData?: string): MockAppSession {
+    const session = this.submitAppState(sessionId, allocations, sessionData);
+
+    for (const allocation of allocations) {
+      this.credit(allocation.participant.toLowerCase(), allocation.asset, parseAmount(allocation.amount));
+    }
+
+    session.status = 'closed';
+    return session;
+  }
+
+  getAppSession(sessionId: string): MockAppSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new LedgerError(`App session not found: ${sessionId}`);
+    }
+    return session;
+  }
+
+  getAppSessions(participant?: Address, status?: AppSessionStatus): AppSessionInfo[] {
+    return [...this.sessions.values()]
+      .filter((session) => !status || session.status === status)
+      .filter(
+        (session) =>
+          !participant ||
+          session.definition.participants.some((address) => address.toLowerCase() === participant.toLowerCase())
+      )
+      .map((session) => this.toInfo(session));
+  }
+
+  getAppSessionInfo(sessionId: string): AppSessionInfo {
+    return this.toInfo(this.getAppSession(sessionId));
+  }
+
+  /**
+   * Forget everything
+   */
+  reset() {
+    this.balances.clear();
+    this.channels.clear();
+    this.sessions.clear();
+  }
+
+  private toInfo(session: MockAppSession): AppSessionInfo {
+    return {
+      app_session_id: session.id,
+      status: session.status,
+      participants: session.definition.participants,
+      weights: session.definition.weights,
+      quorum: session.definition.quorum,
+      protocol: session.definition.protocol,
+      challenge: session.definition.challenge,
+      nonce: session.definition.nonce,
+      version: session.version,
+      ...(session.sessionData && { session_data: session.sessionData }),
+      created_at: session.createdAt.toISOString(),
+      updated_at: session.updatedAt.toISOString(),
+    };
+  }
+
+  private getOpenSession(sessionId: string): MockAppSession {
+    const session = this.getAppSession(sessionId);
+    if (session.status !== 'open') {
+      throw new LedgerError(`App session ${sessionId} is ${session.status}`);
+    }
+    return session;
+  }
+
+  private assertParticipants(definition: AppDefinition, allocations: AppAllocation[]) {
+    const participants = new Set(definition.participants.map((address) => address.toLowerCase()));
+
+    for (const allocation of allocations) {
+      if (!participants.has(allocation.participant.toLowerCase())) {
+        throw new LedgerError(`${allocation.participant} is not a session participant`);
+      }
+    }
+  }
+
+  /**
+   * Settle per-participant changes of a deposit or withdraw against unified
+   * balances; a deposit may only grow allocations and a withdraw only shrink them
+   */
+  private resize(session: MockAppSession, allocations: AppAllocation[], intent: AppStateIntent) {
+    const key = (allocation: AppAllocation) => `${allocation.participant.toLowerCase()}:${allocation.asset}`;
+    const changes = new Map<string, { allocation: AppAllocation; delta: bigint }>();
+
+    for (const allocation of session.allocations) {
+      changes.set(key(allocation), { allocation, delta: -parseAmount(allocation.amount) });
+    }
+    for (const allocation of allocations) {
+      const change = changes.get(key(allocation));
+      changes.set(key(allocation), {
+        allocation,
+        delta: (change?.delta ?? 0n) + parseAmount(allocation.amount),
+      });
+    }
+
+    for (const { allocation, delta } of changes.values()) {
+      if (intent === 'deposit' ? delta < 0n : delta > 0n) {
+        throw new LedgerError(
+          `A ${intent} cannot ${delta < 0n ? 'decrease' : 'increase'} the ${allocation.asset} allocation of ${allocation.participant}`
+        );
+      }
+    }
+
+    for (const { allocation, delta } of changes.values()) {
+      const account = allocation.participant.toLowerCase();
+      const shortfall = delta - this.balanceOf(account, allocation.asset);
+
+      if (delta > 0n && shortfall > 0n) {
+        if (!this.options.autoFund) {
+          throw new LedgerError(`Insufficient ${allocation.asset} balance for ${allocation.participant}`);
+        }
+        this.fund(allocation.participant, allocation.asset, formatAmount(shortfall));
+      }
+
+      this.credit(account, allocation.asset, -delta);
+    }
+  }
+
+  private assertConserved(session: MockAppSession, allocations: AppAllocation[]) {
+    const before = totalsByAsset(session.allocations);
+    const after = totalsByAsset(allocations);
+
+    for (const asset of new Set([...before.keys(), ...after.keys()])) {
+      if ((before.get(asset) ?? 0n) !== (after.get(asset) ?? 0n)) {
+        throw new LedgerError(
+          `Allocations change the ${asset} total from ${formatAmount(before.get(asset) ?? 0n)} to ${formatAmount(after.get(asset) ?? 0n)}`
+        );
+      }
+    }
+  }
+
+  private balanceOf(account: string, asset: string): bigint {
+    return this.balances.get(account)?.get(asset) ?? 0n;
+  }
+
+  private credit(account: string, asset: string, amount: bigint) {
+    const balances = this.balances.get(account) ?? new Map<string, bigint>();
+    balances.set(asset, (balances.get(asset) ?? 0n) + amount);
+    this.balances.set(account, balances);
+  }
+}
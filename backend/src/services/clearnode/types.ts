@@ -12,11 +12,20 @@ export enum RPCMethod {
   AuthSuccess = 'auth_success',
   AuthFailure = 'auth_failure',
   CreateAppSession = 'create_app_session',
+  SubmitAppState = 'submit_app_state',
+  CloseAppSession = 'close_app_session',
+  GetAppSessions = 'get_app_sessions',
+  GetAppDefinition = 'get_app_definition',
   GetChannels = 'get_channels',
   GetLedgerBalances = 'get_ledger_balances',
   GetConfig = 'get_config',
   UpdateState = 'update_state',
   Error = 'error',
+  // Server-pushed notifications
+  BalanceUpdate = 'bu',
+  ChannelUpdate = 'cu',
+  AppSessionUpdate = 'asu',
+  TransferNotification = 'tr',
 }
 
 // Base RPC message structure
@@ -105,9 +114,50 @@ export interface CreateAppSessionParams {
   allocations: AppAllocation[];
 }
 
+export type AppSessionStatus = 'open' | 'closed' | 'settling';
+
 export interface AppSessionResponse {
   app_session_id: string;
-  status: 'open' | 'closed' | 'settling';
+  status: AppSessionStatus;
+  version?: number;
+}
+
+// How a submitted state moves funds: operate keeps each asset's total,
+// deposit pulls the increase from participants' unified balances and
+// withdraw returns the decrease to them
+export type AppStateIntent = 'operate' | 'deposit' | 'withdraw';
+
+export interface SubmitAppStateParams {
+  app_session_id: string;
+  intent?: AppStateIntent;
+  allocations: AppAllocation[];
+  session_data?: string;
+}
+
+export interface CloseAppSessionParams {
+  app_session_id: string;
+  allocations: AppAllocation[];
+  session_data?: string;
+}
+
+export interface GetAppSessionsParams {
+  participant?: Address;
+  status?: AppSessionStatus;
+}
+
+export interface AppSessionInfo {
+  app_session_id: string;
+  status: AppSessionStatus;
+  participants: Address[];
+  weights: number[];
+  quorum: number;
+  protocol: string;
+  challenge: number;
+  nonce: number;
+  version: number;
+  session_data?: string;
+  created_at: string;
+  updated_at: string;
 }
 
 // Channel types
@@ -133,6 +183,40 @@ export interface LedgerBalance {
   balance: string;
 }
 
+// Ledger transaction, as listed in transfer notifications
+export interface LedgerTransaction {
+  id: number;
+  tx_type: string; // transfer, deposit, withdrawal, app_deposit, app_withdrawal
+  from_account: string;
+  to_account: string;
+  asset: string;
+  amount: string;
+  created_at: string;
+}
+
+// Server-pushed notifications, as emitted by ClearNodeService
+export interface BalanceUpdateNotification {
+  account: Address; // Authenticated wallet the balances belong to
+  balances: { asset: string; amount: string }[];
+}
+
+export type ChannelUpdateNotification = ChannelInfo;
+
+export interface AppSessionUpdateNotification {
+  session: AppSessionInfo;
+  allocations: AppAllocation[];
+}
+
+export interface TransferNotification {
+  transactions: LedgerTransaction[];
+}
+
+export type ClearNodeNotification =
+  | { type: 'balanceUpdate'; data: BalanceUpdateNotification }
+  | { type: 'channelUpdate'; data: ChannelUpdateNotification }
+  | { type: 'appSessionUpdate'; data: AppSessionUpdateNotification }
+  | { type: 'transfer'; data: TransferNotification };
+
 // Message signer function type
 export type MessageSigner = (payload: RequestData | ResponsePayload) => Promise<string>;
 
@@ -163,4 +247,10 @@ export interface ClearNodeEvents {
   message: (message: RPCResponse | RPCError) => void;
   error: (error: Error) => void;
   reconnecting: (attempt: number) => void;
+  circuitOpen: (until: Date) => void;
+  circuitClosed: () => void;
+  balanceUpdate: (update: BalanceUpdateNotification) => void;
+  channelUpdate: (update: ChannelUpdateNotification) => void;
+  appSessionUpdate: (update: AppSessionUpdateNotification) => void;
+  transfer: (notice: TransferNotification) => void;
 }
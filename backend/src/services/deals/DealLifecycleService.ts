@@ -0,0 +1,91 @@
+/**
+ * Deal Lifecycle Service
+ * Multi-step lifecycle operations built on the deal state machine
+ */
+import { getPrismaClient } from '../database/prisma';
+import { nitroliteService } from '../nitrolite/NitroliteService';
+import { dealVaultService } from '../blockchain/DealVaultService';
+import {
+  dealStateMachine,
+  DealTransitionError,
+  type TransitionOptions,
+} from './DealStateMachine';
+
+const prisma = getPrismaClient();
+
+/**
+ * Service for deal lifecycle operations
+ */
+export class DealLifecycleService {
+  /**
+   * Lock a deal: claim CREATED -> LOCKED, open its channel and queue the
+   * on-chain link and lock. Rolls back to CREATED if the channel fails.
+   */
+  async lockDeal(dealId: bigint, options: TransitionOptions) {
+    const deal = await prisma.deal.findUnique({
+      where: { id: dealId },
+    });
+
+    if (!deal) {
+      throw new DealTransitionError('Deal not found', 404);
+    }
+
+    // Indexed from the chain without the API ever storing its dealer
+    if (!deal.dealer) {
+      throw new DealTransitionError('Deal has no dealer', 422);
+    }
+
+    const locked = await dealStateMachine.transition(dealId, 'LOCKED', {
+      ...options,
+      from: 'CREATED',
+      data: { lockTimestamp: new Date() },
+    });
+
+    if (!locked) {
+      throw new DealTransitionError('Deal must be in CREATED status');
+    }
+
+    try {
+      // Create Nitrolite channel with a seat per LP
+      const positions = await prisma.position.findMany({
+        where: { dealId },
+        select: { id: true, owner: true, depositAmount: true },
+      });
+
+      const { channelId } = await nitroliteService.createChannelForDeal(
+        dealId,
+        deal.dealer as `0x${string}`,
+        deal.depositToken,
+        positions.map((p: { id: bigint; owner: string; depositAmount: { toFixed(dp: number): string } }) => ({
+          id: p.id,
+          owner: p.owner,
+          depositAmount: BigInt(p.depositAmount.toFixed(0)),
+        }))
+      );
+
+      // Queue on-chain channel link and lock (sent in order by the queue worker)
+      const linkJob = deal.simulated ? null : await dealVaultService.linkChannel(dealId, channelId);
+      const lockJob = deal.simulated ? null : await dealVaultService.lockDeal(dealId);
+
+      return {
+        deal: locked,
+        channelId,
+        transactions: deal.simulated ? null : {
+          linkChannel: linkJob!.id,
+          lockDeal: lockJob!.id,
+        },
+      };
+    } catch (error) {
+      await dealStateMachine.transition(dealId, 'CREATED', {
+        from: 'LOCKED',
+        source: options.source,
+        reason: `Lock failed: ${error instanceof Error ? error.message : 'unknown error'}`,
+        data: { lockTimestamp: null },
+      });
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const dealLifecycleService = new DealLifecycleService();
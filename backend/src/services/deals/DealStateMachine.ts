@@ -0,0 +1,287 @@
+/**
+ * Deal State Machine
+ * The only place deal statuses are written. Lists the allowed transitions
+ * and their guards, and records every change in DealTransition.
+ */
+import type { DealStatus, Prisma } from '@prisma/client';
+import { createModuleLogger } from '../../utils/logger';
+import { getPrismaClient } from '../database/prisma';
+import { eventStreamService, topics } from '../stream/EventStreamService';
+
+const logger = createModuleLogger('dealStateMachine');
+const prisma = getPrismaClient();
+
+/**
+ * Allowed transitions
+ * CREATED -> LOCKED -> ACTIVE -> SETTLING -> SETTLED, with cancellation
+ * before the deal goes active. LOCKED -> CREATED undoes a failed lock.
+ */
+export const DEAL_TRANSITIONS: Record<DealStatus, DealStatus[]> = {
+  CREATED: ['LOCKED', 'CANCELLED'],
+  LOCKED: ['ACTIVE', 'CREATED', 'CANCELLED'],
+  ACTIVE: ['SETTLING'],
+  SETTLING: ['SETTLED'],
+  SETTLED: [],
+  CANCELLED: [],
+};
+
+type GuardDeal = Prisma.DealGetPayload<{
+  include: {
+    channelState: true;
+    settlements: { where: { status: 'COMPLETED' } };
+    _count: { select: { positions: true } };
+  };
+}>;
+
+/**
+ * Guard conditions; each returns a reason when the transition is not allowed
+ */
+const GUARDS: Partial<Record<string, (deal: GuardDeal) => string | null>> = {
+  'CREATED->LOCKED': (deal) =>
+    deal._count.positions === 0 ? 'Deal has no deposits' : null,
+  'LOCKED->ACTIVE': (deal) =>
+    deal.channelState ? null : 'Deal has no open channel',
+  'ACTIVE->SETTLING': (deal) =>
+    deal.expiryTimestamp && deal.expiryTimestamp.getTime() > Date.now()
+      ? `Deal expires at ${deal.expiryTimestamp.toISOString()}`
+      : null,
+  'SETTLING->SETTLED': (deal) =>
+    deal.settlements.length === 0 ? 'Deal has no completed settlement' : null,
+};
+
+export class DealTransitionError extends Error {
+  constructor(message: string, public statusCode: number = 409) {
+    super(message);
+    this.name = 'DealTransitionError';
+  }
+}
+
+export interface TransitionOptions {
+  source: string;
+  reason?: string;
+  // Extra deal fields written with the status
+  data?: Prisma.DealUpdateManyMutationInput;
+}
+
+export interface TransitionRequest extends TransitionOptions {
+  // Expected current status; the transition is skipped (null) if it differs
+  from?: DealStatus;
+  // Run inside an existing transaction
+  tx?: Prisma.TransactionClient;
+  // Mirror a status that already happened elsewhere (the chain): guards are
+  // not evaluated, intermediate steps are walked if the target is not
+  // directly reachable, and unknown deals or unreachable targets are skipped
+  // (null) instead of thrown
+  sync?: boolean;
+}
+
+/**
+ * State machine for DealStatus
+ */
+export class DealStateMachine {
+  /**
+   * Whether `from -> to` is an allowed transition
+   */
+  canTransition(from: DealStatus, to: DealStatus): boolean {
+    return DEAL_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Shortest chain of allowed transitions from `from` to `to`
+   */
+  findPath(from: DealStatus, to: DealStatus): DealStatus[] | null {
+    const queue: DealStatus[][] = [[from]];
+    const seen = new Set<DealStatus>([from]);
+
+    while (queue.length > 0) {
+      const path = queue.shift()!;
+      for (const next of DEAL_TRANSITIONS[path[path.length - 1]]) {
+        if (next === to) return [...path.slice(1), next];
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push([...path, next]);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Move a deal to `to`
+   * Compare-and-set on the current status, so concurrent callers (or backend
+   * instances) cannot apply the same transition twice. Returns the updated
+   * deal, or null if the deal was no longer in `request.from`. Throws
+   * DealTransitionError for a disallowed transition or a failed guard.
+   */
+  async transition(dealId: bigint, to: DealStatus, request: TransitionRequest) {
+    if (request.tx) {
+      return await this.apply(request.tx, dealId, to, request);
+    }
+
+    return await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      this.apply(tx, dealId, to, request)
+    );
+  }
+
+  /**
+   * Get the transition history of a deal
+   */
+  async getHistory(dealId: bigint) {
+    return await prisma.dealTransition.findMany({
+      where: { dealId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private async apply(
+    tx: Prisma.TransactionClient,
+    dealId: bigint,
+    to: DealStatus,
+    request: TransitionRequest
+  ) {
+    const deal = await tx.deal.findUnique({
+      where: { id: dealId },
+      include: {
+        channelState: true,
+        settlements: { where: { status: 'COMPLETED' } },
+        _count: { select: { positions: true } },
+      },
+    });
+
+    if (!deal) {
+      if (request.sync) return null;
+      throw new DealTransitionError('Deal not found', 404);
+    }
+
+    if (request.from && deal.status !== request.from) {
+      return null;
+    }
+
+    const from = deal.status;
+    if (request.sync && from === to) {
+      return deal;
+    }
+
+    const steps = this.canTransition(from, to)
+      ? [to]
+      : request.sync ? this.findPath(from, to) : null;
+
+    if (!steps) {
+      if (request.sync) {
+        logger.warn('Skipping unreachable deal status', {
+          dealId: dealId.toString(),
+          from,
+          to,
+          source: request.source,
+        });
+        return null;
+      }
+      throw new DealTransitionError(`Cannot move deal from ${from} to ${to}`);
+    }
+
+    if (!request.sync) {
+      const reason = GUARDS[`${from}->${to}`]?.(deal);
+      if (reason) {
+        throw new DealTransitionError(`Cannot move deal from ${from} to ${to}: ${reason}`);
+      }
+    }
+
+    let current = from;
+    for (const step of steps) {
+      const written = await this.write(tx, dealId, current, step, {
+        ...request,
+        data: step === to ? request.data : undefined,
+      });
+
+      if (!written) return null;
+      current = step;
+    }
+
+    return await tx.deal.findUnique({ where: { id: dealId } });
+  }
+
+  /**
+   * Set a deal back to an earlier status after a chain reorg removed the
+   * event that moved it forward. Bypasses the transition table; the only
+   * backward move besides a failed lock, and it is still recorded.
+   */
+  async rewind(
+    dealId: bigint,
+    to: DealStatus,
+    request: TransitionOptions & { tx: Prisma.TransactionClient }
+  ) {
+    const deal = await request.tx.deal.findUnique({
+      where: { id: dealId },
+      select: { status: true },
+    });
+
+    if (!deal || deal.status === to) return;
+
+    await this.write(request.tx, dealId, deal.status, to, request);
+  }
+
+  /**
+   * Compare-and-set a single status change and record it
+   */
+  private async write(
+    tx: Prisma.TransactionClient,
+    dealId: bigint,
+    from: DealStatus,
+    to: DealStatus,
+    options: TransitionOptions
+  ) {
+    const { count } = await tx.deal.updateMany({
+      where: { id: dealId, status: from },
+      data: { status: to, ...options.data },
+    });
+
+    if (count === 0) return false;
+
+    await tx.dealTransition.create({
+      data: {
+        dealId,
+        fromStatus: from,
+        toStatus: to,
+        source: options.source,
+        reason: options.reason,
+      },
+    });
+
+    // Notify the dealer and depositors in the same transaction
+    const deal = await tx.deal.findUnique({
+      where: { id: dealId },
+      select: { dealer: true, positions: { select: { owner: true } } },
+    });
+
+    await eventStreamService.publish(
+      'deal.status',
+      [
+        topics.deal(dealId),
+        ...(deal!.dealer ? [topics.owner(deal!.dealer)] : []),
+        ...deal!.positions.map((position) => topics.owner(position.owner)),
+      ],
+      {
+        dealId: dealId.toString(),
+        from,
+        to,
+        source: options.source,
+        reason: options.reason ?? null,
+      },
+      tx
+    );
+
+    logger.info('Deal status changed', {
+      dealId: dealId.toString(),
+      from,
+      to,
+      source: options.source,
+      reason: options.reason,
+    });
+
+    return true;
+  }
+}
+
+// Export singleton instance
+export const dealStateMachine = new DealStateMachine();
@@ -0,0 +1,692 @@
+/**
+ * DealVault Indexer
+ * Follows DealVault events on Flare and mirrors them into the database
+ */
+import {
+  createPublicClient,
+  decodeFunctionResult,
+  encodeFunctionData,
+  http,
+  type Address,
+  type Hash,
+} from 'viem';
+import type { Prisma } from '@prisma/client';
+import { createModuleLogger } from '../../utils/logger';
+import { CHAINS } from '../../config/chains';
+import { FLARE_CONTRACTS, INDEXER_CONFIG } from '../../config/contracts';
+import { getPrismaClient } from '../database/prisma';
+import { dealStateMachine } from '../deals/DealStateMachine';
+
+const logger = createModuleLogger('indexer');
+const prisma = getPrismaClient();
+
+// DealVault events followed by the indexer
+const DEAL_VAULT_EVENTS_ABI = [
+  {
+    name: 'DealCreated',
+    type: 'event',
+    inputs: [
+      { name: 'dealId', type: 'uint256', indexed: true },
+      { name: 'depositToken', type: 'address', indexed: false },
+      { name: 'duration', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'Deposited',
+    type: 'event',
+    inputs: [
+      { name: 'dealId', type: 'uint256', indexed: true },
+      { name: 'depositor', type: 'address', indexed: true },
+      { name: 'positionId', type: 'uint256', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'DealLocked',
+    type: 'event',
+    inputs: [
+      { name: 'dealId', type: 'uint256', indexed: true },
+      { name: 'channelId', type: 'bytes32', indexed: true },
+    ],
+  },
+  {
+    name: 'DealSettling',
+    type: 'event',
+    inputs: [
+      { name: 'dealId', type: 'uint256', indexed: true },
+      { name: 'finalPnL', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'PositionClaimed',
+    type: 'event',
+    inputs: [
+      { name: 'dealId', type: 'uint256', indexed: true },
+      { name: 'positionId', type: 'uint256', indexed: true },
+      { name: 'recipient', type: 'address', indexed: true },
+      { name: 'principal', type: 'uint256', indexed: false },
+      { name: 'yield', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'Withdrawn',
+    type: 'event',
+    inputs: [
+      { name: 'dealId', type: 'uint256', indexed: true },
+      { name: 'positionId', type: 'uint256', indexed: true },
+      { name: 'recipient', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'yield', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'DealFinalized',
+    type: 'event',
+    inputs: [
+      { name: 'dealId', type: 'uint256', indexed: true },
+      { name: 'totalYield', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'DealCancelled',
+    type: 'event',
+    inputs: [{ name: 'dealId', type: 'uint256', indexed: true }],
+  },
+] as const;
+
+// Public `deals` getter, used to enrich DealCreated
+const DEAL_VAULT_DEALS_ABI = [
+  {
+    name: 'deals',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: '', type: 'uint256' }],
+    outputs: [
+      { name: 'dealId', type: 'uint256' },
+      { name: 'depositToken', type: 'address' },
+      { name: 'minDeposit', type: 'uint256' },
+      { name: 'maxDeposit', type: 'uint256' },
+      { name: 'totalDeposited', type: 'uint256' },
+      { name: 'startTime', type: 'uint256' },
+      { name: 'duration', type: 'uint256' },
+      { name: 'status', type: 'uint8' },
+      { name: 'expectedYield', type: 'uint256' },
+      { name: 'channelId', type: 'bytes32' },
+    ],
+  },
+] as const;
+
+// Deal status implied by each status-changing event
+const STATUS_BY_EVENT: Record<string, 'CREATED' | 'LOCKED' | 'SETTLING' | 'SETTLED' | 'CANCELLED'> = {
+  DealCreated: 'CREATED',
+  DealLocked: 'LOCKED',
+  DealSettling: 'SETTLING',
+  DealFinalized: 'SETTLED',
+  DealCancelled: 'CANCELLED',
+};
+
+export interface IndexedLog {
+  eventName: string;
+  args: Record<string, any>;
+  blockNumber: bigint;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+/**
+ * Indexer for DealVault events with confirmation depth and reorg rollback
+ */
+export class DealVaultIndexer {
+  // Typed by inference: PublicClient does not accept a client with a chain
+  // without strictNullChecks
+  private client = createPublicClient({
+    chain: {
+      id: CHAINS.flare.id,
+      name: CHAINS.flare.name,
+      nativeCurrency: CHAINS.flare.nativeCurrency,
+      rpcUrls: {
+        default: { http: [CHAINS.flare.rpcUrl] },
+        public: { http: [CHAINS.flare.rpcUrl] },
+      },
+    },
+    transport: http(CHAINS.flare.rpcUrl),
+  });
+  private vaultAddress: Address | null = null;
+  private chainId = BigInt(CHAINS.flare.id);
+  private isRunning = false;
+  private isPolling = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private blockTimestamps: Map<bigint, Date> = new Map();
+
+  /**
+   * Start following DealVault events
+   */
+  start() {
+    if (this.isRunning) {
+      logger.warn('Indexer already running');
+      return;
+    }
+
+    if (!FLARE_CONTRACTS.dealVault) {
+      throw new Error('DEAL_VAULT_ADDRESS not configured');
+    }
+
+    this.vaultAddress = FLARE_CONTRACTS.dealVault as Address;
+    this.isRunning = true;
+
+    logger.info('Starting DealVault indexer', {
+      vault: this.vaultAddress,
+      confirmations: INDEXER_CONFIG.confirmations.toString(),
+      interval: `${INDEXER_CONFIG.pollInterval / 1000}s`,
+    });
+
+    // Poll immediately, then at intervals
+    this.poll();
+
+    this.intervalId = setInterval(() => {
+      this.poll();
+    }, INDEXER_CONFIG.pollInterval);
+  }
+
+  /**
+   * Stop following events
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    logger.info('Stopped DealVault indexer');
+  }
+
+  /**
+   * Run a single indexing pass, skipping if the previous one is still busy
+   */
+  private async poll() {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      await this.syncOnce();
+    } catch (error) {
+      logger.error('Indexer pass failed', error);
+    } finally {
+      this.isPolling = false;
+      this.blockTimestamps.clear();
+    }
+  }
+
+  /**
+   * Index confirmed blocks after the persisted cursor
+   */
+  async syncOnce() {
+    const vault = this.vaultAddress!;
+    let cursor = await this.getCursor();
+
+    // Detect reorgs below the cursor before reading anything new
+    if (cursor) {
+      const rewindTo = await this.findReorg(cursor.lastBlock, cursor.lastBlockHash);
+      if (rewindTo !== null) {
+        cursor = await this.rollback(cursor.lastBlock, rewindTo);
+      }
+    }
+
+    const head: bigint = await this.client.getBlockNumber();
+    const safeHead = head - INDEXER_CONFIG.confirmations;
+    let fromBlock = cursor ? cursor.lastBlock + 1n : INDEXER_CONFIG.startBlock;
+
+    while (fromBlock <= safeHead) {
+      const toBlock = fromBlock + INDEXER_CONFIG.batchSize - 1n < safeHead
+        ? fromBlock + INDEXER_CONFIG.batchSize - 1n
+        : safeHead;
+
+      const logs: IndexedLog[] = await this.client.getLogs({
+        address: vault,
+        events: DEAL_VAULT_EVENTS_ABI,
+        fromBlock,
+        toBlock,
+      });
+
+      for (const log of logs) {
+        await this.processLog(log);
+      }
+
+      const block = await this.client.getBlock({ blockNumber: toBlock });
+      await this.saveCursor(toBlock, block.hash);
+
+      logger.debug('Indexed block range', {
+        fromBlock: fromBlock.toString(),
+        toBlock: toBlock.toString(),
+        events: logs.length,
+      });
+
+      fromBlock = toBlock + 1n;
+    }
+  }
+
+  /**
+   * Store an event and apply it to Deal/Position in one transaction
+   */
+  private async processLog(log: IndexedLog) {
+    const existing = await prisma.eventLog.findUnique({
+      where: {
+        chainId_txHash_logIndex: {
+          chainId: this.chainId,
+          txHash: log.transactionHash,
+          logIndex: log.logIndex,
+        },
+      },
+    });
+
+    if (existing?.processed) return;
+
+    // Reads happen outside the transaction to keep it short
+    const timestamp = await this.getBlockTimestamp(log.blockNumber);
+    const enrichment = log.eventName === 'DealCreated'
+      ? await this.readDealCreated(log)
+      : null;
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const data = this.serializeArgs(log.args);
+
+      if (!existing) {
+        await tx.eventLog.create({
+          data: {
+            chainId: this.chainId,
+            contractAddress: this.vaultAddress!,
+            eventName: log.eventName,
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            txHash: log.transactionHash,
+            logIndex: log.logIndex,
+            data,
+            timestamp,
+          },
+        });
+      }
+
+      await this.applyEvent(tx, log, timestamp, enrichment);
+
+      await tx.eventLog.update({
+        where: {
+          chainId_txHash_logIndex: {
+            chainId: this.chainId,
+            txHash: log.transactionHash,
+            logIndex: log.logIndex,
+          },
+        },
+        data: { processed: true },
+      });
+    });
+
+    logger.info('Indexed event', {
+      event: log.eventName,
+      dealId: log.args.dealId?.toString(),
+      block: log.blockNumber.toString(),
+      txHash: log.transactionHash,
+    });
+  }
+
+  /**
+   * Apply a single event to Deal/Position
+   */
+  private async applyEvent(
+    tx: Prisma.TransactionClient,
+    log: IndexedLog,
+    timestamp: Date,
+    enrichment: { expectedYield: bigint; expiry: Date } | null
+  ) {
+    const { args } = log;
+    const dealId = args.dealId as bigint;
+
+    switch (log.eventName) {
+      case 'DealCreated': {
+        // createDeal is sent by the vault owner for the dealer, who is only
+        // known to the API; a stored dealer is kept
+        const deal = await tx.deal.upsert({
+          where: { id: dealId },
+          create: {
+            id: dealId,
+            depositToken: args.depositToken,
+            targetToken: args.depositToken, // Single-token vault: rewards paid in deposit token
+            targetChainId: this.chainId,
+            status: 'CREATED',
+            totalDeposited: 0,
+            expectedYield: enrichment!.expectedYield.toString(),
+            expiryTimestamp: enrichment!.expiry,
+            dealer: null,
+          },
+          update: {
+            depositToken: args.depositToken,
+            expiryTimestamp: enrichment!.expiry,
+          },
+          select: { dealer: true },
+        });
+
+        if (!deal.dealer) {
+          logger.warn('Indexed deal has no dealer until the API stores it', {
+            dealId: dealId.toString(),
+            txHash: log.transactionHash,
+          });
+        }
+        break;
+      }
+
+      case 'Deposited': {
+        const deal = await tx.deal.findUnique({
+          where: { id: dealId },
+          select: { depositToken: true },
+        });
+
+        // Deals created before INDEXER_START_BLOCK are not followed
+        if (!deal) {
+          logger.warn('Skipping deposit for unknown deal', {
+            dealId: dealId.toString(),
+            positionId: args.positionId.toString(),
+            txHash: log.transactionHash,
+          });
+          break;
+        }
+
+        // The event is the source of truth, whatever was stored before it
+        const stored = await tx.position.findUnique({
+          where: { id: args.positionId },
+          select: { dealId: true, owner: true, depositAmount: true },
+        });
+        const amount = args.amount as bigint;
+
+        if (
+          stored &&
+          (stored.dealId !== dealId ||
+            stored.owner.toLowerCase() !== (args.depositor as string).toLowerCase() ||
+            BigInt(stored.depositAmount.toFixed(0)) !== amount)
+        ) {
+          logger.error('ALERT: stored position does not match Deposited event', {
+            positionId: args.positionId.toString(),
+            stored: {
+              dealId: stored.dealId.toString(),
+              owner: stored.owner,
+              depositAmount: stored.depositAmount.toFixed(0),
+            },
+            event: { dealId: dealId.toString(), owner: args.depositor, depositAmount: amount.toString() },
+            txHash: log.transactionHash,
+          });
+        }
+
+        await tx.position.upsert({
+          where: { id: args.positionId },
+          create: {
+            id: args.positionId,
+            dealId,
+            owner: args.depositor,
+            depositAmount: amount.toString(),
+            chainId: this.chainId,
+            tokenAddress: deal.depositToken,
+            claimed: false,
+            createdAt: timestamp,
+          },
+          update: {
+            dealId,
+            owner: args.depositor,
+            depositAmount: amount.toString(),
+            chainId: this.chainId,
+            tokenAddress: deal.depositToken,
+          },
+        });
+
+        // Move the stored amount out of the deal it was counted in, then
+        // count the event's amount
+        if (stored) {
+          await tx.deal.update({
+            where: { id: stored.dealId },
+            data: { totalDeposited: { decrement: stored.depositAmount.toFixed(0) } },
+          });
+        }
+        await tx.deal.update({
+          where: { id: dealId },
+          data: { totalDeposited: { increment: amount.toString() } },
+        });
+        break;
+      }
+
+      case 'PositionClaimed':
+      case 'Withdrawn': {
+        const principal = (args.principal ?? args.amount) as bigint;
+        await tx.position.updateMany({
+          where: { id: args.positionId },
+          data: {
+            claimed: true,
+            claimAmount: (principal + (args.yield as bigint)).toString(),
+          },
+        });
+        break;
+      }
+
+      case 'DealLocked':
+      case 'DealSettling':
+      case 'DealFinalized':
+      case 'DealCancelled':
+        await dealStateMachine.transition(dealId, STATUS_BY_EVENT[log.eventName], {
+          tx,
+          sync: true,
+          source: 'indexer',
+          reason: `${log.eventName} ${log.transactionHash}`,
+          data: log.eventName === 'DealLocked' ? { lockTimestamp: timestamp } : undefined,
+        });
+        break;
+    }
+  }
+
+  /**
+   * Compare the blocks of events indexed within the reorg depth, and the
+   * cursor block, with the chain. Returns the last block still canonical,
+   * or null if all match.
+   */
+  private async findReorg(lastBlock: bigint, lastBlockHash: string): Promise<bigint | null> {
+    const windowStart = lastBlock > INDEXER_CONFIG.reorgDepth
+      ? lastBlock - INDEXER_CONFIG.reorgDepth
+      : INDEXER_CONFIG.startBlock;
+
+    const indexed = await prisma.eventLog.findMany({
+      where: {
+        chainId: this.chainId,
+        contractAddress: this.vaultAddress!,
+        blockNumber: { gt: windowStart, lt: lastBlock },
+      },
+      select: { blockNumber: true, blockHash: true },
+      distinct: ['blockNumber', 'blockHash'],
+      orderBy: { blockNumber: 'asc' },
+    });
+
+    let canonical = windowStart;
+    for (const { blockNumber, blockHash } of [...indexed, { blockNumber: lastBlock, blockHash: lastBlockHash }]) {
+      const block = await this.client.getBlock({ blockNumber });
+      if (block.hash !== blockHash) {
+        return canonical;
+      }
+      canonical = blockNumber;
+    }
+
+    return null;
+  }
+
+  /**
+   * Roll back events after the last canonical block and rewind the cursor
+   */
+  private async rollback(reorgedBlock: bigint, rewindTo: bigint) {
+    logger.warn('Reorg detected, rolling back', {
+      reorgedBlock: reorgedBlock.toString(),
+      rewindTo: rewindTo.toString(),
+    });
+
+    const orphaned = await prisma.eventLog.findMany({
+      where: {
+        chainId: this.chainId,
+        contractAddress: this.vaultAddress!,
+        blockNumber: { gt: rewindTo },
+      },
+      orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }],
+    });
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      for (const event of orphaned) {
+        await tx.eventLog.delete({ where: { id: event.id } });
+        if (event.processed) {
+          await this.revertEvent(tx, event.eventName, event.data as Record<string, string>);
+        }
+      }
+    });
+
+    const block = await this.client.getBlock({ blockNumber: rewindTo });
+    await this.saveCursor(rewindTo, block.hash);
+
+    logger.info('Rollback complete', {
+      reverted: orphaned.length,
+      cursor: rewindTo.toString(),
+    });
+
+    return this.getCursor();
+  }
+
+  /**
+   * Undo the effect of a rolled-back event
+   */
+  private async revertEvent(tx: Prisma.TransactionClient, eventName: string, data: Record<string, string>) {
+    const dealId = BigInt(data.dealId);
+
+    switch (eventName) {
+      case 'DealCreated':
+        // Only drop deals nothing else refers to
+        await tx.deal.deleteMany({
+          where: {
+            id: dealId,
+            positions: { none: {} },
+            settlements: { none: {} },
+            channelState: null,
+          },
+        });
+        break;
+
+      case 'Deposited': {
+        const { count } = await tx.position.deleteMany({
+          where: { id: BigInt(data.positionId), remoteDeposit: null },
+        });
+        if (count > 0) {
+          await tx.deal.update({
+            where: { id: dealId },
+            data: { totalDeposited: { decrement: data.amount } },
+          });
+        }
+        break;
+      }
+
+      case 'PositionClaimed':
+      case 'Withdrawn':
+        await tx.position.updateMany({
+          where: { id: BigInt(data.positionId) },
+          data: { claimed: false, claimAmount: null },
+        });
+        break;
+
+      case 'DealLocked':
+      case 'DealSettling':
+      case 'DealFinalized':
+      case 'DealCancelled': {
+        // Fall back to the latest status event still on the canonical chain
+        const previous = await tx.eventLog.findFirst({
+          where: {
+            chainId: this.chainId,
+            contractAddress: this.vaultAddress!,
+            eventName: { in: Object.keys(STATUS_BY_EVENT) },
+            data: { path: ['dealId'], equals: data.dealId },
+          },
+          orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }],
+        });
+
+        await dealStateMachine.rewind(dealId, previous ? STATUS_BY_EVENT[previous.eventName] : 'CREATED', {
+          tx,
+          source: 'indexer',
+          reason: `${eventName} removed by reorg`,
+          data: eventName === 'DealLocked' ? { lockTimestamp: null } : undefined,
+        });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Read deal parameters not carried by DealCreated
+   * The read goes through call + decodeFunctionResult: readContract's
+   * parameter types do not resolve without strictNullChecks.
+   */
+  private async readDealCreated(log: IndexedLog) {
+    const { data } = await this.client.call({
+      to: this.vaultAddress!,
+      data: encodeFunctionData({ abi: DEAL_VAULT_DEALS_ABI, functionName: 'deals', args: [log.args.dealId] }),
+      blockNumber: log.blockNumber,
+    });
+    const [, , , , , startTime, duration, , expectedYield] = decodeFunctionResult({
+      abi: DEAL_VAULT_DEALS_ABI,
+      functionName: 'deals',
+      data: data!,
+    });
+
+    return {
+      expectedYield,
+      expiry: new Date(Number(startTime + duration) * 1000),
+    };
+  }
+
+  private async getBlockTimestamp(blockNumber: bigint): Promise<Date> {
+    let timestamp = this.blockTimestamps.get(blockNumber);
+    if (!timestamp) {
+      const block = await this.client.getBlock({ blockNumber });
+      timestamp = new Date(Number(block.timestamp) * 1000);
+      this.blockTimestamps.set(blockNumber, timestamp);
+    }
+    return timestamp;
+  }
+
+  private async getCursor() {
+    return await prisma.indexerCursor.findUnique({
+      where: {
+        chainId_contractAddress: {
+          chainId: this.chainId,
+          contractAddress: this.vaultAddress!,
+        },
+      },
+    });
+  }
+
+  private async saveCursor(lastBlock: bigint, lastBlockHash: string) {
+    await prisma.indexerCursor.upsert({
+      where: {
+        chainId_contractAddress: {
+          chainId: this.chainId,
+          contractAddress: this.vaultAddress!,
+        },
+      },
+      create: {
+        chainId: this.chainId,
+        contractAddress: this.vaultAddress!,
+        lastBlock,
+        lastBlockHash,
+      },
+      update: { lastBlock, lastBlockHash },
+    });
+  }
+
+  /**
+   * Convert decoded event args into JSON-safe values
+   */
+  private serializeArgs(args: Record<string, any>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(args).map(([key, value]) => [key, String(value)])
+    );
+  }
+}
+
+// Export singleton instance
+export const dealVaultIndexer = new DealVaultIndexer();
@@ -0,0 +1,103 @@
+/**
+ * Channel State Hash
+ * Canonical encoding and signing of channel states. YellowChannel.verifySignatures
+ * recovers both parties from the eth-signed message hash of the state hash, so
+ * states are signed with EIP-191 over the raw 32-byte hash.
+ */
+import {
+  encodeAbiParameters,
+  keccak256,
+  recoverMessageAddress,
+  type Address,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { StateIntent } from '@prisma/client';
+
+/**
+ * Intent codes, numbered as in the Nitrolite (ERC-7824) StateIntent enum
+ */
+export const STATE_INTENT_CODES: Record<StateIntent, number> = {
+  OPERATE: 0,
+  INITIALIZE: 1,
+  RESIZE: 2,
+  FINALIZE: 3,
+};
+
+const STATE_PARAMETERS = [
+  { name: 'channelId', type: 'bytes32' },
+  { name: 'version', type: 'uint256' },
+  { name: 'intent', type: 'uint8' },
+  {
+    name: 'allocations',
+    type: 'tuple[]',
+    components: [
+      { name: 'destination', type: 'address' },
+      { name: 'token', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+  },
+  { name: 'stateData', type: 'bytes' },
+] as const;
+
+export interface HashableState {
+  channelId: string;
+  version: bigint;
+  intent: StateIntent;
+  allocations: { destination: string; token: string; amount: string }[];
+  stateData: string | null;
+}
+
+/**
+ * keccak256(abi.encode(channelId, version, intent, allocations, stateData))
+ * Allocations are (destination, token, amount) in participant order.
+ */
+export function hashChannelState(state: HashableState): Hex {
+  return keccak256(
+    encodeAbiParameters(STATE_PARAMETERS, [
+      state.channelId as Hex,
+      state.version,
+      STATE_INTENT_CODES[state.intent],
+      state.allocations.map((allocation) => ({
+        destination: allocation.destination as Address,
+        token: allocation.token as Address,
+        amount: BigInt(allocation.amount),
+      })),
+      (state.stateData ?? '0x') as Hex,
+    ])
+  );
+}
+
+/**
+ * Sign a state hash with the backend key
+ */
+export async function signStateHash(stateHash: Hex): Promise<Hex> {
+  if (!process.env.PRIVATE_KEY_BACKEND) {
+    throw new Error('PRIVATE_KEY_BACKEND not configured');
+  }
+
+  const account = privateKeyToAccount(process.env.PRIVATE_KEY_BACKEND as Hex);
+  return await account.signMessage({ message: { raw: stateHash } });
+}
+
+/**
+ * Address that signed a state hash, or null for a malformed signature
+ */
+export async function recoverStateSigner(stateHash: Hex, signature: Hex): Promise<Address | null> {
+  try {
+    return await recoverMessageAddress({ message: { raw: stateHash }, signature });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Address of the backend key (party 0 of every channel)
+ */
+export function getBackendSigner(): Address {
+  if (!process.env.PRIVATE_KEY_BACKEND) {
+    throw new Error('PRIVATE_KEY_BACKEND not configured');
+  }
+
+  return privateKeyToAccount(process.env.PRIVATE_KEY_BACKEND as Hex).address;
+}
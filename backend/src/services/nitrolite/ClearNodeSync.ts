@@ -0,0 +1,145 @@
+/**
+ * ClearNode Sync
+ * Persists ClearNode notifications, so ledger balances, ledger channels and
+ * ChannelState follow changes this backend did not make itself
+ */
+import type { Prisma } from '@prisma/client';
+import { createModuleLogger } from '../../utils/logger';
+import { getPrismaClient } from '../database/prisma';
+import { clearNodeService } from '../clearnode/ClearNodeService';
+import type {
+  AppSessionUpdateNotification,
+  BalanceUpdateNotification,
+  ChannelUpdateNotification,
+  TransferNotification,
+} from '../clearnode/types';
+
+const logger = createModuleLogger('clearnodeSync');
+const prisma = getPrismaClient();
+
+/**
+ * Listener that writes ClearNode notifications to the database
+ */
+export class ClearNodeSync {
+  private started = false;
+
+  /**
+   * Start listening; call before connecting so no notification is missed
+   */
+  start() {
+    if (this.started) return;
+    this.started = true;
+
+    clearNodeService.on('balanceUpdate', (update: BalanceUpdateNotification) => {
+      this.persist('balance update', () => this.saveBalances(update));
+    });
+
+    clearNodeService.on('channelUpdate', (channel: ChannelUpdateNotification) => {
+      this.persist('channel update', () => this.saveChannel(channel));
+    });
+
+    clearNodeService.on('appSessionUpdate', (update: AppSessionUpdateNotification) => {
+      this.persist('app session update', () => this.saveAppSession(update));
+    });
+
+    // Transfers are only logged; the balances they move arrive as balance updates
+    clearNodeService.on('transfer', (notice: TransferNotification) => {
+      for (const transaction of notice.transactions) {
+        logger.info('ClearNode transfer', {
+          id: transaction.id,
+          type: transaction.tx_type,
+          from: transaction.from_account,
+          to: transaction.to_account,
+          asset: transaction.asset,
+          amount: transaction.amount,
+        });
+      }
+    });
+
+    logger.info('Syncing ClearNode notifications');
+  }
+
+  private persist(label: string, task: () => Promise<void>) {
+    task().catch((error) => {
+      logger.error(`Failed to persist ClearNode ${label}`, error);
+    });
+  }
+
+  /**
+   * Balance updates carry the account's full balances, not deltas
+   */
+  private async saveBalances(update: BalanceUpdateNotification) {
+    const account = update.account.toLowerCase();
+
+    await prisma.$transaction(
+      update.balances.map((balance) =>
+        prisma.ledgerBalance.upsert({
+          where: { account_asset: { account, asset: balance.asset } },
+          create: { account, asset: balance.asset, amount: balance.amount },
+          update: { amount: balance.amount },
+        })
+      )
+    );
+
+    logger.debug('Ledger balances updated', { account, assets: update.balances.length });
+  }
+
+  private async saveChannel(channel: ChannelUpdateNotification) {
+    const existing = await prisma.ledgerChannel.findUnique({
+      where: { channelId: channel.channel_id },
+      select: { version: true },
+    });
+
+    // Notifications can arrive out of order
+    if (existing && existing.version > channel.version) return;
+
+    const data = {
+      participant: channel.participant.toLowerCase(),
+      token: channel.token,
+      amount: channel.amount,
+      status: channel.status,
+      chainId: BigInt(channel.chain_id),
+      version: channel.version,
+    };
+
+    await prisma.ledgerChannel.upsert({
+      where: { channelId: channel.channel_id },
+      create: { channelId: channel.channel_id, ...data },
+      update: data,
+    });
+
+    logger.debug('Ledger channel updated', { channelId: channel.channel_id, status: channel.status });
+  }
+
+  /**
+   * Record ClearNode's view next to our signed state; sessions that are
+   * not deal channels are ignored
+   */
+  private async saveAppSession({ session, allocations }: AppSessionUpdateNotification) {
+    const { count } = await prisma.channelState.updateMany({
+      where: {
+        channelId: session.app_session_id,
+        OR: [{ clearNodeVersion: null }, { clearNodeVersion: { lte: session.version } }],
+      },
+      data: {
+        clearNodeStatus: session.status,
+        clearNodeVersion: session.version,
+        ...(allocations.length > 0 && {
+          clearNodeAllocations: allocations as unknown as Prisma.InputJsonValue,
+        }),
+        clearNodeUpdatedAt: new Date(),
+      },
+    });
+
+    if (count > 0) {
+      logger.info('Channel updated from ClearNode', {
+        channelId: session.app_session_id,
+        status: session.status,
+        version: session.version,
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const clearNodeSync = new ClearNodeSync();
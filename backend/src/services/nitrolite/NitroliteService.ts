@@ -2,16 +2,278 @@
  * Nitrolite Service
  * Manages state channels for deals using ERC-7824 ClearNode protocol
  */
-import { type Address } from 'viem';
+import { getAddress, type Address, type Hex } from 'viem';
 import { createModuleLogger } from '../../utils/logger';
 import { getPrismaClient } from '../database/prisma';
 import { clearNodeService } from '../clearnode/ClearNodeService';
+import { clearNodeSync } from './ClearNodeSync';
 import { PROTOCOL_CONSTANTS } from '../../config/clearnode';
-import type { AppDefinition, AppAllocation } from '../clearnode/types';
+import { eventStreamService, topics } from '../stream/EventStreamService';
+import { dealVaultService } from '../blockchain/DealVaultService';
+import type { ChannelState, Prisma, StateHistory, StateIntent } from '@prisma/client';
+import { splitProRata } from '../../utils/math';
+import type {
+  AppDefinition,
+  AppAllocation,
+  AppSessionInfo,
+  AppStateIntent,
+  Allowance,
+} from '../clearnode/types';
+import {
+  getBackendSigner,
+  hashChannelState,
+  recoverStateSigner,
+  signStateHash,
+  type HashableState,
+} from './ChannelStateHash';
 
 const logger = createModuleLogger('nitrolite');
 const prisma = getPrismaClient();
 
+// Queue priority of a re-link, ahead of the deal's pending lockDeal
+const RELINK_PRIORITY = 10;
+
+export class ChannelError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'ChannelError';
+  }
+}
+
+/**
+ * Channel allocation as stored in ChannelState / StateHistory
+ */
+export interface ChannelAllocation {
+  destination: Address;
+  token: string;
+  amount: string;
+  // Positions whose deposits are held in this seat
+  positionIds: string[];
+}
+
+export interface SeatPosition {
+  id: bigint;
+  owner: string;
+  depositAmount: bigint;
+}
+
+export interface SessionSeats {
+  participants: Address[];
+  weights: number[];
+  quorum: number;
+  allocations: ChannelAllocation[];
+}
+
+/**
+ * Build app session seats for a deal
+ * The dealer takes seat 0 and every LP address one further seat holding
+ * its deposits (a dealer's own deposits stay in seat 0). The dealer has
+ * PROTOCOL_CONSTANTS.dealerWeight and LPs split the remaining weight by
+ * deposit share; quorum is the dealer plus LPs holding a majority.
+ */
+export function buildSessionSeats(
+  dealer: Address,
+  token: string,
+  positions: SeatPosition[]
+): SessionSeats {
+  const seats = new Map<string, { allocation: ChannelAllocation; deposit: bigint }>();
+  const seatFor = (address: string) => {
+    const key = address.toLowerCase();
+    if (!seats.has(key)) {
+      seats.set(key, {
+        allocation: { destination: getAddress(address), token, amount: '0', positionIds: [] },
+        deposit: 0n,
+      });
+    }
+    return seats.get(key)!;
+  };
+
+  seatFor(dealer);
+
+  const sorted = [...positions].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  for (const position of sorted) {
+    const seat = seatFor(position.owner);
+    seat.deposit += position.depositAmount;
+    seat.allocation.positionIds.push(position.id.toString());
+  }
+
+  const entries = [...seats.values()];
+  const lpWeight = PROTOCOL_CONSTANTS.totalWeight - PROTOCOL_CONSTANTS.dealerWeight;
+  const lpShares = splitProRata(BigInt(lpWeight), entries.map((seat) => seat.deposit));
+
+  return {
+    participants: entries.map((seat) => seat.allocation.destination),
+    weights: lpShares.map((share, index) =>
+      Number(share) + (index === 0 ? PROTOCOL_CONSTANTS.dealerWeight : 0)
+    ),
+    quorum: PROTOCOL_CONSTANTS.dealerWeight + Math.floor(lpWeight / 2) + 1,
+    allocations: entries.map((seat) => ({ ...seat.allocation, amount: seat.deposit.toString() })),
+  };
+}
+
+/**
+ * Replace the amounts of stored allocations, keeping seats in order
+ */
+function withAmounts(allocations: ChannelAllocation[], amounts: bigint[]): ChannelAllocation[] {
+  if (amounts.length !== allocations.length) {
+    throw new Error(`Expected ${allocations.length} allocations, got ${amounts.length}`);
+  }
+
+  return allocations.map((allocation, index) => ({
+    ...allocation,
+    amount: amounts[index].toString(),
+  }));
+}
+
+export interface ResizePlan {
+  deposits: SeatPosition[];
+  withdrawals: SeatPosition[];
+  // Late deposits from addresses without a seat
+  unseated: SeatPosition[];
+}
+
+/**
+ * Work out which positions a channel's seats must gain or lose
+ * Late deposits join their owner's seat; claimed positions still held in
+ * a seat were withdrawn before settlement and leave it. Seats are fixed
+ * when the app session opens, so deposits from new addresses need a new
+ * session.
+ */
+export function planResize(
+  allocations: ChannelAllocation[],
+  positions: (SeatPosition & { claimed: boolean })[]
+): ResizePlan {
+  const seated = new Set(allocations.flatMap((allocation) => allocation.positionIds));
+  const plan: ResizePlan = { deposits: [], withdrawals: [], unseated: [] };
+
+  for (const position of positions) {
+    const held = seated.has(position.id.toString());
+
+    if (position.claimed) {
+      if (held) plan.withdrawals.push(position);
+    } else if (!held) {
+      const hasSeat = allocations.some((allocation) => sameSeat(allocation, position.owner));
+      (hasSeat ? plan.deposits : plan.unseated).push(position);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Move positions into (deposit) or out of (withdraw) their owners' seats,
+ * adjusting seat amounts by their deposits
+ */
+function resizeAllocations(
+  allocations: ChannelAllocation[],
+  positions: SeatPosition[],
+  intent: 'deposit' | 'withdraw'
+): ChannelAllocation[] {
+  return allocations.map((allocation) => {
+    const moved = positions.filter((position) =>
+      intent === 'deposit'
+        ? sameSeat(allocation, position.owner)
+        : allocation.positionIds.includes(position.id.toString())
+    );
+    if (moved.length === 0) return allocation;
+
+    const total = moved.reduce((sum, position) => sum + position.depositAmount, 0n);
+    const ids = moved.map((position) => position.id.toString());
+    const amount = BigInt(allocation.amount);
+
+    return intent === 'deposit'
+      ? {
+          ...allocation,
+          amount: (amount + total).toString(),
+          positionIds: [...allocation.positionIds, ...ids],
+        }
+      : {
+          ...allocation,
+          // A seat that lost money cannot return more than it holds
+          amount: (amount > total ? amount - total : 0n).toString(),
+          positionIds: allocation.positionIds.filter((id) => !ids.includes(id)),
+        };
+  });
+}
+
+function sameSeat(allocation: ChannelAllocation, owner: string) {
+  return allocation.destination.toLowerCase() === owner.toLowerCase();
+}
+
+/**
+ * Stored allocations as ClearNode app allocations
+ */
+function toAppAllocations(allocations: ChannelAllocation[]): AppAllocation[] {
+  return allocations.map((allocation) => ({
+    participant: allocation.destination,
+    asset: PROTOCOL_CONSTANTS.asset,
+    amount: allocation.amount,
+  }));
+}
+
+/**
+ * Change of one seat's amount between two state versions
+ */
+export interface AllocationChange {
+  destination: Address;
+  token: string;
+  before: string;
+  after: string;
+  delta: string;
+}
+
+export interface StateDiff {
+  fromVersion: bigint | null;
+  toVersion: bigint;
+  intent: { from: StateIntent | null; to: StateIntent };
+  // Only seats whose amount changed, matched by destination
+  allocations: AllocationChange[];
+  stateDataChanged: boolean;
+}
+
+/**
+ * Diff two stored states; without `from`, every seat starts at zero
+ */
+export function diffStates(from: StateHistory | null, to: StateHistory): StateDiff {
+  const before = new Map(
+    ((from?.allocations ?? []) as unknown as ChannelAllocation[]).map((allocation) => [
+      allocation.destination.toLowerCase(),
+      allocation,
+    ])
+  );
+  const after = new Map(
+    (to.allocations as unknown as ChannelAllocation[]).map((allocation) => [
+      allocation.destination.toLowerCase(),
+      allocation,
+    ])
+  );
+
+  const changes: AllocationChange[] = [];
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const seat = (after.get(key) ?? before.get(key))!;
+    const previous = BigInt(before.get(key)?.amount ?? '0');
+    const next = BigInt(after.get(key)?.amount ?? '0');
+
+    if (previous !== next) {
+      changes.push({
+        destination: seat.destination,
+        token: seat.token,
+        before: previous.toString(),
+        after: next.toString(),
+        delta: (next - previous).toString(),
+      });
+    }
+  }
+
+  return {
+    fromVersion: from?.version ?? null,
+    toVersion: to.version,
+    intent: { from: from?.intent ?? null, to: to.intent },
+    allocations: changes,
+    stateDataChanged: (from?.stateData ?? null) !== (to.stateData ?? null),
+  };
+}
+
 /**
  * Nitrolite Service for managing state channels via ClearNode
  */
@@ -28,6 +290,8 @@ export class NitroliteService {
       }
 
       await clearNodeService.initialize(process.env.PRIVATE_KEY_BACKEND);
+      clearNodeService.setAllowanceProvider(() => this.getSessionAllowances());
+      clearNodeSync.start();
       await clearNodeService.connect();
 
       logger.info('Nitrolite service initialized with ClearNode');
@@ -39,91 +303,24 @@ export class NitroliteService {
 
   /**
    * Create a state channel for a deal
-   * Uses ClearNode to create application session
+   * Uses ClearNode to create an application session with the dealer and
+   * one seat per LP address
    */
   async createChannelForDeal(
     dealId: bigint,
     dealer: Address,
-    lp: Address,
-    lpAmount: bigint
+    token: string,
+    positions: SeatPosition[]
   ) {
     try {
-      logger.info('Creating state channel for deal', {
-        dealId: dealId.toString(),
-        participants: [dealer, lp],
-        lpAmount: lpAmount.toString(),
-      });
+      const seats = buildSessionSeats(dealer, token, positions);
+      const session = await this.openSession(dealId, seats);
 
-      // Define application session
-      const appDefinition: AppDefinition = {
-        protocol: PROTOCOL_CONSTANTS.protocol,
-        participants: [dealer, lp],
-        weights: [50, 50], // Equal weight for both participants
-        quorum: PROTOCOL_CONSTANTS.defaultQuorum,
-        challenge: PROTOCOL_CONSTANTS.defaultChallenge,
-        nonce: Date.now(),
-      };
-
-      // Define initial allocations
-      // LP deposits funds, dealer starts with 0
-      const allocations: AppAllocation[] = [
-        {
-          participant: dealer,
-          asset: 'usdc', // Asset identifier
-          amount: '0',
-        },
-        {
-          participant: lp,
-          asset: 'usdc',
-          amount: lpAmount.toString(),
-        },
-      ];
-
-      // Create application session via ClearNode
-      const session = await clearNodeService.createAppSession(
-        appDefinition,
-        allocations
+      const history = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+        this.saveInitialState(tx, dealId, session.app_session_id, seats)
       );
 
-      // Save channel state to database
-      await prisma.channelState.create({
-        data: {
-          channelId: session.app_session_id,
-          dealId,
-          stateHash: session.app_session_id, // Use session ID as initial hash
-          version: 1n,
-          intent: 'INITIALIZE',
-          allocation0: {
-            destination: dealer,
-            amount: '0',
-          },
-          allocation1: {
-            destination: lp,
-            amount: lpAmount.toString(),
-          },
-          participants: [dealer, lp],
-          stateData: this.encodeDealId(dealId),
-        },
-      });
-
-      // Save to history
-      await prisma.stateHistory.create({
-        data: {
-          channelId: session.app_session_id,
-          version: 1n,
-          stateHash: session.app_session_id,
-          intent: 'INITIALIZE',
-          allocation0: {
-            destination: dealer,
-            amount: '0',
-          },
-          allocation1: {
-            destination: lp,
-            amount: lpAmount.toString(),
-          },
-          stateData: this.encodeDealId(dealId),
-        },
-      });
+      await this.publishState(dealId, history);
 
       logger.info('State channel created', {
         channelId: session.app_session_id,
@@ -135,10 +332,7 @@ export class NitroliteService {
         status: session.status,
         initialState: {
           version: 1n,
-          allocations: [
-            { destination: dealer, amount: 0n },
-            { destination: lp, amount: lpAmount },
-          ],
+          allocations: seats.allocations,
         },
       };
     } catch (error) {
@@ -149,12 +343,12 @@ export class NitroliteService {
 
   /**
    * Update channel state (off-chain)
-   * Updates allocations based on trading activity
+   * Updates allocations based on trading activity; `amounts` are per
+   * participant, in participant order
    */
   async updateChannelState(
     channelId: string,
-    newAmount0: bigint,
-    newAmount1: bigint,
+    amounts: bigint[],
     stateData?: string
   ) {
     try {
@@ -163,53 +357,58 @@ export class NitroliteService {
       });
 
       if (!currentState) {
-        throw new Error('Channel state not found');
+        throw new ChannelError('Channel state not found', 404);
       }
 
-      const participants = currentState.participants as string[];
+      this.assertCountersigned(currentState);
+
+      const allocations = withAmounts(currentState.allocations as unknown as ChannelAllocation[], amounts);
       const newVersion = currentState.version + 1n;
+      const newStateData = stateData || currentState.stateData;
+      const { stateHash, signature0 } = await this.signState({
+        channelId,
+        version: newVersion,
+        intent: 'OPERATE',
+        allocations,
+        stateData: newStateData,
+      });
+
+      // ClearNode must accept the state before it is stored
+      await this.submitState(currentState, newVersion, allocations, newStateData);
 
       // Update state in database
       await prisma.channelState.update({
         where: { channelId },
         data: {
           version: newVersion,
+          stateHash,
           intent: 'OPERATE',
-          allocation0: {
-            destination: participants[0],
-            amount: newAmount0.toString(),
-          },
-          allocation1: {
-            destination: participants[1],
-            amount: newAmount1.toString(),
-          },
-          stateData: stateData || currentState.stateData,
+          allocations: allocations as unknown as Prisma.InputJsonValue,
+          signature0,
+          signature1: null,
+          stateData: newStateData,
         },
       });
 
       // Save to history
-      await prisma.stateHistory.create({
+      const history = await prisma.stateHistory.create({
         data: {
           channelId,
           version: newVersion,
-          stateHash: newVersion.toString(),
+          stateHash,
           intent: 'OPERATE',
-          allocation0: {
-            destination: participants[0],
-            amount: newAmount0.toString(),
-          },
-          allocation1: {
-            destination: participants[1],
-            amount: newAmount1.toString(),
-          },
-          stateData: stateData || currentState.stateData,
+          allocations: allocations as unknown as Prisma.InputJsonValue,
+          signature0,
+          stateData: newStateData,
         },
       });
 
+      await this.publishState(currentState.dealId, history);
+
       logger.info('Channel state updated off-chain', {
         channelId,
         version: newVersion.toString(),
-        allocations: [newAmount0.toString(), newAmount1.toString()],
+        allocations: amounts.map((amount) => amount.toString()),
       });
 
       return { channelId, version: newVersion };
@@ -219,13 +418,189 @@ export class NitroliteService {
     }
   }
 
+  /**
+   * Resize a deal's channel to its current positions
+   * Late deposits are moved in, or withdrawn positions out, as a RESIZE
+   * state; one direction per version, withdrawals first. Deposits from
+   * addresses without a seat re-create the session instead. Returns null
+   * if the channel already matches.
+   */
+  async resizeChannel(dealId: bigint) {
+    try {
+      const currentState = await prisma.channelState.findUnique({
+        where: { dealId },
+        include: {
+          deal: {
+            select: {
+              dealer: true,
+              depositToken: true,
+              simulated: true,
+              positions: { select: { id: true, owner: true, depositAmount: true, claimed: true } },
+            },
+          },
+        },
+      });
+
+      if (!currentState) {
+        throw new ChannelError('Channel state not found', 404);
+      }
+
+      if (currentState.intent === 'FINALIZE') {
+        throw new ChannelError('Channel is finalized', 409);
+      }
+
+      const { channelId } = currentState;
+      const current = currentState.allocations as unknown as ChannelAllocation[];
+      const positions = currentState.deal.positions.map((position) => ({
+        id: position.id,
+        owner: position.owner,
+        depositAmount: BigInt(position.depositAmount.toFixed(0)),
+        claimed: position.claimed,
+      }));
+      const plan = planResize(current, positions);
+
+      if (plan.unseated.length > 0) {
+        return await this.reopenChannel(
+          currentState,
+          positions.filter((position) => !position.claimed),
+          plan.unseated
+        );
+      }
+
+      const intent = plan.withdrawals.length > 0 ? 'withdraw' : plan.deposits.length > 0 ? 'deposit' : null;
+      if (!intent) return null;
+
+      this.assertCountersigned(currentState);
+
+      const moved = intent === 'withdraw' ? plan.withdrawals : plan.deposits;
+      const allocations = resizeAllocations(current, moved, intent);
+      const newVersion = currentState.version + 1n;
+      const { stateHash, signature0 } = await this.signState({
+        channelId,
+        version: newVersion,
+        intent: 'RESIZE',
+        allocations,
+        stateData: currentState.stateData,
+      });
+
+      // ClearNode moves the difference between unified balances and the session
+      await clearNodeService.refreshAllowances();
+      await this.submitState(currentState, newVersion, allocations, currentState.stateData, intent);
+
+      await prisma.channelState.update({
+        where: { channelId },
+        data: {
+          version: newVersion,
+          stateHash,
+          intent: 'RESIZE',
+          allocations: allocations as unknown as Prisma.InputJsonValue,
+          signature0,
+          signature1: null,
+        },
+      });
+
+      const history = await prisma.stateHistory.create({
+        data: {
+          channelId,
+          version: newVersion,
+          stateHash,
+          intent: 'RESIZE',
+          allocations: allocations as unknown as Prisma.InputJsonValue,
+          signature0,
+          stateData: currentState.stateData,
+        },
+      });
+
+      await this.publishState(dealId, history);
+
+      const positionIds = moved.map((position) => position.id.toString());
+      logger.info('Channel resized', {
+        channelId,
+        version: newVersion.toString(),
+        intent,
+        positionIds,
+      });
+
+      return { channelId, version: newVersion, intent, positionIds };
+    } catch (error) {
+      if (!(error instanceof ChannelError)) {
+        logger.error('Failed to resize channel', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a deal's app session to seat late depositors
+   * Participants are fixed when a session opens, so a session that has only
+   * opened and resized is closed and opened again with a seat per LP
+   * address, and the deal is re-linked on-chain ahead of its queued lock.
+   * Once the channel has traded, unseated deposits are an error.
+   */
+  private async reopenChannel(
+    currentState: ChannelState & { deal: { dealer: string; depositToken: string; simulated: boolean } },
+    positions: SeatPosition[],
+    unseated: SeatPosition[]
+  ) {
+    const { channelId, dealId, deal } = currentState;
+    const positionIds = unseated.map((position) => position.id.toString());
+
+    const [traded, disputes] = await Promise.all([
+      prisma.stateHistory.count({
+        where: { channelId, intent: { notIn: ['INITIALIZE', 'RESIZE'] } },
+      }),
+      prisma.channelDispute.count({ where: { channelId } }),
+    ]);
+
+    if (traded > 0 || disputes > 0) {
+      throw new ChannelError(
+        `Positions ${positionIds.join(', ')} have no seat and the channel has already traded`,
+        422
+      );
+    }
+
+    this.assertCountersigned(currentState);
+
+    // Funds go back to the participants' unified balances for the new session
+    await this.closeSession(currentState, currentState.allocations as unknown as ChannelAllocation[]);
+
+    const seats = buildSessionSeats(deal.dealer as Address, deal.depositToken, positions);
+    const session = await this.openSession(dealId, seats);
+
+    // The replaced session never traded, so its states are dropped
+    const history = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.stateHistory.deleteMany({ where: { channelId } });
+      await tx.channelState.delete({ where: { channelId } });
+      return await this.saveInitialState(tx, dealId, session.app_session_id, seats);
+    });
+
+    const linkJob = deal.simulated
+      ? null
+      : await dealVaultService.linkChannel(dealId, session.app_session_id, RELINK_PRIORITY);
+
+    await this.publishState(dealId, history);
+
+    logger.warn('Channel re-created to seat late depositors', {
+      dealId: dealId.toString(),
+      previousChannelId: channelId,
+      channelId: session.app_session_id,
+      positionIds,
+      linkJobId: linkJob?.id,
+    });
+
+    return { channelId: session.app_session_id, version: 1n, intent: 'reopen' as const, positionIds };
+  }
+
   /**
    * Finalize channel and prepare for settlement
+   * `amounts` are the final per-participant allocations. Closing the app
+   * session is the settlement: ClearNode releases the allocations to the
+   * participants' unified balances. States only reach YellowChannel when a
+   * channel is disputed, through the watchtower.
    */
   async finalizeChannel(
     channelId: string,
-    finalAmount0: bigint,
-    finalAmount1: bigint
+    amounts: bigint[]
   ) {
     try {
       const currentState = await prisma.channelState.findUnique({
@@ -233,39 +608,57 @@ export class NitroliteService {
       });
 
       if (!currentState) {
-        throw new Error('Channel state not found');
+        throw new ChannelError('Channel state not found', 404);
       }
 
-      const participants = currentState.participants as string[];
+      this.assertCountersigned(currentState);
+
+      const allocations = withAmounts(currentState.allocations as unknown as ChannelAllocation[], amounts);
+      const newVersion = currentState.version + 1n;
+      const { stateHash, signature0 } = await this.signState({
+        channelId,
+        version: newVersion,
+        intent: 'FINALIZE',
+        allocations,
+        stateData: currentState.stateData,
+      });
+
+      // Close the app session so ClearNode releases the final allocations
+      await this.closeSession(currentState, allocations);
 
       // Update to FINALIZE state
       await prisma.channelState.update({
         where: { channelId },
         data: {
-          version: { increment: 1 },
+          version: newVersion,
+          stateHash,
           intent: 'FINALIZE',
-          allocation0: {
-            destination: participants[0],
-            amount: finalAmount0.toString(),
-          },
-          allocation1: {
-            destination: participants[1],
-            amount: finalAmount1.toString(),
-          },
+          allocations: allocations as unknown as Prisma.InputJsonValue,
+          signature0,
+          signature1: null,
         },
       });
 
+      // Save to history
+      const history = await prisma.stateHistory.create({
+        data: {
+          channelId,
+          version: newVersion,
+          stateHash,
+          intent: 'FINALIZE',
+          allocations: allocations as unknown as Prisma.InputJsonValue,
+          signature0,
+          stateData: currentState.stateData,
+        },
+      });
+
+      await this.publishState(currentState.dealId, history);
+
       logger.info('Channel finalized', {
         channelId,
-        finalAllocations: [finalAmount0.toString(), finalAmount1.toString()],
+        finalAllocations: amounts.map((amount) => amount.toString()),
       });
 
-      // TODO: Submit final state to YellowChannel contract for on-chain settlement
-      // This would involve:
-      // 1. Getting final state signatures from both participants
-      // 2. Calling conclude() on YellowChannel contract
-      // 3. Participants can then withdraw from custody contract
-
       return { channelId, finalized: true };
     } catch (error) {
       logger.error('Failed to finalize channel', error);
@@ -273,6 +666,67 @@ export class NitroliteService {
     }
   }
 
+  /**
+   * Record the counterparty (dealer) signature for a state version
+   * The signature must recover to the dealer over the stored state hash,
+   * which is recomputed first so a tampered row cannot be countersigned.
+   */
+  async addCounterpartySignature(channelId: string, version: bigint, signature: Hex) {
+    const state = await prisma.stateHistory.findFirst({
+      where: { channelId, version },
+      include: { channelState: { include: { deal: { select: { dealer: true } } } } },
+    });
+
+    if (!state) {
+      throw new ChannelError(`State version ${version} not found`, 404);
+    }
+
+    if (state.signature1) {
+      if (state.signature1.toLowerCase() === signature.toLowerCase()) return state;
+      throw new ChannelError(`State version ${version} is already countersigned`, 409);
+    }
+
+    const stateHash = hashChannelState({
+      channelId,
+      version: state.version,
+      intent: state.intent,
+      allocations: state.allocations as unknown as ChannelAllocation[],
+      stateData: state.stateData,
+    });
+
+    if (stateHash !== state.stateHash) {
+      throw new ChannelError(`Stored hash of state version ${version} does not match its contents`, 409);
+    }
+
+    const signer = await recoverStateSigner(stateHash, signature);
+    const dealer = state.channelState.deal.dealer;
+
+    if (!signer || signer.toLowerCase() !== dealer.toLowerCase()) {
+      throw new ChannelError(`Signature is not from the counterparty ${dealer}`, 400);
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.stateHistory.update({
+        where: { id: state.id },
+        data: { signature1: signature },
+      }),
+      prisma.channelState.updateMany({
+        where: { channelId, version },
+        data: { signature1: signature },
+      }),
+    ]);
+
+    await this.publishState(state.channelState.dealId, updated);
+
+    logger.info('Counterparty signature recorded', {
+      channelId,
+      version: version.toString(),
+      signer,
+    });
+
+    return updated;
+  }
+
   /**
    * Get channel state from database
    */
@@ -304,6 +758,44 @@ export class NitroliteService {
     });
   }
 
+  /**
+   * Get a page of a channel's state history, newest first
+   * Each entry carries its diff against the version before it.
+   */
+  async getStateHistory(channelId: string, limit: number, offset: number) {
+    // One extra row so the oldest entry on the page can be diffed too
+    const rows = await prisma.stateHistory.findMany({
+      where: { channelId },
+      orderBy: { version: 'desc' },
+      take: limit + 1,
+      skip: offset,
+    });
+
+    return rows.slice(0, limit).map((state, index) => ({
+      ...state,
+      diff: diffStates(rows[index + 1] ?? null, state),
+    }));
+  }
+
+  /**
+   * Diff two stored versions of a channel
+   */
+  async getStateDiff(channelId: string, fromVersion: bigint, toVersion: bigint) {
+    const states = await prisma.stateHistory.findMany({
+      where: { channelId, version: { in: [fromVersion, toVersion] } },
+    });
+
+    const find = (version: bigint) => {
+      const state = states.find((candidate) => candidate.version === version);
+      if (!state) {
+        throw new ChannelError(`State version ${version} not found`, 404);
+      }
+      return state;
+    };
+
+    return diffStates(find(fromVersion), find(toVersion));
+  }
+
   /**
    * Get channel status from ClearNode
    */
@@ -317,6 +809,26 @@ export class NitroliteService {
     }
   }
 
+  /**
+   * Get the ClearNode view of a channel's app session
+   */
+  async getAppSession(channelId: string) {
+    try {
+      const [sessions, definition] = await Promise.all([
+        clearNodeService.getAppSessions(),
+        clearNodeService.getAppDefinition(channelId),
+      ]);
+
+      return {
+        session: sessions.find((session) => session.app_session_id === channelId) ?? null,
+        definition,
+      };
+    } catch (error) {
+      logger.error('Failed to get app session from ClearNode', error);
+      throw error;
+    }
+  }
+
   /**
    * Get ledger balances from ClearNode
    */
@@ -329,6 +841,239 @@ export class NitroliteService {
     }
   }
 
+  /**
+   * Allowances for ClearNode session keys: the deposits of every deal that
+   * has, or is about to have, an open channel
+   */
+  private async getSessionAllowances(): Promise<Allowance[]> {
+    const { _sum } = await prisma.deal.aggregate({
+      where: { status: { in: ['CREATED', 'LOCKED', 'ACTIVE', 'SETTLING'] } },
+      _sum: { totalDeposited: true },
+    });
+
+    return [
+      {
+        asset: PROTOCOL_CONSTANTS.asset,
+        amount: _sum.totalDeposited?.toFixed(0) ?? '0',
+      },
+    ];
+  }
+
+  /**
+   * Create the ClearNode app session for a deal's seats
+   * LPs hold their deposits, the dealer starts with its own. The backend
+   * wallet, which signs the session's requests, joins after the seats with
+   * zero weight and no allocation: it operates the session but does not
+   * count towards quorum. The nonce is the deal ID, so a session created
+   * by an attempt that failed before storing it is found and reused.
+   */
+  private async openSession(dealId: bigint, seats: SessionSeats) {
+    if (dealId > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new ChannelError(`Deal ID ${dealId} does not fit an app session nonce`, 422);
+    }
+
+    logger.info('Creating state channel for deal', {
+      dealId: dealId.toString(),
+      participants: seats.participants,
+      weights: seats.weights,
+      quorum: seats.quorum,
+    });
+
+    const backend = getBackendSigner();
+    const appDefinition: AppDefinition = {
+      protocol: PROTOCOL_CONSTANTS.protocol,
+      participants: [...seats.participants, backend],
+      weights: [...seats.weights, 0],
+      quorum: seats.quorum,
+      challenge: PROTOCOL_CONSTANTS.defaultChallenge,
+      nonce: Number(dealId),
+    };
+
+    const sameSession = (session: AppSessionInfo) =>
+      session.nonce === appDefinition.nonce &&
+      session.participants.length === appDefinition.participants.length &&
+      session.participants.every((participant, index) =>
+        participant.toLowerCase() === appDefinition.participants[index].toLowerCase()
+      );
+
+    const existing = (await clearNodeService.getAppSessions('open', backend)).find(sameSession);
+    if (existing) {
+      logger.warn('Reusing app session created by an earlier attempt', {
+        dealId: dealId.toString(),
+        channelId: existing.app_session_id,
+      });
+      return { app_session_id: existing.app_session_id, status: existing.status };
+    }
+
+    // The session key's allowance must cover this deal's deposits
+    await clearNodeService.refreshAllowances();
+
+    return await clearNodeService.createAppSession(appDefinition, toAppAllocations(seats.allocations));
+  }
+
+  /**
+   * Store version 1 of a new session, signed by the backend; the dealer
+   * countersigns it
+   */
+  private async saveInitialState(
+    tx: Prisma.TransactionClient,
+    dealId: bigint,
+    channelId: string,
+    seats: SessionSeats
+  ) {
+    const stateData = this.encodeDealId(dealId);
+    const { stateHash, signature0 } = await this.signState({
+      channelId,
+      version: 1n,
+      intent: 'INITIALIZE',
+      allocations: seats.allocations,
+      stateData,
+    });
+
+    await tx.channelState.create({
+      data: {
+        channelId,
+        dealId,
+        stateHash,
+        version: 1n,
+        intent: 'INITIALIZE',
+        allocations: seats.allocations as unknown as Prisma.InputJsonValue,
+        signature0,
+        participants: seats.participants,
+        weights: seats.weights,
+        quorum: seats.quorum,
+        stateData,
+      },
+    });
+
+    return await tx.stateHistory.create({
+      data: {
+        channelId,
+        version: 1n,
+        stateHash,
+        intent: 'INITIALIZE',
+        allocations: seats.allocations as unknown as Prisma.InputJsonValue,
+        signature0,
+        stateData,
+      },
+    });
+  }
+
+  /**
+   * Submit a new version to ClearNode
+   * Refused when ClearNode's session is already past the stored version (a
+   * state submitted elsewhere, or submitted but never stored), and failed
+   * when ClearNode takes it under another version; the channel then needs
+   * reconciling before it can move on.
+   */
+  private async submitState(
+    currentState: ChannelState,
+    version: bigint,
+    allocations: ChannelAllocation[],
+    stateData: string | null,
+    intent?: AppStateIntent
+  ) {
+    const { channelId } = currentState;
+
+    if (currentState.clearNodeVersion !== null && BigInt(currentState.clearNodeVersion) > currentState.version) {
+      throw new ChannelError(
+        `ClearNode session is at version ${currentState.clearNodeVersion}, stored state at ${currentState.version}`,
+        502
+      );
+    }
+
+    const submitted = await clearNodeService.submitAppState(
+      channelId,
+      toAppAllocations(allocations),
+      stateData ?? undefined,
+      intent
+    );
+
+    if (submitted.version !== undefined && BigInt(submitted.version) !== version) {
+      await prisma.channelState.update({
+        where: { channelId },
+        data: { clearNodeVersion: submitted.version, clearNodeUpdatedAt: new Date() },
+      });
+      throw new ChannelError(
+        `ClearNode took version ${version} as version ${submitted.version}`,
+        502
+      );
+    }
+  }
+
+  /**
+   * Close a deal's app session with the given allocations
+   * A session ClearNode already closed (a retry after the close went
+   * through but the state was not stored) is taken as closed.
+   */
+  private async closeSession(currentState: ChannelState, allocations: ChannelAllocation[]) {
+    const { channelId } = currentState;
+
+    if (currentState.clearNodeStatus !== 'closed') {
+      try {
+        await clearNodeService.closeAppSession(
+          channelId,
+          toAppAllocations(allocations),
+          currentState.stateData ?? undefined
+        );
+      } catch (error) {
+        const closed = await clearNodeService.getAppSessions('closed');
+        if (!closed.some((session) => session.app_session_id === channelId)) {
+          throw error;
+        }
+        logger.warn('App session was already closed', { channelId });
+      }
+    }
+
+    await prisma.channelState.update({
+      where: { channelId },
+      data: { clearNodeStatus: 'closed', clearNodeUpdatedAt: new Date() },
+    });
+  }
+
+  /**
+   * Hash a state and sign it as party 0
+   */
+  private async signState(state: HashableState) {
+    const stateHash = hashChannelState(state);
+    const signature0 = await signStateHash(stateHash);
+    return { stateHash, signature0 };
+  }
+
+  /**
+   * A new version may only follow a state both parties have signed
+   */
+  private assertCountersigned(state: { version: bigint; signature0: string | null; signature1: string | null }) {
+    if (!state.signature0 || !state.signature1) {
+      throw new ChannelError(
+        `State version ${state.version} is waiting for the counterparty signature`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Push a new state version to stream subscribers
+   * The state is already stored, so a failed publish is only logged.
+   */
+  private async publishState(dealId: bigint, history: StateHistory) {
+    try {
+      await eventStreamService.publish('channel.state', [topics.deal(dealId)], {
+        dealId: dealId.toString(),
+        channelId: history.channelId,
+        version: history.version.toString(),
+        stateHash: history.stateHash,
+        intent: history.intent,
+        allocations: history.allocations,
+        signature0: history.signature0,
+        signature1: history.signature1,
+        timestamp: history.timestamp.toISOString(),
+      });
+    } catch (error) {
+      logger.warn('Failed to publish channel state', error);
+    }
+  }
+
   /**
    * Encode deal ID into hex string for state data
    */
@@ -1,15 +1,23 @@
 /**
  * FTSO Price Service
- * Fetches price data from Flare Time Series Oracle
+ * Reads prices from the Flare Time Series Oracle; one of the sources behind
+ * the price aggregator. The legacy symbol registry or FTSOv2 feed IDs are
+ * used depending on the network (FTSO_CONFIG.interfaces).
  */
-import { createPublicClient, http, type Address } from 'viem';
+import {
+  createPublicClient,
+  decodeFunctionResult,
+  encodeFunctionData,
+  http,
+  zeroAddress,
+  type Address,
+  type Hex,
+} from 'viem';
 import { createModuleLogger } from '../../utils/logger';
 import { CHAINS } from '../../config/chains';
-import { FTSO_CONFIG } from '../../config/contracts';
-import { getPrismaClient } from '../database/prisma';
+import { FTSO_CONFIG, type FtsoInterface } from '../../config/contracts';
 
 const logger = createModuleLogger('ftso');
-const prisma = getPrismaClient();
 
 // FTSO Registry ABI (simplified)
 const FTSO_REGISTRY_ABI = [
@@ -33,190 +41,263 @@ const FTSO_REGISTRY_ABI = [
   },
 ] as const;
 
+// FtsoV2Interface (simplified); getFeedsById is payable on-chain but free to eth_call
+const FTSO_V2_ABI = [
+  {
+    name: 'getFeedsById',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: '_feedIds', type: 'bytes21[]' }],
+    outputs: [
+      { name: '_values', type: 'uint256[]' },
+      { name: '_decimals', type: 'int8[]' },
+      { name: '_timestamp', type: 'uint64' },
+    ],
+  },
+] as const;
+
+const FLARE_CONTRACT_REGISTRY_ABI = [
+  {
+    name: 'getContractAddressByName',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: '_name', type: 'string' }],
+    outputs: [{ name: '', type: 'address' }],
+  },
+] as const;
+
+function createFlareClient() {
+  return createPublicClient({
+    chain: {
+      id: CHAINS.flare.id,
+      name: CHAINS.flare.name,
+      network: 'flare',
+      nativeCurrency: CHAINS.flare.nativeCurrency,
+      rpcUrls: {
+        default: { http: [CHAINS.flare.rpcUrl] },
+        public: { http: [CHAINS.flare.rpcUrl] },
+      },
+    },
+    transport: http(CHAINS.flare.rpcUrl),
+  });
+}
+
+// Inferred: an annotated PublicClient rejects a client with a chain when
+// strictNullChecks is off. For the same reason contracts are read with
+// call + decodeFunctionResult rather than readContract.
+type FlareClient = ReturnType<typeof createFlareClient>;
+
+export interface FtsoPrice {
+  price: bigint;
+  timestamp: number;
+  decimals: number;
+}
+
 /**
- * FTSO Price Service for fetching oracle prices
+ * One FTSO interface; prices by upper-case symbol, with an Error for each
+ * symbol that could not be read
  */
-export class FTSOPriceService {
-  private client: any;
-  private isRunning = false;
-  private intervalId: NodeJS.Timeout | null = null;
+interface FtsoAdapter {
+  getPrices(symbols: string[]): Promise<Map<string, FtsoPrice | Error>>;
+  getSupportedSymbols(): Promise<string[]>;
+}
 
-  constructor() {
-    // Create public client for reading
-    this.client = createPublicClient({
-      chain: {
-        id: CHAINS.flare.id,
-        name: CHAINS.flare.name,
-        network: 'flare',
-        nativeCurrency: CHAINS.flare.nativeCurrency,
-        rpcUrls: {
-          default: { http: [CHAINS.flare.rpcUrl] },
-          public: { http: [CHAINS.flare.rpcUrl] },
-        },
-      },
-      transport: http(CHAINS.flare.rpcUrl),
+/**
+ * Legacy FtsoRegistry, read one symbol at a time
+ */
+class FtsoRegistryAdapter implements FtsoAdapter {
+  constructor(private client: FlareClient) {}
+
+  async getPrices(symbols: string[]): Promise<Map<string, FtsoPrice | Error>> {
+    const results = await Promise.allSettled(
+      symbols.map(async (symbol) => {
+        const { data } = await this.client.call({
+          to: FTSO_CONFIG.registryAddress as Address,
+          data: encodeFunctionData({
+            abi: FTSO_REGISTRY_ABI,
+            functionName: 'getCurrentPriceWithDecimals',
+            args: [symbol],
+          }),
+        });
+        return decodeFunctionResult({
+          abi: FTSO_REGISTRY_ABI,
+          functionName: 'getCurrentPriceWithDecimals',
+          data: data!,
+        });
+      })
+    );
+
+    return new Map<string, FtsoPrice | Error>(
+      results.map((result, index) => {
+        if (result.status === 'rejected') {
+          return [symbols[index], result.reason as Error];
+        }
+        const [price, timestamp, decimals] = result.value;
+        return [symbols[index], { price, timestamp: Number(timestamp), decimals: Number(decimals) }];
+      })
+    );
+  }
+
+  async getSupportedSymbols(): Promise<string[]> {
+    const { data } = await this.client.call({
+      to: FTSO_CONFIG.registryAddress as Address,
+      data: encodeFunctionData({ abi: FTSO_REGISTRY_ABI, functionName: 'getSupportedSymbols' }),
     });
+    return [...decodeFunctionResult({ abi: FTSO_REGISTRY_ABI, functionName: 'getSupportedSymbols', data: data! })];
   }
+}
 
-  /**
-   * Get current price for a symbol
-   */
-  async getPrice(symbol: string): Promise<{
-    price: bigint;
-    timestamp: number;
-    decimals: number;
-  }> {
-    try {
-      const result = await this.client.readContract({
-        address: FTSO_CONFIG.registryAddress as Address,
-        abi: FTSO_REGISTRY_ABI,
-        functionName: 'getCurrentPriceWithDecimals',
-        args: [symbol.toUpperCase()],
-      });
+/**
+ * FTSOv2, reading every mapped symbol's feed in one getFeedsById call
+ */
+class FtsoV2Adapter implements FtsoAdapter {
+  private address: Address | null = FTSO_CONFIG.v2Address ? (FTSO_CONFIG.v2Address as Address) : null;
 
-      const [price, timestamp, decimals] = result;
+  constructor(private client: FlareClient) {}
 
-      logger.debug('Fetched FTSO price', {
-        symbol,
-        price: price.toString(),
-        timestamp: Number(timestamp),
-        decimals: Number(decimals),
-      });
+  async getPrices(symbols: string[]): Promise<Map<string, FtsoPrice | Error>> {
+    const prices = new Map<string, FtsoPrice | Error>();
+    const mapped = symbols.filter((symbol) => {
+      if (!FTSO_CONFIG.feedIds[symbol]) {
+        prices.set(symbol, new Error(`No FTSOv2 feed ID for ${symbol}`));
+        return false;
+      }
+      return true;
+    });
 
-      return {
-        price,
-        timestamp: Number(timestamp),
-        decimals: Number(decimals),
-      };
-    } catch (error) {
-      logger.error('Failed to fetch FTSO price', { symbol, error });
-      throw error;
+    if (mapped.length === 0) {
+      return prices;
     }
-  }
 
-  /**
-   * Get and save price to database
-   */
-  async fetchAndSavePrice(symbol: string, tokenAddress?: string) {
-    try {
-      const { price, timestamp, decimals } = await this.getPrice(symbol);
-
-      // Convert price to decimal (assuming 18 decimals for storage)
-      const priceDecimal = Number(price) / Math.pow(10, decimals);
-
-      // Save to database
-      await prisma.priceHistory.create({
-        data: {
-          tokenSymbol: symbol.toUpperCase(),
-          tokenAddress,
-          price: priceDecimal,
-          source: 'FTSO',
-          chainId: BigInt(CHAINS.flare.id),
-          timestamp: new Date(timestamp * 1000),
-        },
-      });
+    const { data } = await this.client.call({
+      to: await this.getAddress(),
+      data: encodeFunctionData({
+        abi: FTSO_V2_ABI,
+        functionName: 'getFeedsById',
+        args: [mapped.map((symbol) => FTSO_CONFIG.feedIds[symbol] as Hex)],
+      }),
+    });
+    const [values, decimals, timestamp] = decodeFunctionResult({
+      abi: FTSO_V2_ABI,
+      functionName: 'getFeedsById',
+      data: data!,
+    });
 
-      logger.info('Price saved to database', {
-        symbol,
-        price: priceDecimal,
+    mapped.forEach((symbol, index) => {
+      // Feeds may report negative decimals: value * 10^-decimals
+      const feedDecimals = Number(decimals[index]);
+      prices.set(symbol, {
+        price: feedDecimals < 0 ? values[index] * 10n ** BigInt(-feedDecimals) : values[index],
+        timestamp: Number(timestamp),
+        decimals: Math.max(feedDecimals, 0),
       });
+    });
 
-      return { symbol, price: priceDecimal, timestamp };
-    } catch (error) {
-      logger.error('Failed to fetch and save price', { symbol, error });
-      throw error;
-    }
+    return prices;
   }
 
-  /**
-   * Get supported symbols
-   */
   async getSupportedSymbols(): Promise<string[]> {
-    try {
-      const symbols = await this.client.readContract({
-        address: FTSO_CONFIG.registryAddress as Address,
-        abi: FTSO_REGISTRY_ABI,
-        functionName: 'getSupportedSymbols',
+    return Object.keys(FTSO_CONFIG.feedIds);
+  }
+
+  private async getAddress(): Promise<Address> {
+    if (!this.address) {
+      const { data } = await this.client.call({
+        to: FTSO_CONFIG.contractRegistryAddress as Address,
+        data: encodeFunctionData({
+          abi: FLARE_CONTRACT_REGISTRY_ABI,
+          functionName: 'getContractAddressByName',
+          args: ['FtsoV2'],
+        }),
+      });
+      const address = decodeFunctionResult({
+        abi: FLARE_CONTRACT_REGISTRY_ABI,
+        functionName: 'getContractAddressByName',
+        data: data!,
       });
 
-      logger.info('Supported FTSO symbols', { count: symbols.length, symbols });
-      return symbols;
-    } catch (error) {
-      logger.error('Failed to fetch supported symbols', error);
-      throw error;
-    }
-  }
+      if (address === zeroAddress) {
+        throw new Error('FtsoV2 is not registered on this network');
+      }
 
-  /**
-   * Start automatic price fetching
-   */
-  startPriceFetching(symbols: string[] = ['BTC', 'ETH', 'FLR']) {
-    if (this.isRunning) {
-      logger.warn('Price fetching already running');
-      return;
+      logger.info('Resolved FtsoV2 address', { address });
+      this.address = address;
     }
+    return this.address;
+  }
+}
 
-    this.isRunning = true;
-    logger.info('Starting FTSO price fetching', {
-      symbols,
-      interval: `${FTSO_CONFIG.updateInterval / 1000}s`,
-    });
+/**
+ * FTSO Price Service for fetching oracle prices
+ */
+export class FTSOPriceService {
+  readonly interface: FtsoInterface;
+  private adapter: FtsoAdapter;
 
-    // Fetch immediately
-    this.fetchPrices(symbols);
+  constructor() {
+    // Create public client for reading
+    const client = createFlareClient();
 
-    // Then fetch at intervals
-    this.intervalId = setInterval(() => {
-      this.fetchPrices(symbols);
-    }, FTSO_CONFIG.updateInterval);
+    this.interface = FTSO_CONFIG.interfaces[CHAINS.flare.id] === 'v2' ? 'v2' : 'registry';
+    this.adapter = this.interface === 'v2' ? new FtsoV2Adapter(client) : new FtsoRegistryAdapter(client);
   }
 
   /**
-   * Stop automatic price fetching
+   * Get current price for a symbol
    */
-  stopPriceFetching() {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+  async getPrice(symbol: string): Promise<FtsoPrice> {
+    const price = (await this.getPrices([symbol])).get(symbol.toUpperCase());
+
+    if (price instanceof Error) {
+      throw price;
     }
-    this.isRunning = false;
-    logger.info('Stopped FTSO price fetching');
+    return price;
   }
 
   /**
-   * Fetch multiple prices
+   * Get current prices for several symbols, in a single call with FTSOv2
+   * Symbols that could not be read map to their Error.
    */
-  private async fetchPrices(symbols: string[]) {
-    logger.debug('Fetching FTSO prices', { symbols });
-
-    for (const symbol of symbols) {
-      try {
-        await this.fetchAndSavePrice(symbol);
-      } catch (error) {
-        logger.error('Failed to fetch price', { symbol, error });
+  async getPrices(symbols: string[]): Promise<Map<string, FtsoPrice | Error>> {
+    const upper = [...new Set(symbols.map((symbol) => symbol.toUpperCase()))];
+
+    try {
+      const prices = await this.adapter.getPrices(upper);
+
+      for (const [symbol, price] of prices) {
+        if (price instanceof Error) {
+          logger.error('Failed to fetch FTSO price', { symbol, interface: this.interface, error: price });
+        } else {
+          logger.debug('Fetched FTSO price', {
+            symbol,
+            interface: this.interface,
+            price: price.price.toString(),
+            timestamp: price.timestamp,
+            decimals: price.decimals,
+          });
+        }
       }
+
+      return prices;
+    } catch (error) {
+      logger.error('Failed to fetch FTSO prices', { symbols: upper, interface: this.interface, error });
+      throw error;
     }
   }
 
   /**
-   * Get latest price from database
+   * Get supported symbols
    */
-  async getLatestPrice(symbol: string) {
-    return await prisma.priceHistory.findFirst({
-      where: { tokenSymbol: symbol.toUpperCase() },
-      orderBy: { timestamp: 'desc' },
-    });
-  }
+  async getSupportedSymbols(): Promise<string[]> {
+    try {
+      const symbols = await this.adapter.getSupportedSymbols();
 
-  /**
-   * Get price history
-   */
-  async getPriceHistory(symbol: string, limit = 100) {
-    return await prisma.priceHistory.findMany({
-      where: { tokenSymbol: symbol.toUpperCase() },
-      orderBy: { timestamp: 'desc' },
-      take: limit,
-    });
+      logger.info('Supported FTSO symbols', { count: symbols.length, symbols });
+      return symbols;
+    } catch (error) {
+      logger.error('Failed to fetch supported symbols', error);
+      throw error;
+    }
   }
 }
 
@@ -0,0 +1,455 @@
+/**
+ * Price Aggregator
+ * Reads every configured price source, drops stale readings and outliers,
+ * and stores the median with the readings it came from. Settlement and the
+ * price API read prices only from here.
+ */
+import { formatUnits } from 'viem';
+import type { Prisma, PriceHistory } from '@prisma/client';
+import { createModuleLogger } from '../../utils/logger';
+import { CHAINS } from '../../config/chains';
+import { PRICE_CONFIG } from '../../config/contracts';
+import { getPrismaClient } from '../database/prisma';
+import { eventStreamService, topics } from '../stream/EventStreamService';
+import { createPriceSource, type PriceSource, type SourcePrice } from './PriceSources';
+
+const logger = createModuleLogger('prices');
+const prisma = getPrismaClient();
+
+// Readings are compared, and medians stored, at the 18-decimal scale of
+// the PriceHistory.price column, or finer if a source has more decimals
+const SCALE = 18;
+// Decimal(30, 18) holds values below 10^12
+const MAX_PRICE = 10n ** 12n;
+
+/**
+ * What one source returned in a round, as stored with the price
+ */
+export interface SourceReading {
+  source: string;
+  price: string | null;
+  // Integer price and decimals exactly as the source returned them
+  raw: string | null;
+  decimals: number | null;
+  timestamp: string | null;
+  status: 'used' | 'stale' | 'outlier' | 'failed';
+  error?: string;
+}
+
+export interface AggregatedPrice {
+  symbol: string;
+  price: string;
+  raw: bigint;
+  decimals: number;
+  // Oldest reading that contributed
+  timestamp: Date;
+  sources: SourceReading[];
+}
+
+interface ScaledReading {
+  reading: SourceReading;
+  value: bigint;
+  timestamp: number;
+}
+
+/**
+ * Exact value of a stored price: the raw integer, its decimals and the
+ * formatted decimal string
+ */
+export function storedPrice(row: Pick<PriceHistory, 'price' | 'priceRaw' | 'decimals'>) {
+  // Rows written before priceRaw existed are exact in price at 18 decimals
+  const raw = row.priceRaw === null
+    ? BigInt(row.price.toFixed(SCALE).replace('.', ''))
+    : BigInt(row.priceRaw.toFixed(0));
+  return { raw, decimals: row.decimals, price: formatUnits(raw, row.decimals) };
+}
+
+function toScale(price: bigint, decimals: number, scale: number): bigint {
+  return price * 10n ** BigInt(scale - decimals);
+}
+
+/**
+ * Median of the values; the lower-rounded mean of the middle two for an
+ * even count
+ */
+export function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2n;
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Medianizing price aggregator over the sources in PRICE_CONFIG
+ */
+export class PriceAggregator {
+  private sources: PriceSource[] | null = null;
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  /**
+   * Read all sources and aggregate them
+   * Throws if fewer than PRICE_CONFIG.minSources readings survive.
+   */
+  async aggregate(symbol: string): Promise<AggregatedPrice> {
+    const aggregated = (await this.aggregateMany([symbol])).get(symbol.toUpperCase());
+
+    if (aggregated instanceof Error) {
+      throw aggregated;
+    }
+    return aggregated;
+  }
+
+  /**
+   * Aggregate several symbols, reading batch-capable sources once for all
+   * of them; symbols without enough usable readings map to their Error
+   */
+  async aggregateMany(symbols: string[]): Promise<Map<string, AggregatedPrice | Error>> {
+    const sources = this.getSources();
+    if (sources.length === 0) {
+      throw new Error('No price sources available');
+    }
+
+    const upper = [...new Set(symbols.map((symbol) => symbol.toUpperCase()))];
+    const reads = await Promise.all(sources.map((source) => this.read(source, upper)));
+
+    return new Map<string, AggregatedPrice | Error>(
+      upper.map((symbol) => {
+        try {
+          return [symbol, this.combine(symbol, sources.map((source, index) => [source.name, reads[index].get(symbol)]))];
+        } catch (error) {
+          return [symbol, error as Error];
+        }
+      })
+    );
+  }
+
+  /**
+   * Aggregate a price and save it to the database
+   */
+  async fetchAndSavePrice(symbol: string, tokenAddress?: string) {
+    try {
+      const aggregated = await this.aggregate(symbol);
+      await this.save(aggregated, tokenAddress);
+      return aggregated;
+    } catch (error) {
+      logger.error('Failed to fetch and save price', { symbol, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Start fetching PRICE_CONFIG.symbols at intervals
+   */
+  start() {
+    if (this.isRunning) {
+      logger.warn('Price fetching already running');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info('Starting price aggregation', {
+      symbols: PRICE_CONFIG.symbols,
+      sources: this.getSources().map((source) => source.name),
+      interval: `${PRICE_CONFIG.updateInterval / 1000}s`,
+    });
+
+    // Fetch immediately
+    this.fetchPrices(PRICE_CONFIG.symbols);
+
+    // Then fetch at intervals
+    this.intervalId = setInterval(() => {
+      this.fetchPrices(PRICE_CONFIG.symbols);
+    }, PRICE_CONFIG.updateInterval);
+  }
+
+  /**
+   * Stop fetching
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    logger.info('Stopped price aggregation');
+  }
+
+  /**
+   * Get latest price from database
+   */
+  async getLatestPrice(symbol: string) {
+    return await prisma.priceHistory.findFirst({
+      where: { tokenSymbol: symbol.toUpperCase() },
+      orderBy: { timestamp: 'desc' },
+    });
+  }
+
+  /**
+   * Get the price in effect at a point in time
+   * Uses the latest stored price at or before `at`; falls back to a live
+   * aggregation when `at` is within maxAge of now and nothing is stored
+   */
+  async getPriceAt(symbol: string, at: Date, maxAge: number): Promise<{
+    price: string;
+    raw: bigint;
+    decimals: number;
+    timestamp: Date;
+    source: string;
+  }> {
+    const stored = await prisma.priceHistory.findFirst({
+      where: {
+        tokenSymbol: symbol.toUpperCase(),
+        timestamp: { lte: at, gte: new Date(at.getTime() - maxAge * 1000) },
+      },
+      orderBy: { timestamp: 'desc' },
+    });
+
+    if (stored) {
+      return {
+        ...storedPrice(stored),
+        timestamp: stored.timestamp,
+        source: stored.source,
+      };
+    }
+
+    if (Date.now() - at.getTime() > maxAge * 1000) {
+      throw new Error(`No ${symbol.toUpperCase()} price stored near ${at.toISOString()}`);
+    }
+
+    const live = await this.aggregate(symbol);
+    return {
+      price: live.price,
+      raw: live.raw,
+      decimals: live.decimals,
+      timestamp: live.timestamp,
+      source: 'MEDIAN',
+    };
+  }
+
+  /**
+   * Get price history, newest first
+   */
+  async getPriceHistory(symbol: string, limit = 100, offset = 0) {
+    return await prisma.priceHistory.findMany({
+      where: { tokenSymbol: symbol.toUpperCase() },
+      orderBy: { timestamp: 'desc' },
+      take: limit,
+      skip: offset,
+    });
+  }
+
+  /**
+   * Sources that could be built from the configuration; misconfigured
+   * ones are left out with a warning
+   */
+  private getSources(): PriceSource[] {
+    if (!this.sources) {
+      this.sources = [];
+      for (const name of PRICE_CONFIG.sources) {
+        try {
+          this.sources.push(createPriceSource(name));
+        } catch (error) {
+          logger.warn('Price source disabled', { source: name, reason: (error as Error).message });
+        }
+      }
+    }
+    return this.sources;
+  }
+
+  /**
+   * One source's readings for the symbols; a failed batch fails every symbol
+   */
+  private async read(source: PriceSource, symbols: string[]): Promise<Map<string, SourcePrice | Error>> {
+    if (source.getPrices) {
+      try {
+        return await withTimeout(source.getPrices(symbols), PRICE_CONFIG.sourceTimeout);
+      } catch (error) {
+        return new Map(symbols.map((symbol) => [symbol, toError(error)]));
+      }
+    }
+
+    const results = await Promise.allSettled(
+      symbols.map((symbol) => withTimeout(source.getPrice(symbol), PRICE_CONFIG.sourceTimeout))
+    );
+    return new Map<string, SourcePrice | Error>(
+      results.map((result, index) => [
+        symbols[index],
+        result.status === 'fulfilled' ? result.value : toError(result.reason),
+      ])
+    );
+  }
+
+  /**
+   * Median of one symbol's fresh, non-outlier readings
+   * Throws if fewer than PRICE_CONFIG.minSources readings survive.
+   */
+  private combine(symbol: string, results: [string, SourcePrice | Error | undefined][]): AggregatedPrice {
+    const now = Math.floor(Date.now() / 1000);
+    const fresh: ScaledReading[] = [];
+    const readings: SourceReading[] = [];
+    const prices: [SourceReading, SourcePrice][] = [];
+
+    for (const [source, result] of results) {
+      if (!result || result instanceof Error) {
+        readings.push({
+          source,
+          price: null,
+          raw: null,
+          decimals: null,
+          timestamp: null,
+          status: 'failed',
+          error: result instanceof Error ? result.message : 'No reading',
+        });
+        continue;
+      }
+
+      const { price, decimals, timestamp } = result;
+      const reading: SourceReading = {
+        source,
+        price: formatUnits(price, decimals),
+        raw: price.toString(),
+        decimals,
+        timestamp: new Date(timestamp * 1000).toISOString(),
+        status: 'used',
+      };
+      readings.push(reading);
+      prices.push([reading, result]);
+    }
+
+    // Finest decimals of any reading, so none is truncated
+    const scale = Math.max(SCALE, ...prices.map(([, result]) => result.decimals));
+
+    for (const [reading, { price, decimals, timestamp }] of prices) {
+      const value = toScale(price, decimals, scale);
+
+      if (now - timestamp > PRICE_CONFIG.maxAge || timestamp - now > PRICE_CONFIG.maxFutureSkew) {
+        reading.status = 'stale';
+      } else if (value <= 0n) {
+        reading.status = 'failed';
+        reading.error = 'Price is zero';
+      } else {
+        fresh.push({ reading, value, timestamp });
+      }
+    }
+
+    // Outliers are measured against the median of all fresh readings
+    const center = fresh.length > 0 ? median(fresh.map((item) => item.value)) : 0n;
+    const used = fresh.filter((item) => {
+      const deviation = item.value > center ? item.value - center : center - item.value;
+      if (deviation * 10_000n > PRICE_CONFIG.maxDeviationBps * center) {
+        item.reading.status = 'outlier';
+        return false;
+      }
+      return true;
+    });
+
+    readings.sort((a, b) => a.source.localeCompare(b.source));
+
+    if (used.length < Math.max(PRICE_CONFIG.minSources, 1)) {
+      logger.warn('Not enough usable price readings', { symbol, readings });
+      throw new Error(
+        `${used.length} usable ${symbol} price readings, need ${Math.max(PRICE_CONFIG.minSources, 1)}`
+      );
+    }
+
+    const raw = median(used.map((item) => item.value));
+
+    return {
+      symbol,
+      price: formatUnits(raw, scale),
+      raw,
+      decimals: scale,
+      timestamp: new Date(Math.min(...used.map((item) => item.timestamp)) * 1000),
+      sources: readings,
+    };
+  }
+
+  /**
+   * Store an aggregated price and notify stream subscribers
+   */
+  private async save(aggregated: AggregatedPrice, tokenAddress?: string) {
+    if (aggregated.raw >= MAX_PRICE * 10n ** BigInt(aggregated.decimals)) {
+      throw new Error(`${aggregated.symbol} price ${aggregated.price} is too large to store`);
+    }
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const row = await tx.priceHistory.create({
+        data: {
+          tokenSymbol: aggregated.symbol,
+          tokenAddress,
+          price: aggregated.price,
+          priceRaw: aggregated.raw.toString(),
+          decimals: aggregated.decimals,
+          source: 'MEDIAN',
+          sources: aggregated.sources as unknown as Prisma.InputJsonValue,
+          chainId: BigInt(CHAINS.flare.id),
+          timestamp: aggregated.timestamp,
+        },
+      });
+
+      await eventStreamService.publish(
+        'price',
+        [topics.price(row.tokenSymbol)],
+        {
+          symbol: row.tokenSymbol,
+          price: aggregated.price,
+          priceRaw: aggregated.raw.toString(),
+          decimals: aggregated.decimals,
+          source: row.source,
+          sources: aggregated.sources.filter((reading) => reading.status === 'used').map((reading) => reading.source),
+          timestamp: row.timestamp.toISOString(),
+        },
+        tx
+      );
+    });
+
+    logger.info('Price saved to database', {
+      symbol: aggregated.symbol,
+      price: aggregated.price,
+      sources: aggregated.sources.map((reading) => `${reading.source}:${reading.status}`),
+    });
+  }
+
+  /**
+   * Fetch multiple prices
+   */
+  private async fetchPrices(symbols: string[]) {
+    logger.debug('Fetching prices', { symbols });
+
+    let aggregated: Map<string, AggregatedPrice | Error>;
+    try {
+      aggregated = await this.aggregateMany(symbols);
+    } catch (error) {
+      logger.error('Failed to fetch prices', { symbols, error });
+      return;
+    }
+
+    for (const [symbol, price] of aggregated) {
+      try {
+        if (price instanceof Error) {
+          throw price;
+        }
+        await this.save(price);
+      } catch (error) {
+        logger.error('Failed to fetch price', { symbol, error });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const priceAggregator = new PriceAggregator();
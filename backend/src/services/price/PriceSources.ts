@@ -0,0 +1,164 @@
+/**
+ * Price Sources
+ * Readers the price aggregator takes its median across
+ */
+import { readFile } from 'fs/promises';
+import {
+  createPublicClient,
+  decodeFunctionResult,
+  encodeFunctionData,
+  http,
+  parseUnits,
+  type Address,
+} from 'viem';
+import { CHAINS } from '../../config/chains';
+import { FLARE_CONTRACTS, PRICE_CONFIG } from '../../config/contracts';
+import { ftsoService } from './FTSOPriceService';
+
+const FLARE_PRICE_READER_ABI = [
+  {
+    name: 'getPrice',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'symbol', type: 'string' }],
+    outputs: [
+      { name: 'price', type: 'uint256' },
+      { name: 'decimals', type: 'uint256' },
+      { name: 'timestamp', type: 'uint256' },
+    ],
+  },
+] as const;
+
+/**
+ * A price as read from one source
+ */
+export interface SourcePrice {
+  price: bigint;
+  decimals: number;
+  timestamp: number; // Unix seconds
+}
+
+export interface PriceSource {
+  readonly name: string;
+  getPrice(symbol: string): Promise<SourcePrice>;
+  // Read several symbols at once; keyed by upper-case symbol, an Error for each that failed
+  getPrices?(symbols: string[]): Promise<Map<string, SourcePrice | Error>>;
+}
+
+/**
+ * FTSO through the FtsoRegistry or FTSOv2, whichever the network uses
+ */
+export class FtsoSource implements PriceSource {
+  readonly name = 'FTSO';
+
+  async getPrice(symbol: string): Promise<SourcePrice> {
+    return await ftsoService.getPrice(symbol);
+  }
+
+  async getPrices(symbols: string[]): Promise<Map<string, SourcePrice | Error>> {
+    return await ftsoService.getPrices(symbols);
+  }
+}
+
+/**
+ * FlarePriceReader.getPrice, the contract DealVault settles against
+ */
+export class PriceReaderSource implements PriceSource {
+  readonly name = 'PRICE_READER';
+  // Inferred, and read with call + decodeFunctionResult: neither an
+  // annotated PublicClient nor readContract type-checks without strictNullChecks
+  private client = createPublicClient({
+    chain: {
+      id: CHAINS.flare.id,
+      name: CHAINS.flare.name,
+      nativeCurrency: CHAINS.flare.nativeCurrency,
+      rpcUrls: {
+        default: { http: [CHAINS.flare.rpcUrl] },
+        public: { http: [CHAINS.flare.rpcUrl] },
+      },
+    },
+    transport: http(CHAINS.flare.rpcUrl),
+  });
+  private address: Address;
+
+  constructor() {
+    if (!FLARE_CONTRACTS.flarePriceReader) {
+      throw new Error('FLARE_PRICE_READER_ADDRESS not configured');
+    }
+
+    this.address = FLARE_CONTRACTS.flarePriceReader as Address;
+  }
+
+  async getPrice(symbol: string): Promise<SourcePrice> {
+    const { data } = await this.client.call({
+      to: this.address,
+      data: encodeFunctionData({
+        abi: FLARE_PRICE_READER_ABI,
+        functionName: 'getPrice',
+        args: [symbol.toUpperCase()],
+      }),
+    });
+    const [price, decimals, timestamp] = decodeFunctionResult({
+      abi: FLARE_PRICE_READER_ABI,
+      functionName: 'getPrice',
+      data: data!,
+    });
+
+    return { price, decimals: Number(decimals), timestamp: Number(timestamp) };
+  }
+}
+
+/**
+ * JSON document of prices by symbol, read from an http(s) URL or a file:
+ * { "BTC": { "price": "50000.5", "timestamp": 1732300000 } }
+ * Prices are decimal strings; timestamps are Unix seconds.
+ */
+export class FeedSource implements PriceSource {
+  readonly name = 'FEED';
+
+  constructor(private url: string) {
+    if (!url) {
+      throw new Error('PRICE_FEED_URL not configured');
+    }
+  }
+
+  async getPrice(symbol: string): Promise<SourcePrice> {
+    const feed = await this.load();
+    const entry = feed[symbol.toUpperCase()];
+
+    if (!entry || typeof entry.price !== 'string' || !Number.isFinite(entry.timestamp)) {
+      throw new Error(`Feed has no valid ${symbol.toUpperCase()} price`);
+    }
+
+    const decimals = entry.price.split('.')[1]?.length ?? 0;
+    return { price: parseUnits(entry.price, decimals), decimals, timestamp: Number(entry.timestamp) };
+  }
+
+  private async load(): Promise<Record<string, { price: string; timestamp: number }>> {
+    if (/^https?:\/\//.test(this.url)) {
+      const response = await fetch(this.url, { signal: AbortSignal.timeout(PRICE_CONFIG.sourceTimeout) });
+      if (!response.ok) {
+        throw new Error(`Feed responded with ${response.status}`);
+      }
+      return (await response.json()) as Record<string, { price: string; timestamp: number }>;
+    }
+
+    return JSON.parse(await readFile(this.url.replace(/^file:\/\//, ''), 'utf8'));
+  }
+}
+
+/**
+ * Build a source from its PRICE_SOURCES name
+ */
+export function createPriceSource(name: string): PriceSource {
+  switch (name) {
+    case 'ftso':
+      return new FtsoSource();
+    case 'priceReader':
+      return new PriceReaderSource();
+    case 'feed':
+      return new FeedSource(PRICE_CONFIG.feedUrl);
+    default:
+      throw new Error(`Unknown price source: ${name}`);
+  }
+}
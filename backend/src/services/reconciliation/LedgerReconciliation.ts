@@ -0,0 +1,530 @@
+/**
+ * Ledger Reconciliation
+ * Compares every open channel's ChannelState with ClearNode's ledger and
+ * app session and with the YellowChannel commitment, and records where
+ * they disagree
+ */
+import {
+  createPublicClient,
+  decodeFunctionResult,
+  encodeFunctionData,
+  http,
+  parseUnits,
+  type Address,
+  type Hex,
+} from 'viem';
+import type {
+  ChannelState,
+  DiscrepancyKind,
+  DiscrepancySeverity,
+  DiscrepancySource,
+  LedgerDiscrepancy,
+} from '@prisma/client';
+import { createModuleLogger } from '../../utils/logger';
+import { postAlert } from '../../utils/alerts';
+import { CHAINS } from '../../config/chains';
+import { FLARE_CONTRACTS, RECONCILIATION_CONFIG } from '../../config/contracts';
+import { PROTOCOL_CONSTANTS } from '../../config/clearnode';
+import { getPrismaClient } from '../database/prisma';
+import { clearNodeService } from '../clearnode/ClearNodeService';
+import type { AppAllocation, LedgerBalance } from '../clearnode/types';
+import type { ChannelAllocation } from '../nitrolite/NitroliteService';
+
+const logger = createModuleLogger('reconciliation');
+const prisma = getPrismaClient();
+
+const YELLOW_CHANNEL_ABI = [
+  {
+    name: 'getCommitment',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'channelId', type: 'bytes32' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'channelId', type: 'bytes32' },
+          { name: 'stateHash', type: 'bytes32' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'balance0', type: 'uint256' },
+          { name: 'balance1', type: 'uint256' },
+          { name: 'signature0', type: 'bytes' },
+          { name: 'signature1', type: 'bytes' },
+          { name: 'timeout', type: 'uint256' },
+        ],
+      },
+    ],
+  },
+] as const;
+
+const SEVERITY_RANK: Record<DiscrepancySeverity, number> = {
+  INFO: 0,
+  WARNING: 1,
+  CRITICAL: 2,
+};
+
+/**
+ * A disagreement found in one pass, before it is stored
+ */
+interface Finding {
+  kind: DiscrepancyKind;
+  subject?: string;
+  severity: DiscrepancySeverity;
+  expected: string | null;
+  actual: string | null;
+  message: string;
+}
+
+export interface ReconciliationRun {
+  startedAt: Date;
+  finishedAt: Date;
+  channels: number;
+  opened: number;
+  resolved: number;
+  // Sources that could not be read for every channel; their open
+  // discrepancies are kept as they were
+  skipped: DiscrepancySource[];
+}
+
+/**
+ * ClearNode amounts are decimal strings; ours are base-unit integers
+ */
+function toUnits(amount: string): bigint {
+  return parseUnits(amount, 18);
+}
+
+/**
+ * Periodic three-way reconciliation of channel ledgers
+ */
+export class LedgerReconciliation {
+  // Inferred rather than annotated PublicClient, which rejects a client
+  // with a chain when strictNullChecks is off
+  private client = createPublicClient({
+    chain: {
+      id: CHAINS.flare.id,
+      name: CHAINS.flare.name,
+      nativeCurrency: CHAINS.flare.nativeCurrency,
+      rpcUrls: {
+        default: { http: [CHAINS.flare.rpcUrl] },
+        public: { http: [CHAINS.flare.rpcUrl] },
+      },
+    },
+    transport: http(CHAINS.flare.rpcUrl),
+  });
+  private yellowChannelAddress: Address | null = null;
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private lastRun: ReconciliationRun | null = null;
+
+  /**
+   * Start reconciling at intervals
+   */
+  start() {
+    if (this.intervalId) {
+      logger.warn('Ledger reconciliation already running');
+      return;
+    }
+
+    this.yellowChannelAddress = (FLARE_CONTRACTS.yellowChannel || null) as Address | null;
+
+    if (!this.yellowChannelAddress) {
+      logger.warn('YELLOW_CHANNEL_ADDRESS not configured, on-chain commitments will not be reconciled');
+    }
+
+    logger.info('Starting ledger reconciliation', {
+      yellowChannel: this.yellowChannelAddress,
+      interval: `${RECONCILIATION_CONFIG.pollInterval / 1000}s`,
+    });
+
+    // Run immediately, then at intervals
+    this.runSafely();
+
+    this.intervalId = setInterval(() => {
+      this.runSafely();
+    }, RECONCILIATION_CONFIG.pollInterval);
+  }
+
+  /**
+   * Stop reconciling
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('Stopped ledger reconciliation');
+    }
+  }
+
+  /**
+   * Summary of the last completed pass in this instance
+   */
+  getLastRun() {
+    return this.lastRun;
+  }
+
+  /**
+   * Reconcile every open channel, and every channel that still has open
+   * discrepancies; returns null if a pass is already running
+   */
+  async reconcile(): Promise<ReconciliationRun | null> {
+    if (this.isRunning) return null;
+    this.isRunning = true;
+
+    try {
+      const startedAt = new Date();
+      const channels = await prisma.channelState.findMany({
+        where: {
+          OR: [
+            { intent: { not: 'FINALIZE' } },
+            { discrepancies: { some: { status: 'OPEN' } } },
+          ],
+        },
+      });
+
+      const skipped = new Set<DiscrepancySource>();
+      const sessionIds = await this.loadSessionIds();
+      let opened = 0;
+      let resolved = 0;
+
+      if (!sessionIds) skipped.add('CLEARNODE');
+      if (!this.yellowChannelAddress) skipped.add('ONCHAIN');
+
+      for (const channel of channels) {
+        const sources: [DiscrepancySource, () => Promise<Finding[]>][] = [];
+        if (sessionIds) sources.push(['CLEARNODE', () => this.checkClearNode(channel, sessionIds)]);
+        if (this.yellowChannelAddress) sources.push(['ONCHAIN', () => this.checkCommitment(channel)]);
+
+        for (const [source, check] of sources) {
+          let findings: Finding[];
+          try {
+            findings = await check();
+          } catch (error) {
+            logger.warn('Could not reconcile channel', { channelId: channel.channelId, source, error });
+            skipped.add(source);
+            continue;
+          }
+
+          const counts = await this.record(channel, source, findings);
+          opened += counts.opened;
+          resolved += counts.resolved;
+        }
+      }
+
+      this.lastRun = {
+        startedAt,
+        finishedAt: new Date(),
+        channels: channels.length,
+        opened,
+        resolved,
+        skipped: [...skipped],
+      };
+
+      logger.info('Ledger reconciliation complete', {
+        channels: channels.length,
+        opened,
+        resolved,
+        skipped: this.lastRun.skipped,
+      });
+
+      return this.lastRun;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async runSafely() {
+    try {
+      await this.reconcile();
+    } catch (error) {
+      logger.error('Ledger reconciliation pass failed', error);
+    }
+  }
+
+  /**
+   * IDs of every app session ClearNode has for this backend, which joins
+   * each deal's session; null when ClearNode cannot be asked
+   */
+  private async loadSessionIds(): Promise<Set<string> | null> {
+    if (!clearNodeService.getStatus().authenticated) return null;
+
+    try {
+      const sessions = await clearNodeService.getAppSessions();
+      return new Set(sessions.map((session) => session.app_session_id));
+    } catch (error) {
+      logger.warn('Could not list ClearNode app sessions', { error });
+      return null;
+    }
+  }
+
+  /**
+   * Compare with ClearNode: whether it knows the app session, its live
+   * ledger balance, and the session status, version and allocations it
+   * last notified
+   */
+  private async checkClearNode(channel: ChannelState, sessionIds: Set<string>): Promise<Finding[]> {
+    if (!sessionIds.has(channel.channelId)) {
+      return [{
+        kind: 'SESSION_MISSING',
+        severity: 'CRITICAL',
+        expected: channel.channelId,
+        actual: null,
+        message: 'ClearNode does not list the app session of this channel',
+      }];
+    }
+
+    const findings: Finding[] = [];
+    const allocations = channel.allocations as unknown as ChannelAllocation[];
+    const finalized = channel.intent === 'FINALIZE';
+    const asset = PROTOCOL_CONSTANTS.asset;
+
+    // A closed session has paid out, so only open ones hold the deposits
+    if (!finalized) {
+      const result = await clearNodeService.getLedgerBalances(channel.channelId);
+      const balances: LedgerBalance[] = Array.isArray(result?.[0])
+        ? result[0]
+        : result?.[0]?.ledger_balances ?? [];
+
+      const expected = allocations.reduce((sum, allocation) => sum + BigInt(allocation.amount), 0n);
+      const actual = balances
+        .filter((balance) => balance.asset === asset)
+        .reduce((sum, balance) => sum + toUnits(balance.balance), 0n);
+
+      if (toUnits(expected.toString()) !== actual) {
+        findings.push({
+          kind: 'BALANCE',
+          subject: asset,
+          severity: 'CRITICAL',
+          expected: expected.toString(),
+          actual: balances.find((balance) => balance.asset === asset)?.balance ?? '0',
+          message: `ClearNode holds a different ${asset} total than the channel allocations`,
+        });
+      }
+    }
+
+    // Nothing notified yet; the balance check above still applies
+    if (channel.clearNodeVersion === null) return findings;
+
+    const expectedStatus = finalized ? 'closed' : 'open';
+    if (channel.clearNodeStatus !== expectedStatus) {
+      findings.push({
+        kind: 'SESSION_STATUS',
+        severity: finalized ? 'WARNING' : 'CRITICAL',
+        expected: expectedStatus,
+        actual: channel.clearNodeStatus,
+        message: finalized
+          ? 'Channel is finalized but ClearNode has not closed the app session'
+          : `ClearNode reports the app session as ${channel.clearNodeStatus}`,
+      });
+    }
+
+    const version = BigInt(channel.clearNodeVersion);
+    if (version !== channel.version) {
+      const ahead = version > channel.version;
+      findings.push({
+        kind: 'VERSION',
+        severity: ahead ? 'CRITICAL' : 'WARNING',
+        expected: channel.version.toString(),
+        actual: version.toString(),
+        message: ahead
+          ? 'ClearNode holds a newer session version than this backend created'
+          : 'ClearNode has not reported the latest session version',
+      });
+      // Allocations of different versions are not comparable
+      return findings;
+    }
+
+    const clearNodeAllocations = (channel.clearNodeAllocations ?? []) as unknown as AppAllocation[];
+    for (const allocation of allocations) {
+      const seat = clearNodeAllocations.find(
+        (candidate) =>
+          candidate.asset === asset &&
+          candidate.participant.toLowerCase() === allocation.destination.toLowerCase()
+      );
+      const actual = seat?.amount ?? '0';
+
+      if (toUnits(allocation.amount) !== toUnits(actual)) {
+        findings.push({
+          kind: 'ALLOCATION',
+          subject: allocation.destination.toLowerCase(),
+          severity: 'CRITICAL',
+          expected: allocation.amount,
+          actual,
+          message: `ClearNode allocates a different amount to ${allocation.destination}`,
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Compare with the YellowChannel commitment; nonce 0 means nothing was
+   * ever committed. Read with a raw call, as readContract's arguments do
+   * not type-check against this client in the non-strict build.
+   */
+  private async checkCommitment(channel: ChannelState): Promise<Finding[]> {
+    const { data } = await this.client.call({
+      to: this.yellowChannelAddress!,
+      data: encodeFunctionData({
+        abi: YELLOW_CHANNEL_ABI,
+        functionName: 'getCommitment',
+        args: [channel.channelId as Hex],
+      }),
+    });
+    const commitment = decodeFunctionResult({ abi: YELLOW_CHANNEL_ABI, functionName: 'getCommitment', data: data! });
+
+    const nonce = commitment.nonce;
+    if (nonce === 0n) return [];
+
+    if (nonce > channel.version) {
+      return [{
+        kind: 'COMMITMENT_AHEAD',
+        severity: 'CRITICAL',
+        expected: channel.version.toString(),
+        actual: nonce.toString(),
+        message: `YellowChannel holds nonce ${nonce}, above our latest version ${channel.version}`,
+      }];
+    }
+
+    const state = await prisma.stateHistory.findFirst({
+      where: { channelId: channel.channelId, version: nonce },
+    });
+
+    if (!state) {
+      return [{
+        kind: 'COMMITMENT_STATE',
+        severity: 'CRITICAL',
+        expected: null,
+        actual: commitment.stateHash,
+        message: `YellowChannel holds version ${nonce}, which is not in the state history`,
+      }];
+    }
+
+    // YellowChannel is two-party: the dealer seat against all LP seats
+    const [dealerSeat, ...lpSeats] = state.allocations as unknown as ChannelAllocation[];
+    const expected = [
+      state.stateHash.toLowerCase(),
+      BigInt(dealerSeat?.amount ?? '0'),
+      lpSeats.reduce((sum, seat) => sum + BigInt(seat.amount), 0n),
+    ].join(':');
+    const actual = [
+      String(commitment.stateHash).toLowerCase(),
+      commitment.balance0,
+      commitment.balance1,
+    ].join(':');
+
+    if (expected !== actual) {
+      return [{
+        kind: 'COMMITMENT_STATE',
+        severity: 'CRITICAL',
+        expected,
+        actual,
+        message: `YellowChannel commitment for version ${nonce} does not match the stored state (stateHash:balance0:balance1)`,
+      }];
+    }
+
+    return [];
+  }
+
+  /**
+   * Store one source's findings for a channel: open new discrepancies,
+   * refresh those seen again and resolve those that are gone
+   */
+  private async record(channel: ChannelState, source: DiscrepancySource, findings: Finding[]) {
+    const open = await prisma.ledgerDiscrepancy.findMany({
+      where: { channelId: channel.channelId, source, status: 'OPEN' },
+    });
+
+    const now = new Date();
+    const seen = new Set<string>();
+    let opened = 0;
+    let resolved = 0;
+
+    for (const finding of findings) {
+      const subject = finding.subject ?? '';
+      const existing = open.find((row) => row.kind === finding.kind && row.subject === subject);
+      const data = {
+        severity: finding.severity,
+        expected: finding.expected,
+        actual: finding.actual,
+        message: finding.message,
+        lastSeenAt: now,
+      };
+
+      let discrepancy: LedgerDiscrepancy;
+      if (existing) {
+        seen.add(existing.id);
+        discrepancy = await prisma.ledgerDiscrepancy.update({ where: { id: existing.id }, data });
+      } else {
+        discrepancy = await prisma.ledgerDiscrepancy.create({
+          data: { channelId: channel.channelId, source, kind: finding.kind, subject, ...data },
+        });
+        opened++;
+
+        logger.warn('Ledger discrepancy found', {
+          id: discrepancy.id,
+          channelId: channel.channelId,
+          source,
+          kind: finding.kind,
+          severity: finding.severity,
+        });
+      }
+
+      // Also alerts a discrepancy whose severity rose past the threshold
+      if (!discrepancy.alertedAt && this.shouldAlert(discrepancy.severity)) {
+        await this.alert(channel, discrepancy);
+      }
+    }
+
+    for (const row of open) {
+      if (seen.has(row.id)) continue;
+
+      await prisma.ledgerDiscrepancy.update({
+        where: { id: row.id },
+        data: { status: 'RESOLVED', resolvedAt: now },
+      });
+      resolved++;
+
+      logger.info('Ledger discrepancy resolved', { id: row.id, channelId: row.channelId, kind: row.kind });
+    }
+
+    return { opened, resolved };
+  }
+
+  private shouldAlert(severity: DiscrepancySeverity) {
+    const threshold =
+      SEVERITY_RANK[RECONCILIATION_CONFIG.alertSeverity as DiscrepancySeverity] ?? SEVERITY_RANK.CRITICAL;
+    return SEVERITY_RANK[severity] >= threshold;
+  }
+
+  /**
+   * Log an alert and send it to the alert webhook, if configured
+   */
+  private async alert(channel: ChannelState, discrepancy: LedgerDiscrepancy) {
+    const alert = {
+      type: 'ledger_discrepancy',
+      discrepancyId: discrepancy.id,
+      channelId: channel.channelId,
+      dealId: channel.dealId.toString(),
+      source: discrepancy.source,
+      kind: discrepancy.kind,
+      subject: discrepancy.subject || null,
+      severity: discrepancy.severity,
+      expected: discrepancy.expected,
+      actual: discrepancy.actual,
+      message: discrepancy.message,
+    };
+
+    logger.error('ALERT: ledger discrepancy', alert);
+    await postAlert(RECONCILIATION_CONFIG.alertWebhook, alert);
+
+    await prisma.ledgerDiscrepancy.update({
+      where: { id: discrepancy.id },
+      data: { alertedAt: new Date() },
+    });
+  }
+}
+
+// Export singleton instance
+export const ledgerReconciliation = new LedgerReconciliation();
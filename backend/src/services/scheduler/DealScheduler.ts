@@ -0,0 +1,208 @@
+/**
+ * Deal Scheduler
+ * Moves deals through their lifecycle: lock, activate, resize, expire and settle
+ */
+import { createModuleLogger } from '../../utils/logger';
+import { getPrismaClient } from '../database/prisma';
+import { SCHEDULER_CONFIG } from '../../config/contracts';
+import { dealLifecycleService } from '../deals/DealLifecycleService';
+import { dealStateMachine } from '../deals/DealStateMachine';
+import { settlementService, SettlementError } from '../settlement/SettlementService';
+import { nitroliteService, ChannelError } from '../nitrolite/NitroliteService';
+
+const logger = createModuleLogger('scheduler');
+const prisma = getPrismaClient();
+
+const SOURCE = 'scheduler';
+
+/**
+ * Periodic job that applies time- and fill-based deal transitions
+ * Every transition is a compare-and-set on the deal status, so several
+ * backend instances can run the scheduler side by side.
+ */
+export class DealScheduler {
+  private isRunning = false;
+  private isTicking = false;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  /**
+   * Start the scheduler
+   */
+  start() {
+    if (this.isRunning) {
+      logger.warn('Deal scheduler already running');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info('Starting deal scheduler', {
+      lockFillAmount: SCHEDULER_CONFIG.lockFillAmount?.toString() ?? 'disabled',
+      lockDeadline: `${SCHEDULER_CONFIG.lockDeadline}s`,
+      interval: `${SCHEDULER_CONFIG.pollInterval / 1000}s`,
+    });
+
+    this.tick();
+
+    this.intervalId = setInterval(() => {
+      this.tick();
+    }, SCHEDULER_CONFIG.pollInterval);
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    logger.info('Stopped deal scheduler');
+  }
+
+  private async tick() {
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      await this.lockDueDeals();
+      await this.activateLockedDeals();
+      await this.resizeOpenChannels();
+      await this.expireActiveDeals();
+      await this.settleSettlingDeals();
+    } catch (error) {
+      logger.error('Scheduler tick failed', error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Lock CREATED deals that reached the fill level or the lock deadline
+   */
+  private async lockDueDeals() {
+    const deadline = new Date(Date.now() - SCHEDULER_CONFIG.lockDeadline * 1000);
+
+    const due = await prisma.deal.findMany({
+      where: {
+        status: 'CREATED',
+        dealer: { not: null },
+        totalDeposited: { gt: 0 },
+        OR: [
+          { createdAt: { lte: deadline } },
+          ...(SCHEDULER_CONFIG.lockFillAmount !== null
+            ? [{ totalDeposited: { gte: SCHEDULER_CONFIG.lockFillAmount.toString() } }]
+            : []),
+        ],
+      },
+      select: { id: true, createdAt: true },
+    });
+
+    for (const deal of due) {
+      const reason = deal.createdAt <= deadline ? 'Lock deadline reached' : 'Fill level reached';
+
+      try {
+        await dealLifecycleService.lockDeal(deal.id, { source: SOURCE, reason });
+      } catch (error) {
+        logger.error('Scheduled lock failed', { dealId: deal.id.toString(), error });
+      }
+    }
+  }
+
+  /**
+   * Activate LOCKED deals whose channel is open
+   */
+  private async activateLockedDeals() {
+    const locked = await prisma.deal.findMany({
+      where: { status: 'LOCKED', channelState: { isNot: null } },
+      select: { id: true },
+    });
+
+    for (const deal of locked) {
+      try {
+        await dealStateMachine.transition(deal.id, 'ACTIVE', {
+          from: 'LOCKED',
+          source: SOURCE,
+          reason: 'Channel open',
+        });
+      } catch (error) {
+        logger.error('Scheduled activation failed', { dealId: deal.id.toString(), error });
+      }
+    }
+  }
+
+  /**
+   * Resize channels of LOCKED and ACTIVE deals whose positions changed
+   * since the channel opened (late deposits, withdrawals)
+   */
+  private async resizeOpenChannels() {
+    const open = await prisma.deal.findMany({
+      where: {
+        status: { in: ['LOCKED', 'ACTIVE'] },
+        channelState: { intent: { not: 'FINALIZE' } },
+      },
+      select: { id: true },
+    });
+
+    for (const deal of open) {
+      try {
+        await nitroliteService.resizeChannel(deal.id);
+      } catch (error) {
+        // Waiting for the dealer to countersign; retried next tick
+        if (error instanceof ChannelError && error.statusCode === 409) {
+          logger.debug('Channel resize deferred', { dealId: deal.id.toString(), reason: error.message });
+          continue;
+        }
+        logger.error('Scheduled channel resize failed', { dealId: deal.id.toString(), error });
+      }
+    }
+  }
+
+  /**
+   * Settle expired ACTIVE deals; settlement moves them to SETTLING first
+   */
+  private async expireActiveDeals() {
+    const expired = await prisma.deal.findMany({
+      where: { status: 'ACTIVE', expiryTimestamp: { lte: new Date() } },
+      select: { id: true },
+    });
+
+    for (const deal of expired) {
+      await this.settle(deal.id, 'Deal expired');
+    }
+  }
+
+  /**
+   * Retry SETTLING deals whose settlement did not finish (failed, or the
+   * instance handling it died) once their settlement lease has run out
+   */
+  private async settleSettlingDeals() {
+    const stale = new Date(Date.now() - SCHEDULER_CONFIG.settlementLease);
+
+    const stuck = await prisma.deal.findMany({
+      where: { status: 'SETTLING', updatedAt: { lte: stale } },
+      select: { id: true },
+    });
+
+    for (const deal of stuck) {
+      await this.settle(deal.id, 'Scheduled settlement');
+    }
+  }
+
+  private async settle(dealId: bigint, reason: string) {
+    try {
+      await settlementService.settleDeal(dealId, { source: SOURCE, reason });
+    } catch (error) {
+      // Another caller holds the lease, or the deal is waiting for a
+      // countersigned state; retried once the lease runs out
+      if (error instanceof SettlementError && error.statusCode === 409) {
+        logger.debug('Settlement deferred', { dealId: dealId.toString(), reason: error.message });
+        return;
+      }
+      logger.error('Scheduled settlement failed', { dealId: dealId.toString(), error });
+    }
+  }
+}
+
+// Export singleton instance
+export const dealScheduler = new DealScheduler();
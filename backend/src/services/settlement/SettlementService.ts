@@ -0,0 +1,557 @@
+/**
+ * Settlement Service
+ * Computes deal settlements server-side and records their inputs for audit
+ */
+import type { Prisma, Settlement } from '@prisma/client';
+import { createModuleLogger } from '../../utils/logger';
+import { getPrismaClient } from '../database/prisma';
+import { SCHEDULER_CONFIG, SETTLEMENT_CONFIG } from '../../config/contracts';
+import { priceAggregator } from '../price/PriceAggregator';
+import { nitroliteService, type ChannelAllocation } from '../nitrolite/NitroliteService';
+import { dealStateMachine, type TransitionOptions } from '../deals/DealStateMachine';
+import { splitProRata } from '../../utils/math';
+
+const logger = createModuleLogger('settlement');
+const prisma = getPrismaClient();
+
+const BPS = 10_000n;
+
+/**
+ * Everything the split depends on; stored as Settlement.proofData
+ */
+export interface SettlementInputs {
+  dealId: string;
+  channelId: string;
+  stateVersion: string;
+  stateHash: string;
+  stateSigned: boolean;
+  dealerAllocation: string;
+  lpAllocation: string;
+  lpPrincipal: string;
+  // Positions in ID order; absent from version 1 proofs, which rounded
+  // yield and fee on the LP total
+  positions?: { id: string; depositAmount: string }[];
+  expectedYieldBps: string;
+  protocolFeeBps: string;
+  priceSymbol: string;
+  finalPrice: string;
+  // finalPrice exactly: finalPriceRaw / 10^priceDecimals
+  finalPriceRaw: string;
+  priceDecimals: number;
+  priceTimestamp: string;
+  priceSource: string;
+}
+
+export interface SettlementResult {
+  dealerFinal: bigint;
+  lpFinal: bigint;
+  protocolFee: bigint;
+}
+
+export interface SettlementProof {
+  version: 1 | 2;
+  inputs: SettlementInputs;
+  result: {
+    dealerFinal: string;
+    lpFinal: string;
+    protocolFee: string;
+  };
+}
+
+export class SettlementError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'SettlementError';
+  }
+}
+
+/**
+ * Yield and protocol fee of one position, rounded down as
+ * DealVault.claimPosition does
+ */
+function positionYield(depositAmount: bigint, expectedYieldBps: bigint, protocolFeeBps: bigint) {
+  const yieldAmount = (depositAmount * expectedYieldBps) / BPS;
+  return { yieldAmount, fee: (yieldAmount * protocolFeeBps) / BPS };
+}
+
+/**
+ * Compute dealer/LP splits from settlement inputs
+ * LPs are owed principal plus expected yield, less the protocol fee, each
+ * rounded per position as DealVault.claimPosition pays them; the dealer keeps
+ * the rest. If the channel cannot cover that, LPs take the whole channel and
+ * the fee is taken from the yield it realises.
+ */
+export function computeSettlement(inputs: SettlementInputs): SettlementResult {
+  const channelTotal = BigInt(inputs.dealerAllocation) + BigInt(inputs.lpAllocation);
+  const principal = BigInt(inputs.lpPrincipal);
+  const yieldBps = BigInt(inputs.expectedYieldBps);
+  const feeBps = BigInt(inputs.protocolFeeBps);
+
+  let expectedYield = 0n;
+  let expectedFee = 0n;
+  const deposits = inputs.positions?.map((position) => position.depositAmount) ?? [inputs.lpPrincipal];
+  for (const deposit of deposits) {
+    const { yieldAmount, fee } = positionYield(BigInt(deposit), yieldBps, feeBps);
+    expectedYield += yieldAmount;
+    expectedFee += fee;
+  }
+
+  const lpEntitled = principal + expectedYield;
+  if (lpEntitled <= channelTotal) {
+    return {
+      dealerFinal: channelTotal - lpEntitled,
+      lpFinal: lpEntitled - expectedFee,
+      protocolFee: expectedFee,
+    };
+  }
+
+  const lpYield = channelTotal > principal ? channelTotal - principal : 0n;
+  const protocolFee = (lpYield * feeBps) / BPS;
+
+  return {
+    dealerFinal: 0n,
+    lpFinal: channelTotal - protocolFee,
+    protocolFee,
+  };
+}
+
+export interface PositionPayout {
+  positionId: bigint;
+  claimAmount: bigint;
+}
+
+export interface PayoutDistribution {
+  method: 'contract' | 'pro-rata';
+  payouts: PositionPayout[];
+  distributed: bigint;
+  dust: bigint;
+}
+
+/**
+ * Split the (after-fee) LP total across positions
+ * Each position gets what DealVault.claimPosition pays (deposit plus
+ * _computePositionYield, minus fee, rounded down per position). When the
+ * channel covered every claim, computeSettlement rounds the same way and the
+ * LP total equals the claims exactly. If it cannot cover them, it is split pro
+ * rata by deposit instead, with dust going one unit at a time to the largest
+ * remainders (ties to the lowest position ID).
+ */
+export function computePayouts(
+  positions: { id: bigint; depositAmount: bigint }[],
+  lpTotal: bigint,
+  expectedYieldBps: bigint,
+  protocolFeeBps: bigint
+): PayoutDistribution {
+  const sorted = [...positions].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const contractPayouts = sorted.map((position) => {
+    const { yieldAmount, fee } = positionYield(position.depositAmount, expectedYieldBps, protocolFeeBps);
+    return { positionId: position.id, claimAmount: position.depositAmount + yieldAmount - fee };
+  });
+  const contractTotal = contractPayouts.reduce((sum, p) => sum + p.claimAmount, 0n);
+
+  if (contractTotal <= lpTotal) {
+    return {
+      method: 'contract',
+      payouts: contractPayouts,
+      distributed: contractTotal,
+      dust: lpTotal - contractTotal,
+    };
+  }
+
+  const shares = splitProRata(lpTotal, sorted.map((position) => position.depositAmount));
+  const distributed = shares.reduce((sum, share) => sum + share, 0n);
+
+  return {
+    method: 'pro-rata',
+    payouts: sorted.map((position, index) => ({ positionId: position.id, claimAmount: shares[index] })),
+    distributed,
+    dust: lpTotal - distributed,
+  };
+}
+
+/**
+ * Final per-seat channel allocations
+ * The dealer seat gets dealerFinal. The LP side (after-fee total plus the
+ * fee, which stays in the channel until positions claim) is split across
+ * seats by the deposits of the positions they hold.
+ */
+export function computeChannelFinal(
+  allocations: Pick<ChannelAllocation, 'positionIds'>[],
+  deposits: Map<string, bigint>,
+  result: SettlementResult
+): bigint[] {
+  const seatDeposits = allocations.map((allocation) =>
+    allocation.positionIds.reduce((sum, positionId) => sum + (deposits.get(positionId) ?? 0n), 0n)
+  );
+
+  const amounts = splitProRata(result.lpFinal + result.protocolFee, seatDeposits);
+  amounts[0] += result.dealerFinal;
+
+  return amounts;
+}
+
+/**
+ * Service that settles deals from server-side data only
+ */
+export class SettlementService {
+  /**
+   * Gather settlement inputs for a deal
+   */
+  async collectInputs(dealId: bigint): Promise<SettlementInputs> {
+    const deal = await prisma.deal.findUnique({
+      where: { id: dealId },
+      include: { channelState: true },
+    });
+
+    if (!deal) {
+      throw new SettlementError('Deal not found', 404);
+    }
+
+    if (!deal.channelState) {
+      throw new SettlementError('Channel not found for deal', 404);
+    }
+
+    const at = deal.expiryTimestamp ?? new Date();
+    if (at.getTime() > Date.now()) {
+      throw new SettlementError(`Deal expires at ${at.toISOString()}`, 409);
+    }
+
+    const symbol = SETTLEMENT_CONFIG.tokenSymbols[deal.targetToken.toLowerCase()];
+    if (!symbol) {
+      throw new SettlementError(`No price symbol configured for token ${deal.targetToken}`, 422);
+    }
+
+    const state = await this.getLatestSignedState(deal.channelState);
+    const positions = await this.loadPositions(dealId);
+    const price = await priceAggregator.getPriceAt(symbol, at, SETTLEMENT_CONFIG.maxPriceAge);
+    const [dealerSeat, ...lpSeats] = state.allocations as unknown as ChannelAllocation[];
+
+    return {
+      dealId: dealId.toString(),
+      channelId: deal.channelState.channelId,
+      stateVersion: state.version.toString(),
+      stateHash: state.stateHash,
+      stateSigned: true,
+      dealerAllocation: dealerSeat.amount,
+      lpAllocation: lpSeats.reduce((sum, seat) => sum + BigInt(seat.amount), 0n).toString(),
+      lpPrincipal: deal.totalDeposited.toFixed(0),
+      positions,
+      expectedYieldBps: deal.expectedYield.toFixed(0),
+      protocolFeeBps: SETTLEMENT_CONFIG.protocolFeeBps.toString(),
+      priceSymbol: symbol,
+      finalPrice: price.price,
+      finalPriceRaw: price.raw.toString(),
+      priceDecimals: price.decimals,
+      priceTimestamp: price.timestamp.toISOString(),
+      priceSource: price.source,
+    };
+  }
+
+  /**
+   * Take the settlement lease on a deal
+   * An ACTIVE deal is moved to SETTLING; a SETTLING deal is taken over once
+   * nobody has touched it for SCHEDULER_CONFIG.settlementLease, by bumping
+   * updatedAt. Both are compare-and-sets, so one caller at a time (API or
+   * scheduler, on any instance) settles a deal. Returns false if another
+   * caller holds the lease.
+   */
+  async acquireLease(dealId: bigint, options: TransitionOptions): Promise<boolean> {
+    const deal = await prisma.deal.findUnique({
+      where: { id: dealId },
+      select: { status: true, updatedAt: true },
+    });
+
+    if (!deal) {
+      throw new SettlementError('Deal not found', 404);
+    }
+
+    if (deal.status === 'ACTIVE') {
+      const settling = await dealStateMachine.transition(dealId, 'SETTLING', {
+        ...options,
+        from: 'ACTIVE',
+        reason: options.reason ?? 'Settlement requested',
+      });
+      return !!settling;
+    }
+
+    if (deal.status !== 'SETTLING') {
+      throw new SettlementError(`Cannot settle a deal in ${deal.status} status`, 409);
+    }
+
+    if (deal.updatedAt.getTime() > Date.now() - SCHEDULER_CONFIG.settlementLease) {
+      return false;
+    }
+
+    const { count } = await prisma.deal.updateMany({
+      where: { id: dealId, status: 'SETTLING', updatedAt: deal.updatedAt },
+      data: { updatedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Settle a deal: compute the split, finalize the channel and record it
+   * Only ACTIVE (moved to SETTLING first) and SETTLING deals can be settled,
+   * by the caller holding the settlement lease. A deal whose settlement
+   * cannot proceed yet (no price, no countersigned state, ClearNode failing
+   * to close the session) stays SETTLING and is retried by the scheduler when
+   * the lease runs out. A settlement is computed once; retries finalize and
+   * record that same settlement.
+   */
+  async settleDeal(dealId: bigint, options: TransitionOptions = { source: 'api' }) {
+    if (!(await this.acquireLease(dealId, options))) {
+      throw new SettlementError('Deal is already being settled', 409);
+    }
+
+    const pending = await this.findPendingSettlement(dealId);
+    const settlement = pending?.settlement ?? (await this.createSettlement(dealId));
+
+    if (!pending?.finalized) {
+      await this.finalize(dealId, settlement);
+    }
+
+    return await this.complete(dealId, settlement, options);
+  }
+
+  /**
+   * Compute a deal's settlement and store it as PROCESSING
+   */
+  private async createSettlement(dealId: bigint) {
+    const inputs = await this.collectInputs(dealId);
+    const result = computeSettlement(inputs);
+
+    const proof: SettlementProof = {
+      version: 2,
+      inputs,
+      result: {
+        dealerFinal: result.dealerFinal.toString(),
+        lpFinal: result.lpFinal.toString(),
+        protocolFee: result.protocolFee.toString(),
+      },
+    };
+
+    return await prisma.settlement.create({
+      data: {
+        dealId,
+        channelId: inputs.channelId,
+        finalPrice: inputs.finalPrice,
+        priceSource: inputs.priceSource,
+        dealerFinal: proof.result.dealerFinal,
+        lpFinal: proof.result.lpFinal,
+        proofData: JSON.stringify(proof),
+        status: 'PROCESSING',
+      },
+    });
+  }
+
+  /**
+   * Close the deal's channel with a settlement's final allocations
+   * A failure leaves the settlement PROCESSING: its split still holds, and
+   * the next attempt finalizes with it instead of computing a new one.
+   */
+  private async finalize(dealId: bigint, settlement: Settlement) {
+    const proof: SettlementProof = JSON.parse(settlement.proofData!);
+    const positions = proof.inputs.positions ?? (await this.loadPositions(dealId));
+    const result: SettlementResult = {
+      dealerFinal: BigInt(proof.result.dealerFinal),
+      lpFinal: BigInt(proof.result.lpFinal),
+      protocolFee: BigInt(proof.result.protocolFee),
+    };
+
+    try {
+      const channel = await prisma.channelState.findUniqueOrThrow({ where: { channelId: proof.inputs.channelId } });
+
+      await nitroliteService.finalizeChannel(
+        proof.inputs.channelId,
+        computeChannelFinal(
+          channel.allocations as unknown as ChannelAllocation[],
+          new Map(positions.map((position) => [position.id, BigInt(position.depositAmount)])),
+          result
+        )
+      );
+    } catch (error) {
+      logger.warn('Channel finalization failed; settlement kept for a retry', {
+        dealId: dealId.toString(),
+        settlementId: settlement.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a settlement whose channel is finalized: position payouts, the
+   * COMPLETED settlement and the SETTLED deal, in one transaction
+   */
+  private async complete(dealId: bigint, settlement: Settlement, options: TransitionOptions) {
+    const proof: SettlementProof = JSON.parse(settlement.proofData!);
+    const positions = proof.inputs.positions ?? (await this.loadPositions(dealId));
+
+    const distribution = computePayouts(
+      positions.map((position) => ({ id: BigInt(position.id), depositAmount: BigInt(position.depositAmount) })),
+      BigInt(proof.result.lpFinal),
+      BigInt(proof.inputs.expectedYieldBps),
+      BigInt(proof.inputs.protocolFeeBps)
+    );
+
+    const { completed, settled } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      for (const payout of distribution.payouts) {
+        await tx.position.update({
+          where: { id: payout.positionId },
+          data: { claimAmount: payout.claimAmount.toString() },
+        });
+      }
+
+      const completed = await tx.settlement.update({
+        where: { id: settlement.id },
+        data: { status: 'COMPLETED', settledAt: new Date() },
+      });
+
+      const settled = await dealStateMachine.transition(dealId, 'SETTLED', {
+        ...options,
+        from: 'SETTLING',
+        reason: options.reason ?? `Settlement ${settlement.id}`,
+        tx,
+      });
+      if (!settled) {
+        throw new SettlementError('Deal left SETTLING during settlement', 409);
+      }
+
+      return { completed, settled };
+    });
+
+    logger.info('Deal settled', {
+      dealId: dealId.toString(),
+      settlementId: settlement.id,
+      ...proof.result,
+      payoutMethod: distribution.method,
+      distributed: distribution.distributed.toString(),
+      dust: distribution.dust.toString(),
+    });
+
+    return { deal: settled, settlement: completed };
+  }
+
+  /**
+   * The PROCESSING settlement left by an earlier attempt, and whether it got
+   * as far as finalizing the channel
+   */
+  private async findPendingSettlement(dealId: bigint) {
+    const [channel, settlement] = await Promise.all([
+      prisma.channelState.findUnique({
+        where: { dealId },
+        select: { intent: true },
+      }),
+      prisma.settlement.findFirst({
+        where: { dealId, status: 'PROCESSING' },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    const finalized = channel?.intent === 'FINALIZE';
+    if (!settlement) {
+      if (finalized) {
+        throw new SettlementError('Channel is finalized but no settlement is in progress', 409);
+      }
+      return null;
+    }
+    return { settlement, finalized };
+  }
+
+  /**
+   * Positions of a deal in ID order, as stored in settlement inputs
+   */
+  private async loadPositions(dealId: bigint) {
+    const positions = await prisma.position.findMany({
+      where: { dealId },
+      orderBy: { id: 'asc' },
+      select: { id: true, depositAmount: true },
+    });
+
+    return positions.map((position) => ({
+      id: position.id.toString(),
+      depositAmount: position.depositAmount.toFixed(0),
+    }));
+  }
+
+  /**
+   * List position payouts for a settled deal
+   */
+  async getPayouts(dealId: bigint) {
+    const settlement = await prisma.settlement.findFirst({
+      where: { dealId, status: 'COMPLETED' },
+      orderBy: { settledAt: 'desc' },
+    });
+
+    if (!settlement) {
+      throw new SettlementError('Deal has no completed settlement', 404);
+    }
+
+    const positions = await prisma.position.findMany({
+      where: { dealId },
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        owner: true,
+        depositAmount: true,
+        claimAmount: true,
+        claimed: true,
+      },
+    });
+
+    const distributed = positions.reduce(
+      (sum: bigint, p: { claimAmount: { toFixed(dp: number): string } | null }) =>
+        sum + BigInt(p.claimAmount?.toFixed(0) ?? '0'),
+      0n
+    );
+
+    return { settlement, positions, distributed };
+  }
+
+  /**
+   * Recompute a stored settlement from its proofData and compare
+   */
+  async verifySettlement(settlementId: string) {
+    const settlement = await prisma.settlement.findUnique({
+      where: { id: settlementId },
+    });
+
+    if (!settlement?.proofData) {
+      throw new SettlementError('Settlement has no proof data', 404);
+    }
+
+    const proof: SettlementProof = JSON.parse(settlement.proofData);
+    const result = computeSettlement(proof.inputs);
+
+    const matches =
+      result.dealerFinal.toString() === settlement.dealerFinal.toFixed(0) &&
+      result.lpFinal.toString() === settlement.lpFinal.toFixed(0) &&
+      result.protocolFee.toString() === proof.result.protocolFee;
+
+    return { settlementId, matches, proof, recomputed: result };
+  }
+
+  /**
+   * Highest-version state carrying both signatures
+   * Throws until the dealer has countersigned a state.
+   */
+  private async getLatestSignedState(channelState: { channelId: string }) {
+    const signed = await prisma.stateHistory.findFirst({
+      where: {
+        channelId: channelState.channelId,
+        signature0: { not: null },
+        signature1: { not: null },
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    if (!signed) {
+      throw new SettlementError('No countersigned channel state to settle from yet', 409);
+    }
+    return signed;
+  }
+}
+
+// Export singleton instance
+export const settlementService = new SettlementService();
@@ -0,0 +1,336 @@
+/**
+ * Event Stream Service
+ * Real-time deal, channel and price updates. Events are appended to the
+ * StreamEvent table (inside the writer's transaction where there is one)
+ * and a poller fans them out to subscribers in this process, so every
+ * backend instance sees every event and clients can resume by sequence.
+ */
+import { Prisma } from '@prisma/client';
+import { createModuleLogger } from '../../utils/logger';
+import { getPrismaClient } from '../database/prisma';
+import { STREAM_CONFIG } from '../../config/contracts';
+
+const logger = createModuleLogger('eventStream');
+const prisma = getPrismaClient();
+
+export type StreamEventType = 'deal.status' | 'channel.state' | 'price';
+
+export interface StreamEvent {
+  seq: bigint;
+  type: StreamEventType | 'reset';
+  data: unknown;
+}
+
+interface StoredEvent extends StreamEvent {
+  topics: string[];
+}
+
+interface Subscriber {
+  topics: string[];
+  // Last sequence delivered (or skipped as not matching)
+  lastSeq: bigint;
+  // Still catching up from the database; the poller leaves it alone
+  replaying: boolean;
+  closed: boolean;
+  send: (event: StreamEvent) => void;
+}
+
+export interface Subscription {
+  unsubscribe: () => void;
+}
+
+// Missing sequence the poller is waiting on
+interface Gap {
+  seq: bigint;
+  // Transactions at or above this ID started after the gap was seen
+  xmax: bigint;
+}
+
+/**
+ * Topic names
+ */
+export const topics = {
+  deal: (dealId: bigint | string) => `deal:${dealId}`,
+  owner: (address: string) => `owner:${address.toLowerCase()}`,
+  price: (symbol: string) => `price:${symbol.toUpperCase()}`,
+};
+
+/**
+ * Service for publishing and subscribing to stream events
+ */
+export class EventStreamService {
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  // Highest sequence dispatched to live subscribers; every lower one was
+  // dispatched or rolled back
+  private cursor: bigint | null = null;
+  private gap: Gap | null = null;
+  private lastCleanup = 0;
+  private subscribers = new Set<Subscriber>();
+
+  /**
+   * Start dispatching new events
+   */
+  async start() {
+    if (this.pollInterval) {
+      logger.warn('Event stream already running');
+      return;
+    }
+
+    await this.initCursor();
+
+    logger.info('Starting event stream', {
+      pollInterval: STREAM_CONFIG.pollInterval,
+      cursor: this.cursor!.toString(),
+    });
+
+    this.pollInterval = setInterval(() => this.poll(), STREAM_CONFIG.pollInterval);
+  }
+
+  /**
+   * Stop dispatching
+   */
+  stop() {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+      logger.info('Event stream stopped');
+    }
+  }
+
+  /**
+   * Append an event
+   * Pass `tx` to publish atomically with the change it describes.
+   */
+  async publish(
+    type: StreamEventType,
+    eventTopics: string[],
+    data: Prisma.InputJsonValue,
+    tx?: Prisma.TransactionClient
+  ) {
+    const client = tx ?? prisma;
+
+    await client.streamEvent.create({
+      data: { type, topics: [...new Set(eventTopics)], data },
+    });
+  }
+
+  /**
+   * Subscribe to events on any of `subscribedTopics`
+   * With `after`, events after that sequence are replayed first; if they
+   * have already been pruned a `reset` event is sent before the replay.
+   */
+  async subscribe(
+    subscribedTopics: string[],
+    after: bigint | undefined,
+    send: (event: StreamEvent) => void
+  ): Promise<Subscription> {
+    await this.initCursor();
+
+    // A client can be ahead of this instance's cursor after reconnecting
+    // to a different backend instance
+    const subscriber: Subscriber = {
+      topics: subscribedTopics,
+      lastSeq: after !== undefined && after > this.cursor! ? after : this.cursor!,
+      replaying: after !== undefined && after < this.cursor!,
+      closed: false,
+      send,
+    };
+
+    this.subscribers.add(subscriber);
+
+    const subscription = {
+      unsubscribe: () => {
+        subscriber.closed = true;
+        this.subscribers.delete(subscriber);
+      },
+    };
+
+    if (subscriber.replaying) {
+      subscriber.lastSeq = after!;
+      try {
+        await this.replay(subscriber);
+      } catch (error) {
+        subscription.unsubscribe();
+        throw error;
+      }
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Number of open subscriptions in this process
+   */
+  get subscriberCount() {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Start from the newest event; history is only sent on request
+   */
+  private async initCursor() {
+    if (this.cursor !== null) return;
+
+    const latest = await prisma.streamEvent.findFirst({
+      orderBy: { seq: 'desc' },
+      select: { seq: true },
+    });
+
+    this.cursor ??= latest?.seq ?? 0n;
+  }
+
+  /**
+   * Committed events after `after`
+   */
+  private async fetchVisible(after: bigint, upTo: bigint | null, topicFilter: string[] | null) {
+    return await prisma.$queryRaw<StoredEvent[]>`
+      SELECT "seq", "type", "topics", "data"
+      FROM "StreamEvent"
+      WHERE "seq" > ${after}
+        ${upTo !== null ? Prisma.sql`AND "seq" <= ${upTo}` : Prisma.empty}
+        ${topicFilter ? Prisma.sql`AND "topics" && ${topicFilter}::text[]` : Prisma.empty}
+      ORDER BY "seq" ASC
+      LIMIT ${STREAM_CONFIG.replayBatch}
+    `;
+  }
+
+  /**
+   * Current snapshot bounds: transactions below `xmin` have ended, those at
+   * or above `xmax` had not started
+   */
+  private async snapshot() {
+    const [row] = await prisma.$queryRaw<{ xmin: string; xmax: string }[]>`
+      SELECT pg_snapshot_xmin(pg_current_snapshot())::text AS "xmin",
+             pg_snapshot_xmax(pg_current_snapshot())::text AS "xmax"
+    `;
+
+    return { xmin: BigInt(row.xmin), xmax: BigInt(row.xmax) };
+  }
+
+  /**
+   * Send a subscriber everything it missed, up to the live cursor
+   */
+  private async replay(subscriber: Subscriber) {
+    const oldest = await prisma.streamEvent.findFirst({
+      orderBy: { seq: 'asc' },
+      select: { seq: true },
+    });
+
+    if (oldest && subscriber.lastSeq < oldest.seq - 1n) {
+      subscriber.send({
+        seq: oldest.seq - 1n,
+        type: 'reset',
+        data: { reason: `Events up to ${oldest.seq - 1n} are no longer available` },
+      });
+      subscriber.lastSeq = oldest.seq - 1n;
+    }
+
+    // Loop until the live cursor stops moving ahead; the final check and the
+    // hand-off to the poller happen without an await in between
+    while (!subscriber.closed && subscriber.lastSeq < this.cursor!) {
+      const upTo = this.cursor!;
+      const events = await this.fetchVisible(subscriber.lastSeq, upTo, subscriber.topics);
+
+      for (const event of events) {
+        if (subscriber.closed) return;
+        subscriber.send({ seq: event.seq, type: event.type, data: event.data });
+        subscriber.lastSeq = event.seq;
+      }
+
+      if (events.length < STREAM_CONFIG.replayBatch) {
+        subscriber.lastSeq = upTo;
+      }
+    }
+
+    subscriber.replaying = false;
+  }
+
+  /**
+   * Dispatch newly committed events to live subscribers, in sequence order
+   * Sequences are taken at insert but become visible at commit, so a missing
+   * sequence holds the cursor back until it commits, or until every
+   * transaction open when the gap was first seen has ended (it rolled back).
+   */
+  private async poll() {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      // Read before the events, so a gap whose transactions have all ended
+      // is not mistaken for a rollback if it committed in between
+      const gapClosed = this.gap !== null && (await this.snapshot()).xmin >= this.gap.xmax;
+      let events: StoredEvent[];
+
+      fetch: do {
+        events = await this.fetchVisible(this.cursor!, null, null);
+
+        for (const event of events) {
+          if (event.seq !== this.cursor! + 1n) {
+            const seq = this.cursor! + 1n;
+
+            if (this.gap?.seq !== seq) {
+              this.gap = { seq, xmax: (await this.snapshot()).xmax };
+              break fetch;
+            }
+            if (!gapClosed) break fetch;
+
+            logger.debug('Skipping rolled back stream events', {
+              from: seq.toString(),
+              to: (event.seq - 1n).toString(),
+            });
+          }
+
+          this.dispatch(event);
+          this.cursor = event.seq;
+          this.gap = null;
+        }
+      } while (events.length === STREAM_CONFIG.replayBatch);
+
+      if (Date.now() - this.lastCleanup > STREAM_CONFIG.cleanupInterval) {
+        await this.cleanup();
+      }
+    } catch (error) {
+      logger.error('Error polling stream events', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private dispatch(event: StoredEvent) {
+    for (const subscriber of this.subscribers) {
+      if (subscriber.replaying || event.seq <= subscriber.lastSeq) continue;
+
+      if (subscriber.topics.some((topic) => event.topics.includes(topic))) {
+        try {
+          subscriber.send({ seq: event.seq, type: event.type, data: event.data });
+        } catch (error) {
+          logger.warn('Dropping stream subscriber after send failure', error);
+          subscriber.closed = true;
+          this.subscribers.delete(subscriber);
+          continue;
+        }
+      }
+
+      subscriber.lastSeq = event.seq;
+    }
+  }
+
+  /**
+   * Prune events past the resume window
+   */
+  private async cleanup() {
+    this.lastCleanup = Date.now();
+
+    const { count } = await prisma.streamEvent.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - STREAM_CONFIG.retention) } },
+    });
+
+    if (count > 0) {
+      logger.info('Pruned stream events', { count });
+    }
+  }
+}
+
+// Export singleton instance
+export const eventStreamService = new EventStreamService();
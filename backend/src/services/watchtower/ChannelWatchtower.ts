@@ -0,0 +1,440 @@
+/**
+ * Channel Watchtower
+ * Follows ChannelRegistry disputes for our channels and answers them by
+ * committing the highest countersigned state to YellowChannel before the
+ * challenge period ends
+ */
+import { createPublicClient, decodeFunctionResult, encodeFunctionData, http, type Address, type Hash, type Hex } from 'viem';
+import type { ChannelDispute } from '@prisma/client';
+import { createModuleLogger } from '../../utils/logger';
+import { postAlert } from '../../utils/alerts';
+import { CHAINS } from '../../config/chains';
+import { FLARE_CONTRACTS, WATCHTOWER_CONFIG } from '../../config/contracts';
+import { getPrismaClient } from '../database/prisma';
+import { transactionQueue } from '../blockchain/TransactionQueueService';
+import type { ChannelAllocation } from '../nitrolite/NitroliteService';
+
+const logger = createModuleLogger('watchtower');
+const prisma = getPrismaClient();
+
+const CHANNEL_REGISTRY_ABI = [
+  {
+    name: 'ChannelDisputed',
+    type: 'event',
+    inputs: [
+      { name: 'channelId', type: 'bytes32', indexed: true },
+      { name: 'challenger', type: 'address', indexed: true },
+    ],
+  },
+  {
+    name: 'challengePeriod',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const;
+
+const YELLOW_CHANNEL_ABI = [
+  {
+    name: 'getCommitment',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'channelId', type: 'bytes32' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'channelId', type: 'bytes32' },
+          { name: 'stateHash', type: 'bytes32' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'balance0', type: 'uint256' },
+          { name: 'balance1', type: 'uint256' },
+          { name: 'signature0', type: 'bytes' },
+          { name: 'signature1', type: 'bytes' },
+          { name: 'timeout', type: 'uint256' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'commitState',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'channelId', type: 'bytes32' },
+      { name: 'newStateHash', type: 'bytes32' },
+      { name: 'newNonce', type: 'uint256' },
+      { name: 'newBalance0', type: 'uint256' },
+      { name: 'newBalance1', type: 'uint256' },
+      { name: 'signature0', type: 'bytes' },
+      { name: 'signature1', type: 'bytes' },
+    ],
+    outputs: [],
+  },
+] as const;
+
+interface DisputeLog {
+  args: { channelId: Hash; challenger: Address };
+  blockNumber: bigint;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+/**
+ * Watchtower for ChannelRegistry disputes
+ */
+export class ChannelWatchtower {
+  // Contract reads go through call + decodeFunctionResult: readContract's
+  // parameter types do not resolve without strictNullChecks
+  private client = createPublicClient({
+    chain: {
+      id: CHAINS.flare.id,
+      name: CHAINS.flare.name,
+      nativeCurrency: CHAINS.flare.nativeCurrency,
+      rpcUrls: {
+        default: { http: [CHAINS.flare.rpcUrl] },
+        public: { http: [CHAINS.flare.rpcUrl] },
+      },
+    },
+    transport: http(CHAINS.flare.rpcUrl),
+  });
+  private registryAddress: Address | null = null;
+  private yellowChannelAddress: Address | null = null;
+  private chainId = BigInt(CHAINS.flare.id);
+  private isPolling = false;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  /**
+   * Start watching for disputes
+   */
+  start() {
+    if (this.intervalId) {
+      logger.warn('Watchtower already running');
+      return;
+    }
+
+    if (!FLARE_CONTRACTS.channelRegistry) {
+      throw new Error('CHANNEL_REGISTRY_ADDRESS not configured');
+    }
+
+    if (!FLARE_CONTRACTS.yellowChannel) {
+      throw new Error('YELLOW_CHANNEL_ADDRESS not configured');
+    }
+
+    this.registryAddress = FLARE_CONTRACTS.channelRegistry as Address;
+    this.yellowChannelAddress = FLARE_CONTRACTS.yellowChannel as Address;
+
+    logger.info('Starting channel watchtower', {
+      registry: this.registryAddress,
+      yellowChannel: this.yellowChannelAddress,
+      interval: `${WATCHTOWER_CONFIG.pollInterval / 1000}s`,
+    });
+
+    // Poll immediately, then at intervals
+    this.poll();
+
+    this.intervalId = setInterval(() => {
+      this.poll();
+    }, WATCHTOWER_CONFIG.pollInterval);
+  }
+
+  /**
+   * Stop watching
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('Stopped channel watchtower');
+    }
+  }
+
+  /**
+   * Record new disputes, then work on every unresolved one
+   */
+  private async poll() {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      await this.syncDisputes();
+
+      const pending = await prisma.channelDispute.findMany({
+        where: { status: { in: ['OPEN', 'RESPONDING'] } },
+        orderBy: { deadline: 'asc' },
+      });
+
+      for (const dispute of pending) {
+        try {
+          await this.handleDispute(dispute);
+        } catch (error) {
+          logger.error('Error handling channel dispute', {
+            disputeId: dispute.id,
+            channelId: dispute.channelId,
+            error,
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Watchtower pass failed', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Read ChannelDisputed logs after the cursor and record those of our channels
+   * Reorged-out disputes are not rolled back: answering one is harmless.
+   */
+  private async syncDisputes() {
+    const registry = this.registryAddress!;
+    const cursor = await prisma.indexerCursor.findUnique({
+      where: { chainId_contractAddress: { chainId: this.chainId, contractAddress: registry } },
+    });
+
+    const head: bigint = await this.client.getBlockNumber();
+    const safeHead = head - WATCHTOWER_CONFIG.confirmations;
+    let fromBlock = cursor ? cursor.lastBlock + 1n : WATCHTOWER_CONFIG.startBlock;
+
+    while (fromBlock <= safeHead) {
+      const toBlock = fromBlock + WATCHTOWER_CONFIG.batchSize - 1n < safeHead
+        ? fromBlock + WATCHTOWER_CONFIG.batchSize - 1n
+        : safeHead;
+
+      const logs: DisputeLog[] = await this.client.getLogs({
+        address: registry,
+        event: CHANNEL_REGISTRY_ABI[0],
+        fromBlock,
+        toBlock,
+      });
+
+      for (const log of logs) {
+        await this.recordDispute(log);
+      }
+
+      const block = await this.client.getBlock({ blockNumber: toBlock });
+      await prisma.indexerCursor.upsert({
+        where: { chainId_contractAddress: { chainId: this.chainId, contractAddress: registry } },
+        create: { chainId: this.chainId, contractAddress: registry, lastBlock: toBlock, lastBlockHash: block.hash },
+        update: { lastBlock: toBlock, lastBlockHash: block.hash },
+      });
+
+      fromBlock = toBlock + 1n;
+    }
+  }
+
+  private async recordDispute(log: DisputeLog) {
+    const channel = await prisma.channelState.findFirst({
+      where: { channelId: { equals: log.args.channelId, mode: 'insensitive' } },
+      select: { channelId: true, dealId: true },
+    });
+
+    // Not one of ours
+    if (!channel) return;
+
+    const [block, challengePeriodCall] = await Promise.all([
+      this.client.getBlock({ blockNumber: log.blockNumber }),
+      this.client.call({
+        to: this.registryAddress!,
+        data: encodeFunctionData({ abi: CHANNEL_REGISTRY_ABI, functionName: 'challengePeriod' }),
+      }),
+    ]);
+
+    const challengePeriod = decodeFunctionResult({
+      abi: CHANNEL_REGISTRY_ABI,
+      functionName: 'challengePeriod',
+      data: challengePeriodCall.data!,
+    });
+    const deadline = new Date(Number(block.timestamp + challengePeriod) * 1000);
+
+    const dispute = await prisma.channelDispute.upsert({
+      where: { txHash_logIndex: { txHash: log.transactionHash, logIndex: log.logIndex } },
+      create: {
+        channelId: channel.channelId,
+        challenger: log.args.challenger,
+        blockNumber: log.blockNumber,
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+        deadline,
+      },
+      update: {},
+    });
+
+    logger.warn('Channel disputed on-chain', {
+      disputeId: dispute.id,
+      channelId: channel.channelId,
+      dealId: channel.dealId.toString(),
+      challenger: log.args.challenger,
+      deadline: deadline.toISOString(),
+    });
+  }
+
+  /**
+   * Answer an open dispute, or follow up on the queued answer
+   */
+  private async handleDispute(dispute: ChannelDispute) {
+    if (dispute.status === 'RESPONDING') {
+      const job = dispute.responseJobId
+        ? await prisma.transactionQueue.findUnique({ where: { id: dispute.responseJobId } })
+        : null;
+
+      if (job?.status === 'CONFIRMED') {
+        await this.resolve(dispute, 'commitState confirmed', { txHash: job.txHash });
+        return;
+      }
+
+      if (!job || job.status === 'FAILED') {
+        await this.fail(dispute, `commitState transaction failed: ${job?.error ?? 'job not found'}`);
+        return;
+      }
+
+      if (dispute.deadline.getTime() <= Date.now()) {
+        await this.fail(dispute, 'Challenge period ended before commitState was mined');
+      }
+      return;
+    }
+
+    const onChainNonce = await this.getOnChainNonce(dispute.channelId);
+
+    const [best, latest] = await Promise.all([
+      prisma.stateHistory.findFirst({
+        where: { channelId: dispute.channelId, signature0: { not: null }, signature1: { not: null } },
+        orderBy: { version: 'desc' },
+      }),
+      prisma.stateHistory.findFirst({
+        where: { channelId: dispute.channelId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      }),
+    ]);
+
+    await prisma.channelDispute.update({
+      where: { id: dispute.id },
+      data: { onChainNonce },
+    });
+
+    if (!best || best.version <= onChainNonce) {
+      // Newer states exist but none of them can be proven on-chain yet; keep
+      // watching in case the counterparty signs before the deadline
+      if (latest && latest.version > onChainNonce) {
+        const reason = `No countersigned state above on-chain nonce ${onChainNonce} (latest version ${latest.version})`;
+
+        if (dispute.deadline.getTime() <= Date.now()) {
+          await this.fail(dispute, `Challenge period ended. ${reason}`);
+        } else if (dispute.error !== reason) {
+          await prisma.channelDispute.update({ where: { id: dispute.id }, data: { error: reason } });
+          await this.alert(dispute, reason);
+        }
+        return;
+      }
+
+      await this.resolve(dispute, 'Chain already holds the latest state', { onChainNonce });
+      return;
+    }
+
+    if (dispute.deadline.getTime() <= Date.now()) {
+      await this.fail(dispute, `Challenge period ended; version ${best.version} was not submitted`);
+      return;
+    }
+
+    // YellowChannel is two-party: the dealer seat against all LP seats
+    const [dealerSeat, ...lpSeats] = best.allocations as unknown as ChannelAllocation[];
+    const lpBalance = lpSeats.reduce((sum, seat) => sum + BigInt(seat.amount), 0n);
+
+    const job = await transactionQueue.enqueue({
+      chainId: CHAINS.flare.id,
+      to: this.yellowChannelAddress!,
+      data: encodeFunctionData({
+        abi: YELLOW_CHANNEL_ABI,
+        functionName: 'commitState',
+        args: [
+          dispute.channelId as Hex,
+          best.stateHash as Hex,
+          best.version,
+          BigInt(dealerSeat.amount),
+          lpBalance,
+          best.signature0 as Hex,
+          best.signature1 as Hex,
+        ],
+      }),
+      method: 'commitState',
+      priority: WATCHTOWER_CONFIG.responsePriority,
+    });
+
+    await prisma.channelDispute.update({
+      where: { id: dispute.id },
+      data: { status: 'RESPONDING', responseVersion: best.version, responseJobId: job.id },
+    });
+
+    logger.info('Answering channel dispute', {
+      disputeId: dispute.id,
+      channelId: dispute.channelId,
+      onChainNonce: onChainNonce.toString(),
+      version: best.version.toString(),
+      jobId: job.id,
+    });
+  }
+
+  private async getOnChainNonce(channelId: string): Promise<bigint> {
+    const { data } = await this.client.call({
+      to: this.yellowChannelAddress!,
+      data: encodeFunctionData({
+        abi: YELLOW_CHANNEL_ABI,
+        functionName: 'getCommitment',
+        args: [channelId as Hex],
+      }),
+    });
+    const commitment = decodeFunctionResult({ abi: YELLOW_CHANNEL_ABI, functionName: 'getCommitment', data: data! });
+
+    return commitment.nonce;
+  }
+
+  private async resolve(dispute: ChannelDispute, reason: string, details: Record<string, unknown>) {
+    await prisma.channelDispute.update({
+      where: { id: dispute.id },
+      data: { status: 'RESOLVED', error: null },
+    });
+
+    logger.info('Channel dispute resolved', {
+      disputeId: dispute.id,
+      channelId: dispute.channelId,
+      reason,
+      ...details,
+    });
+  }
+
+  /**
+   * Give up on a dispute and raise an alert
+   */
+  private async fail(dispute: ChannelDispute, reason: string) {
+    await prisma.channelDispute.update({
+      where: { id: dispute.id },
+      data: { status: 'FAILED', error: reason },
+    });
+
+    await this.alert(dispute, reason);
+  }
+
+  /**
+   * Log an alert and send it to the alert webhook, if configured
+   */
+  private async alert(dispute: ChannelDispute, reason: string) {
+    const alert = {
+      type: 'channel_dispute_unanswered',
+      disputeId: dispute.id,
+      channelId: dispute.channelId,
+      challenger: dispute.challenger,
+      txHash: dispute.txHash,
+      deadline: dispute.deadline.toISOString(),
+      reason,
+    };
+
+    logger.error('ALERT: channel dispute cannot be answered', alert);
+    await postAlert(WATCHTOWER_CONFIG.alertWebhook, alert);
+  }
+}
+
+// Export singleton instance
+export const channelWatchtower = new ChannelWatchtower();
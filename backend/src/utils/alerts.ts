@@ -0,0 +1,27 @@
+/**
+ * Alert webhook
+ */
+import { createModuleLogger } from './logger';
+
+const logger = createModuleLogger('alerts');
+
+/**
+ * POST an alert as JSON to a webhook; failures are logged, never thrown
+ */
+export async function postAlert(webhook: string, alert: Record<string, unknown>) {
+  if (!webhook) return;
+
+  try {
+    const response = await fetch(webhook, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(alert),
+    });
+
+    if (!response.ok) {
+      logger.error('Alert webhook rejected the alert', { status: response.status });
+    }
+  } catch (error) {
+    logger.error('Failed to send alert webhook', error);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Integer math helpers for token amounts
+ */
+
+/**
+ * Split `total` in proportion to `weights`
+ * Each part is rounded down, then the leftover goes one unit at a time to
+ * the largest remainders (ties to the lower index). Parts sum to `total`
+ * unless every weight is zero, in which case all parts are zero.
+ */
+export function splitProRata(total: bigint, weights: bigint[]): bigint[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0n);
+  if (weightSum === 0n) {
+    return weights.map(() => 0n);
+  }
+
+  const parts = weights.map((weight) => (total * weight) / weightSum);
+  const remainders = weights.map((weight) => (total * weight) % weightSum);
+
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0n);
+  const byRemainder = weights
+    .map((_, index) => index)
+    .sort((a, b) =>
+      remainders[a] === remainders[b] ? a - b : (remainders[a] > remainders[b] ? -1 : 1)
+    );
+
+  for (const index of byRemainder) {
+    if (leftover === 0n) break;
+    parts[index] += 1n;
+    leftover -= 1n;
+  }
+
+  return parts;
+}
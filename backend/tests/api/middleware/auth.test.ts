@@ -0,0 +1,178 @@
+import type { NextFunction, Request, Response } from 'express';
+import type { Role } from '@prisma/client';
+import {
+  authenticate,
+  requireDealer,
+  requirePositionOwner,
+  requireRole,
+} from '../../../src/api/middleware/auth';
+import { authService, AuthError, type Principal } from '../../../src/services/auth/AuthService';
+import dealRoutes from '../../../src/api/routes/deals';
+import positionRoutes from '../../../src/api/routes/positions';
+
+const mockPrisma = {
+  deal: { findUnique: jest.fn() },
+  position: { findUnique: jest.fn() },
+};
+
+jest.mock('../../../src/services/database/prisma', () => ({
+  // Resolved on use: services read the client while this file is still loading
+  getPrismaClient: () => new Proxy({}, { get: (_target, key) => (mockPrisma as any)[key] }),
+}));
+
+const dealer = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const lp = `0x${'A1'.repeat(20)}`;
+
+function request(headers: Record<string, string> = {}, params: Record<string, unknown> = {}) {
+  return { get: (name: string) => headers[name.toLowerCase()], params } as unknown as Request;
+}
+
+function response(principal?: Principal) {
+  const res = {
+    locals: { principal },
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn().mockReturnThis(),
+  };
+  return res as unknown as Response & { status: jest.Mock; json: jest.Mock };
+}
+
+function principal(role: Role, address: string | null): Principal {
+  return { type: 'siwe', role, address: address as `0x${string}` | null };
+}
+
+// Status sent by a middleware, or 'next' if it let the request through
+async function run(
+  middleware: (req: Request, res: Response, next: NextFunction) => unknown,
+  req: Request,
+  res: ReturnType<typeof response>
+) {
+  const next = jest.fn();
+  await middleware(req, res, next);
+  return next.mock.calls.length > 0 ? 'next' : res.status.mock.calls[0][0];
+}
+
+describe('auth middleware', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('authenticate', () => {
+    it('requires credentials', async () => {
+      const res = response();
+
+      expect(await run(authenticate, request(), res)).toBe(401);
+      expect(res.json.mock.calls[0][0].error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('sets the principal of a valid session token', async () => {
+      const caller = principal('LP', lp);
+      const verifyToken = jest.spyOn(authService, 'verifyToken').mockReturnValue(caller);
+      const res = response();
+
+      expect(await run(authenticate, request({ authorization: 'Bearer abc' }), res)).toBe('next');
+      expect(verifyToken).toHaveBeenCalledWith('abc');
+      expect(res.locals.principal).toBe(caller);
+    });
+
+    it('prefers an API key over a session token', async () => {
+      const verifyApiKey = jest.spyOn(authService, 'verifyApiKey').mockResolvedValue(principal('ADMIN', null));
+      const verifyToken = jest.spyOn(authService, 'verifyToken');
+
+      await run(authenticate, request({ 'x-api-key': 'lqm_key', authorization: 'Bearer abc' }), response());
+
+      expect(verifyApiKey).toHaveBeenCalledWith('lqm_key');
+      expect(verifyToken).not.toHaveBeenCalled();
+    });
+
+    it('answers invalid credentials with their status', async () => {
+      jest.spyOn(authService, 'verifyToken').mockImplementation(() => {
+        throw new AuthError('Invalid or expired token');
+      });
+
+      expect(await run(authenticate, request({ authorization: 'Bearer expired' }), response())).toBe(401);
+    });
+  });
+
+  describe('requireRole', () => {
+    it.each([
+      ['ADMIN', 'next'],
+      ['DEALER', 'next'],
+      ['LP', 403],
+    ] as [Role, string | number][])('answers %s with %s for deal creation', async (role, outcome) => {
+      expect(await run(requireRole('ADMIN', 'DEALER'), request(), response(principal(role, dealer)))).toBe(outcome);
+    });
+  });
+
+  describe('requireDealer', () => {
+    it.each([
+      ['the dealer (address in any case)', 'next', principal('DEALER', dealer.toLowerCase())],
+      ['an admin', 'next', principal('ADMIN', null)],
+      ['another dealer', 403, principal('DEALER', lp)],
+      ['an LP of the deal', 403, principal('LP', lp)],
+    ])('answers %s with %s', async (_case, outcome, caller) => {
+      mockPrisma.deal.findUnique.mockResolvedValue({ dealer });
+
+      expect(await run(requireDealer, request({}, { id: 1n }), response(caller))).toBe(outcome);
+      expect(mockPrisma.deal.findUnique).toHaveBeenCalledWith({ where: { id: 1n }, select: { dealer: true } });
+    });
+
+    it('lets only an admin act on a deal without a dealer', async () => {
+      mockPrisma.deal.findUnique.mockResolvedValue({ dealer: null });
+
+      expect(await run(requireDealer, request({}, { id: 1n }), response(principal('DEALER', dealer)))).toBe(403);
+      expect(await run(requireDealer, request({}, { id: 1n }), response(principal('ADMIN', null)))).toBe('next');
+    });
+
+    it('answers 404 for an unknown deal', async () => {
+      mockPrisma.deal.findUnique.mockResolvedValue(null);
+
+      expect(await run(requireDealer, request({}, { id: 1n }), response(principal('ADMIN', null)))).toBe(404);
+    });
+  });
+
+  describe('requirePositionOwner', () => {
+    it.each([
+      ['the owner (address in any case)', 'next', principal('LP', lp.toLowerCase())],
+      ['another LP', 403, principal('LP', dealer)],
+      // Withdrawals are the owner's alone
+      ['an admin', 403, principal('ADMIN', null)],
+      ['the deal dealer', 403, principal('DEALER', dealer)],
+    ])('answers %s with %s', async (_case, outcome, caller) => {
+      mockPrisma.position.findUnique.mockResolvedValue({ owner: lp });
+
+      expect(await run(requirePositionOwner, request({}, { id: 7n }), response(caller))).toBe(outcome);
+    });
+
+    it('answers 404 for an unknown position', async () => {
+      mockPrisma.position.findUnique.mockResolvedValue(null);
+
+      expect(await run(requirePositionOwner, request({}, { id: 7n }), response(principal('LP', lp)))).toBe(404);
+    });
+  });
+});
+
+describe('route access', () => {
+  // Middleware names on a route, in order
+  function chain(router: any, method: string, path: string): string[] {
+    const layer = router.stack.find((entry: any) => entry.route?.path === path && entry.route.methods[method]);
+    return layer.route.stack.map((entry: any) => entry.name);
+  }
+
+  it.each(['/:id/lock', '/:id/settle'])('requires the dealer or an admin for POST /api/deals%s', (path) => {
+    const names = chain(dealRoutes, 'post', path);
+
+    expect(names[0]).toBe('authenticate');
+    expect(names).toContain('requireDealer');
+  });
+
+  it('requires the position owner for POST /api/positions/:id/withdraw', () => {
+    const names = chain(positionRoutes, 'post', '/:id/withdraw');
+
+    expect(names[0]).toBe('authenticate');
+    expect(names).toContain('requirePositionOwner');
+  });
+});
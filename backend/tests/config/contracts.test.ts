@@ -0,0 +1,41 @@
+function loadConfig(env: Record<string, string>) {
+  const saved = { ...process.env };
+  Object.assign(process.env, env);
+
+  try {
+    let config!: typeof import('../../src/config/contracts');
+    jest.isolateModules(() => {
+      config = require('../../src/config/contracts');
+    });
+    return config;
+  } finally {
+    process.env = saved;
+  }
+}
+
+describe('key:value list variables', () => {
+  it('parses trimmed entries and skips empty ones', () => {
+    const config = loadConfig({
+      FTSO_INTERFACES: '14:v2, 114 : registry,',
+      FTSO_FEED_IDS: 'wbtc:0x01574254432F555344000000000000000000000000',
+      TOKEN_SYMBOLS: '0xFbDa5F676cB37624f28265A144A48B0d6e87d3b6:usdc',
+    });
+
+    expect(config.FTSO_CONFIG.interfaces).toEqual({ 14: 'v2', 114: 'registry' });
+    expect(config.FTSO_CONFIG.feedIds.WBTC).toBe('0x01574254432f555344000000000000000000000000');
+    expect(config.SETTLEMENT_CONFIG.tokenSymbols).toEqual({
+      '0xfbda5f676cb37624f28265a144a48b0d6e87d3b6': 'USDC',
+    });
+  });
+
+  it.each([
+    ['FTSO_INTERFACES', '14', 'Invalid FTSO_INTERFACES entry "14"'],
+    ['FTSO_INTERFACES', '14:v3', 'Invalid FTSO_INTERFACES entry "14:v3"'],
+    ['FTSO_INTERFACES', 'coston2:v2', 'Invalid FTSO_INTERFACES entry "coston2:v2"'],
+    ['FTSO_FEED_IDS', 'WBTC:0x01', 'Invalid FTSO_FEED_IDS entry "WBTC:0x01"'],
+    ['TOKEN_SYMBOLS', 'USDC', 'Invalid TOKEN_SYMBOLS entry "USDC"'],
+    ['TOKEN_SYMBOLS', '0xFbDa5F676cB37624f28265A144A48B0d6e87d3b6:', 'Invalid TOKEN_SYMBOLS entry'],
+  ])('rejects %s=%s', (name, value, message) => {
+    expect(() => loadConfig({ [name]: value })).toThrow(message);
+  });
+});
@@ -0,0 +1,214 @@
+import { createHash } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { createSiweMessage } from 'viem/siwe';
+import { AUTH_CONFIG } from '../../../src/config/contracts';
+import { AuthError, AuthService } from '../../../src/services/auth/AuthService';
+
+// In-memory AuthNonce and ApiKey tables
+let nonces: { nonce: string; expiresAt: Date }[];
+let apiKeys: Record<string, any>[];
+
+const mockPrisma = {
+  authNonce: {
+    create: jest.fn(async ({ data }: any) => nonces.push(data)),
+    deleteMany: jest.fn(async ({ where }: any) => {
+      const matched = nonces.filter(
+        (row) =>
+          (where.nonce === undefined || row.nonce === where.nonce) &&
+          (!where.expiresAt?.gte || row.expiresAt >= where.expiresAt.gte) &&
+          (!where.expiresAt?.lt || row.expiresAt < where.expiresAt.lt)
+      );
+      nonces = nonces.filter((row) => !matched.includes(row));
+      return { count: matched.length };
+    }),
+  },
+  apiKey: {
+    create: jest.fn(async ({ data }: any) => {
+      const row = { id: `key-${apiKeys.length + 1}`, revokedAt: null, lastUsedAt: null, ...data };
+      apiKeys.push(row);
+      return row;
+    }),
+    findUnique: jest.fn(async ({ where }: any) => apiKeys.find((row) => row.keyHash === where.keyHash) ?? null),
+    update: jest.fn(async ({ where, data }: any) => Object.assign(apiKeys.find((row) => row.id === where.id)!, data)),
+    updateMany: jest.fn(async ({ where, data }: any) => {
+      const matched = apiKeys.filter((row) => row.id === where.id && row.revokedAt === where.revokedAt);
+      matched.forEach((row) => Object.assign(row, data));
+      return { count: matched.length };
+    }),
+  },
+};
+
+jest.mock('../../../src/services/database/prisma', () => ({
+  // Resolved on use: services read the client while this file is still loading
+  getPrismaClient: () => new Proxy({}, { get: (_target, key) => (mockPrisma as any)[key] }),
+}));
+
+// Hardhat account 0
+const ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+async function authError(promise: Promise<unknown>): Promise<AuthError> {
+  const error = await promise.then(
+    () => null,
+    (error) => error
+  );
+  expect(error).toBeInstanceOf(AuthError);
+  return error;
+}
+
+describe('AuthService', () => {
+  const config = { ...AUTH_CONFIG };
+  let service: AuthService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    nonces = [];
+    apiKeys = [];
+    Object.assign(AUTH_CONFIG, { jwtSecret: 'test-secret', adminAddresses: [], dealerAddresses: [] });
+    service = new AuthService();
+  });
+
+  afterEach(() => {
+    Object.assign(AUTH_CONFIG, config);
+  });
+
+  describe('SIWE sign-in', () => {
+    let verifySiweMessage: jest.SpyInstance;
+
+    beforeEach(() => {
+      verifySiweMessage = jest.spyOn(service['client'], 'verifySiweMessage').mockResolvedValue(true);
+    });
+
+    function message(nonce: string, chainId = 14) {
+      return createSiweMessage({
+        address: ADDRESS,
+        chainId,
+        domain: AUTH_CONFIG.siweDomain,
+        nonce,
+        uri: `http://${AUTH_CONFIG.siweDomain}`,
+        version: '1',
+      });
+    }
+
+    it('issues nonces valid for the configured time and prunes expired ones', async () => {
+      nonces.push({ nonce: 'stale', expiresAt: new Date(Date.now() - 1000) });
+
+      const { nonce, expiresAt } = await service.createNonce();
+
+      expect(nonces.map((row) => row.nonce)).toEqual([nonce]);
+      expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + (AUTH_CONFIG.nonceTtl - 5) * 1000);
+    });
+
+    it('signs in once per nonce', async () => {
+      const { nonce } = await service.createNonce();
+
+      const session = await service.signIn(message(nonce), '0x1234');
+
+      expect(session).toMatchObject({ address: ADDRESS, role: 'LP' });
+      expect(verifySiweMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ domain: AUTH_CONFIG.siweDomain, nonce, signature: '0x1234' })
+      );
+
+      const replay = await authError(service.signIn(message(nonce), '0x1234'));
+      expect(replay.statusCode).toBe(401);
+      expect(replay.message).toBe('Unknown or expired nonce');
+    });
+
+    it('rejects an expired nonce without checking the signature', async () => {
+      nonces.push({ nonce: 'abcdefgh12345678', expiresAt: new Date(Date.now() - 1000) });
+
+      const error = await authError(service.signIn(message('abcdefgh12345678'), '0x1234'));
+
+      expect(error.statusCode).toBe(401);
+      expect(verifySiweMessage).not.toHaveBeenCalled();
+    });
+
+    it('burns the nonce even when the signature is invalid', async () => {
+      verifySiweMessage.mockResolvedValue(false);
+      const { nonce } = await service.createNonce();
+
+      const error = await authError(service.signIn(message(nonce), '0x1234'));
+
+      expect(error.message).toBe('Invalid SIWE signature');
+      expect(nonces).toEqual([]);
+    });
+
+    it('rejects unsupported chains and malformed messages with 400', async () => {
+      const { nonce } = await service.createNonce();
+
+      expect((await authError(service.signIn(message(nonce, 1), '0x1234'))).statusCode).toBe(400);
+      expect((await authError(service.signIn('not a SIWE message', '0x1234'))).statusCode).toBe(400);
+      // Neither attempt used the nonce
+      expect(nonces).toHaveLength(1);
+    });
+
+    it('grants configured roles by address in any case', async () => {
+      AUTH_CONFIG.dealerAddresses = [ADDRESS.toLowerCase()];
+      const { nonce } = await service.createNonce();
+
+      expect((await service.signIn(message(nonce), '0x1234')).role).toBe('DEALER');
+      expect(service.roleFor(ADDRESS.toUpperCase().replace('0X', '0x'))).toBe('DEALER');
+    });
+  });
+
+  describe('session tokens', () => {
+    it('verifies its own tokens to the signed-in principal', () => {
+      const { token } = service.issueToken(ADDRESS, 'ADMIN');
+
+      expect(service.verifyToken(token)).toEqual({ type: 'siwe', role: 'ADMIN', address: ADDRESS });
+    });
+
+    it.each([
+      ['signed with another secret', () => jwt.sign({ sub: ADDRESS, role: 'ADMIN' }, 'other-secret')],
+      ['expired', () => jwt.sign({ sub: ADDRESS, role: 'LP' }, 'test-secret', { expiresIn: -10 })],
+      ['unsigned', () => jwt.sign({ sub: ADDRESS, role: 'ADMIN' }, '', { algorithm: 'none' })],
+      ['malformed', () => 'not.a.token'],
+    ])('rejects a token (%s)', (_case, token) => {
+      expect(() => service.verifyToken(token())).toThrow(new AuthError('Invalid or expired token'));
+    });
+
+    it('fails with 500 without a JWT secret', () => {
+      AUTH_CONFIG.jwtSecret = '';
+
+      expect(() => service.issueToken(ADDRESS, 'LP')).toThrow(expect.objectContaining({ statusCode: 500 }));
+    });
+  });
+
+  describe('API keys', () => {
+    it('stores only the SHA-256 hash and a display prefix of a new key', async () => {
+      const { key, apiKey } = await service.createApiKey('ci', 'DEALER', ADDRESS);
+
+      expect(key).toMatch(/^lqm_[A-Za-z0-9_-]{32}$/);
+      expect(apiKey.keyPrefix).toBe(key.slice(0, 10));
+      expect(apiKeys[0].keyHash).toBe(createHash('sha256').update(key).digest('hex'));
+      expect(JSON.stringify(apiKeys[0])).not.toContain(key);
+    });
+
+    it('needs an address for keys below ADMIN', async () => {
+      expect((await authError(service.createApiKey('lp', 'LP', null))).statusCode).toBe(400);
+      await expect(service.createApiKey('ops', 'ADMIN', null)).resolves.toBeDefined();
+    });
+
+    it('resolves a key to its principal and records its use', async () => {
+      const { key, apiKey } = await service.createApiKey('ci', 'DEALER', ADDRESS.toLowerCase() as `0x${string}`);
+
+      expect(await service.verifyApiKey(key)).toEqual({
+        type: 'apiKey',
+        role: 'DEALER',
+        address: ADDRESS,
+        apiKeyId: apiKey.id,
+      });
+      expect(apiKeys[0].lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('rejects unknown and revoked keys', async () => {
+      const { key, apiKey } = await service.createApiKey('ci', 'ADMIN', null);
+
+      expect((await authError(service.verifyApiKey(`${key}x`))).statusCode).toBe(401);
+
+      await service.revokeApiKey(apiKey.id);
+
+      expect((await authError(service.verifyApiKey(key))).message).toBe('Invalid API key');
+      expect((await authError(service.revokeApiKey(apiKey.id))).statusCode).toBe(404);
+    });
+  });
+});
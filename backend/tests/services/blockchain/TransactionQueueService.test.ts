@@ -0,0 +1,345 @@
+import { keccak256, stringToHex, type Hash, type Hex, type TransactionReceipt } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { TransactionQueue } from '@prisma/client';
+import { TX_QUEUE_CONFIG } from '../../../src/config/contracts';
+import { TransactionQueueService, isRejected } from '../../../src/services/blockchain/TransactionQueueService';
+
+// In-memory TransactionQueue table supporting the queries the service makes
+let rows: TransactionQueue[] = [];
+
+function matches(row: TransactionQueue, where: Record<string, any> = {}) {
+  return Object.entries(where).every(([key, condition]) => {
+    const value = (row as any)[key];
+    if (condition instanceof Date) return value instanceof Date && value.getTime() === condition.getTime();
+    if (condition && typeof condition === 'object') {
+      if ('notIn' in condition) return !condition.notIn.includes(value);
+      if ('lte' in condition) return value <= condition.lte;
+      if ('not' in condition) return value !== condition.not;
+    }
+    return value === condition;
+  });
+}
+
+function apply(row: TransactionQueue, data: Record<string, any>) {
+  for (const [key, change] of Object.entries(data)) {
+    const current = (row as any)[key];
+    if (change && typeof change === 'object' && 'push' in change) (row as any)[key] = [...current, change.push];
+    else if (change && typeof change === 'object' && 'increment' in change) (row as any)[key] = current + change.increment;
+    else (row as any)[key] = change;
+  }
+}
+
+const mockPrisma = {
+  transactionQueue: {
+    findMany: async ({ where }: any) => rows.filter((row) => matches(row, where)).map((row) => ({ ...row })),
+    count: async ({ where }: any) => rows.filter((row) => matches(row, where)).length,
+    aggregate: async ({ where }: any) => {
+      const nonces = rows.filter((row) => matches(row, where)).map((row) => row.nonce!);
+      return { _max: { nonce: nonces.length ? nonces.reduce((a, b) => (a > b ? a : b)) : null } };
+    },
+    updateMany: async ({ where, data }: any) => {
+      const matched = rows.filter((row) => matches(row, where));
+      matched.forEach((row) => apply(row, data));
+      return { count: matched.length };
+    },
+  },
+  $executeRaw: jest.fn(async () => 0),
+  $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma),
+};
+
+jest.mock('../../../src/services/database/prisma', () => ({
+  // Resolved on use: the service reads the client while this file is still loading
+  getPrismaClient: () => new Proxy({}, { get: (_target, key) => (mockPrisma as any)[key] }),
+}));
+
+const CHAIN_ID = 114;
+// Hardhat account 0
+const account = privateKeyToAccount('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+
+function job(overrides: Partial<TransactionQueue> = {}): TransactionQueue {
+  const row: TransactionQueue = {
+    id: `job-${rows.length + 1}`,
+    chainId: BigInt(CHAIN_ID),
+    to: `0x${'11'.repeat(20)}`,
+    data: '0x1234',
+    value: '0',
+    gasLimit: null,
+    method: 'settle',
+    priority: 0,
+    status: 'PENDING',
+    claimedAt: null,
+    nonce: null,
+    maxFeePerGas: null,
+    maxPriorityFeePerGas: null,
+    txHash: null,
+    signedTx: null,
+    replacedTxHashes: [],
+    gasBumps: 0,
+    blockNumber: null,
+    error: null,
+    retryCount: 0,
+    maxRetries: 3,
+    availableAt: new Date(0),
+    sentAt: null,
+    createdAt: new Date(),
+    processedAt: null,
+    ...overrides,
+  };
+  rows.push(row);
+  return row;
+}
+
+// Chain stub: nonce counts, mined receipts by hash and recorded broadcasts
+function chain() {
+  const state = {
+    pendingCount: 7,
+    minedCount: 7,
+    receipts: new Map<Hash, TransactionReceipt>(),
+    broadcasts: [] as Hex[],
+    broadcastError: null as Error | null,
+  };
+
+  const publicClient = {
+    getTransactionCount: jest.fn(async ({ blockTag }: { blockTag: string }) =>
+      blockTag === 'pending' ? state.pendingCount : state.minedCount
+    ),
+    getTransactionReceipt: jest.fn(async ({ hash }: { hash: Hash }) => {
+      const receipt = state.receipts.get(hash);
+      if (!receipt) throw new Error(`Transaction receipt with hash "${hash}" could not be found`);
+      return receipt;
+    }),
+    estimateGas: jest.fn(async () => 21_000n),
+    estimateFeesPerGas: jest.fn(async () => ({ maxFeePerGas: 100n, maxPriorityFeePerGas: 10n })),
+  };
+
+  const walletClient = {
+    chain: { id: CHAIN_ID },
+    signTransaction: jest.fn(async (tx: { nonce: number; maxFeePerGas: bigint }) =>
+      stringToHex(`${tx.nonce}:${tx.maxFeePerGas}`)
+    ),
+    sendRawTransaction: jest.fn(async ({ serializedTransaction }: { serializedTransaction: Hex }) => {
+      if (state.broadcastError) throw state.broadcastError;
+      state.broadcasts.push(serializedTransaction);
+      return keccak256(serializedTransaction);
+    }),
+  };
+
+  return { state, publicClient, walletClient };
+}
+
+function mine(state: ReturnType<typeof chain>['state'], hash: string, status: 'success' | 'reverted') {
+  state.minedCount += 1;
+  state.receipts.set(hash as Hash, { transactionHash: hash, status, blockNumber: 1234n } as TransactionReceipt);
+}
+
+describe('TransactionQueueService', () => {
+  let service: TransactionQueueService;
+  let node: ReturnType<typeof chain>;
+
+  beforeEach(() => {
+    rows = [];
+    node = chain();
+    service = new TransactionQueueService();
+    service['account'] = account;
+    service['clients'].set(CHAIN_ID, node as any);
+  });
+
+  const send = () => service['sendNext']();
+  const check = () => service['checkInFlight']();
+
+  it('claims under the chain lock, signs, saves and broadcasts the next nonce', async () => {
+    const queued = job();
+    await send();
+
+    expect(mockPrisma.$executeRaw).toHaveBeenCalled();
+    expect(queued.status).toBe('PROCESSING');
+    expect(queued.nonce).toBe(7n);
+    expect(queued.claimedAt).toBeInstanceOf(Date);
+    expect(queued.signedTx).toBe(stringToHex('7:100'));
+    expect(queued.txHash).toBe(keccak256(queued.signedTx as Hex));
+    expect(queued.gasLimit).toBe('21000');
+    expect(node.state.broadcasts).toEqual([queued.signedTx]);
+  });
+
+  it('confirms a job once its transaction is mined', async () => {
+    const queued = job();
+    await send();
+    mine(node.state, queued.txHash!, 'success');
+    await check();
+
+    expect(queued.status).toBe('CONFIRMED');
+    expect(queued.blockNumber).toBe(1234n);
+    expect(queued.processedAt).toBeInstanceOf(Date);
+  });
+
+  it('fails a job whose transaction reverted, without a retry', async () => {
+    const queued = job();
+    await send();
+    mine(node.state, queued.txHash!, 'reverted');
+    await check();
+
+    expect(queued.status).toBe('FAILED');
+    expect(queued.error).toBe('Transaction reverted');
+    expect(queued.retryCount).toBe(0);
+  });
+
+  it('retries with a fresh nonce when another transaction used it', async () => {
+    const queued = job();
+    await send();
+    const hash = queued.txHash;
+    node.state.minedCount = 8;
+    await check();
+
+    expect(queued.status).toBe('PENDING');
+    expect(queued.retryCount).toBe(1);
+    expect(queued.error).toBe('Nonce 7 was used by another transaction');
+    expect(queued).toMatchObject({ nonce: null, claimedAt: null, txHash: null, signedTx: null });
+    expect(queued.replacedTxHashes).toEqual([hash]);
+    expect(queued.availableAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('fails a job for good once its retries are used up', async () => {
+    const queued = job({ retryCount: 2 });
+    await send();
+    node.state.minedCount = 8;
+    await check();
+
+    expect(queued.status).toBe('FAILED');
+    expect(queued.retryCount).toBe(3);
+    expect(queued.processedAt).toBeInstanceOf(Date);
+  });
+
+  it('re-signs a stuck transaction with the same nonce and higher fees', async () => {
+    const queued = job();
+    await send();
+    const first = queued.txHash;
+    queued.sentAt = new Date(Date.now() - TX_QUEUE_CONFIG.stuckTimeout - 1);
+    await check();
+
+    expect(queued.status).toBe('PROCESSING');
+    expect(queued.gasBumps).toBe(1);
+    expect(queued.nonce).toBe(7n);
+    // 15% over the previous fees, which are above the market's
+    expect(queued.maxFeePerGas).toBe('115');
+    expect(queued.maxPriorityFeePerGas).toBe('11');
+    expect(queued.replacedTxHashes).toEqual([first]);
+    expect(node.state.broadcasts).toEqual([stringToHex('7:100'), stringToHex('7:115')]);
+  });
+
+  it('confirms a job when an earlier broadcast of its nonce is the one mined', async () => {
+    const queued = job();
+    await send();
+    const first = queued.txHash!;
+    queued.sentAt = new Date(0);
+    await check();
+    mine(node.state, first, 'success');
+    await check();
+
+    expect(queued.status).toBe('CONFIRMED');
+    expect(queued.txHash).toBe(first);
+  });
+
+  it('re-broadcasts the last signed transaction once gas bumps run out', async () => {
+    const queued = job();
+    await send();
+    Object.assign(queued, { gasBumps: TX_QUEUE_CONFIG.maxGasBumps, sentAt: new Date(0) });
+    const hash = queued.txHash;
+    await check();
+
+    expect(queued.txHash).toBe(hash);
+    expect(node.state.broadcasts).toEqual([queued.signedTx, queued.signedTx]);
+    expect(queued.sentAt!.getTime()).toBeGreaterThan(0);
+  });
+
+  it('counts a rejected broadcast as a failed attempt and frees its nonce', async () => {
+    const queued = job();
+    node.state.broadcastError = new Error('insufficient funds for gas * price + value');
+    await send();
+
+    expect(queued.status).toBe('PENDING');
+    expect(queued.retryCount).toBe(1);
+    expect(queued.nonce).toBeNull();
+    expect(queued.error).toBe('insufficient funds for gas * price + value');
+
+    // The next attempt takes the same nonce again
+    node.state.broadcastError = null;
+    queued.availableAt = new Date(0);
+    await send();
+
+    expect(queued.nonce).toBe(7n);
+    expect(queued.status).toBe('PROCESSING');
+  });
+
+  it('leaves a transaction whose broadcast failed in transit to the next reconcile', async () => {
+    const queued = job();
+    node.state.broadcastError = new Error('The request took too long to respond.');
+    await send();
+
+    expect(queued.status).toBe('PROCESSING');
+    expect(queued.retryCount).toBe(0);
+    expect(queued.txHash).not.toBeNull();
+  });
+
+  it('keeps one transaction in flight per chain', async () => {
+    const first = job();
+    const second = job();
+    await send();
+    await send();
+
+    expect(first.status).toBe('PROCESSING');
+    expect(second.status).toBe('PENDING');
+  });
+
+  it('takes the nonce after the highest one saved when the node has not seen it', async () => {
+    job({ status: 'CONFIRMED', nonce: 9n });
+    const queued = job();
+    await send();
+
+    expect(queued.nonce).toBe(10n);
+  });
+
+  it('releases only claims unsigned past their lease', async () => {
+    const fresh = job({ status: 'PROCESSING', nonce: 7n, claimedAt: new Date() });
+    await check();
+    expect(fresh.status).toBe('PROCESSING');
+
+    fresh.claimedAt = new Date(Date.now() - TX_QUEUE_CONFIG.claimLease - 1);
+    await check();
+    expect(fresh).toMatchObject({ status: 'PENDING', nonce: null, claimedAt: null });
+  });
+
+  it('does not save a signature once its claim was released', async () => {
+    const queued = job();
+    node.walletClient.signTransaction.mockImplementationOnce(async (tx) => {
+      // Another worker released the claim while this one was signing
+      Object.assign(queued, { status: 'PENDING', nonce: null, claimedAt: null });
+      return stringToHex(`${tx.nonce}:${tx.maxFeePerGas}`);
+    });
+    await send();
+
+    expect(queued.txHash).toBeNull();
+    expect(node.state.broadcasts).toEqual([]);
+  });
+});
+
+describe('isRejected', () => {
+  it.each([
+    'insufficient funds for gas * price + value',
+    'intrinsic gas too low',
+    'nonce too high',
+    'max fee per gas higher than 2^256-1',
+    'execution reverted: Deal not active',
+  ])('rejects "%s"', (message) => {
+    expect(isRejected(new Error(message))).toBe(true);
+  });
+
+  it.each([
+    'nonce too low',
+    'already known',
+    'replacement transaction underpriced',
+    'max fee per gas less than block base fee',
+    'fetch failed',
+  ])('leaves "%s" to the next reconcile', (message) => {
+    expect(isRejected(new Error(message))).toBe(false);
+  });
+});
@@ -0,0 +1,233 @@
+import { once } from 'events';
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+import { CLEARNODE_CONFIG } from '../../../src/config/clearnode';
+import { ClearNodeService, parseNotification } from '../../../src/services/clearnode/ClearNodeService';
+import { MockClearNodeServer } from '../../../src/services/clearnode/mock/MockClearNodeServer';
+import { RPCMethod, type AppDefinition } from '../../../src/services/clearnode/types';
+
+const ACCOUNT = `0x${'a1'.repeat(20)}` as Address;
+
+// Timings short enough for reconnects and cooldowns to happen within a test
+const TIMINGS = {
+  reconnectInterval: 20,
+  maxReconnectDelay: 50,
+  connectionTimeout: 1000,
+  requestTimeout: 2000,
+  circuitBreakerThreshold: 3,
+  circuitBreakerCooldown: 300,
+};
+
+describe('ClearNodeService against the mock ClearNode', () => {
+  const config = { ...CLEARNODE_CONFIG };
+  let server: MockClearNodeServer;
+  let service: ClearNodeService;
+  let wallet: ethers.Wallet;
+
+  beforeEach(async () => {
+    server = new MockClearNodeServer({ port: 0 });
+    Object.assign(CLEARNODE_CONFIG, TIMINGS, { wsUrl: await server.start() });
+
+    wallet = ethers.Wallet.createRandom() as unknown as ethers.Wallet;
+    service = new ClearNodeService();
+    await service.initialize(wallet.privateKey);
+  });
+
+  afterEach(async () => {
+    service.disconnect();
+    await server.stop();
+    Object.assign(CLEARNODE_CONFIG, config);
+  });
+
+  function definition(): AppDefinition {
+    return {
+      protocol: 'nitroliterpc',
+      participants: [wallet.address as Address, ACCOUNT],
+      weights: [50, 50],
+      quorum: 100,
+      challenge: 0,
+      nonce: Date.now(),
+    };
+  }
+
+  it('authenticates with a fresh session key that signs every request', async () => {
+    await service.connect();
+
+    const status = service.getStatus();
+    expect(status).toMatchObject({ status: 'authenticated', authenticated: true, address: wallet.address });
+    expect(status.sessionKey).not.toBe(wallet.address);
+
+    await server.fund(wallet.address as Address, 'usdc', '100');
+    expect(await service.getChannels()).toEqual([expect.objectContaining({ participant: wallet.address, amount: '100' })]);
+  });
+
+  describe('replay queue', () => {
+    it('replays a read cut off by a dropped connection once re-authenticated', async () => {
+      server.injectFault({ kind: 'disconnect', method: RPCMethod.GetChannels });
+      await service.connect();
+      const sessionKey = service.getStatus().sessionKey;
+
+      expect(await service.getChannels()).toEqual([]);
+      // Answered on the new connection, under its own session key
+      expect(service.getStatus().sessionKey).not.toBe(sessionKey);
+    });
+
+    it('fails a write cut off by a dropped connection, since it may have been applied', async () => {
+      server.injectFault({ kind: 'disconnect', method: RPCMethod.CreateAppSession });
+      await service.connect();
+
+      await expect(service.createAppSession(definition(), [])).rejects.toThrow(
+        'Connection lost before create_app_session was answered'
+      );
+      await expect(service.getChannels()).resolves.toEqual([]);
+    });
+
+    it('fails a request left unanswered past the request timeout', async () => {
+      Object.assign(CLEARNODE_CONFIG, { requestTimeout: 100 });
+      server.injectFault({ kind: 'timeout', method: RPCMethod.GetChannels });
+      await service.connect();
+
+      await expect(service.getChannels()).rejects.toThrow('Request timeout for get_channels');
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('opens after repeated failed connections and closes on the next success', async () => {
+      server.injectFault({ kind: 'error', method: RPCMethod.AuthRequest, times: Infinity });
+      const opened = once(service, 'circuitOpen');
+
+      await expect(service.connect()).rejects.toThrow('Authentication failed');
+      const waiting = service.waitUntilAuthenticated(5000);
+      await opened;
+
+      // Waiting callers and new requests fail at once while it is open
+      await expect(waiting).rejects.toThrow('ClearNode unavailable after 3 failed connection attempts');
+      await expect(service.getChannels()).rejects.toThrow('ClearNode unavailable');
+      expect(service.getStatus().circuitOpenUntil).toBeInstanceOf(Date);
+
+      server.clearFaults();
+      await once(service, 'circuitClosed');
+
+      expect(service.getStatus().circuitOpenUntil).toBeNull();
+      await expect(service.getChannels()).resolves.toEqual([]);
+    });
+  });
+
+  describe('session key rotation', () => {
+    it('re-authenticates the open connection with a new key', async () => {
+      await service.connect();
+      const sessionKey = service.getStatus().sessionKey;
+
+      await service.rotateSessionKey();
+
+      expect(service.getStatus().sessionKey).not.toBe(sessionKey);
+      expect(server.connectionCount).toBe(1);
+      await expect(service.getChannels()).resolves.toEqual([]);
+    });
+
+    it.each([
+      ['rejected', { kind: 'error' as const, method: RPCMethod.AuthVerify }, 'Authentication failed'],
+      ['unanswered', { kind: 'timeout' as const, method: RPCMethod.AuthRequest }, 'Session key rotation timeout'],
+    ])('keeps the current key when a rotation is %s and retries it', async (_case, fault, message) => {
+      Object.assign(CLEARNODE_CONFIG, { connectionTimeout: 200 });
+      await service.connect();
+      const { sessionKey, sessionExpiresAt } = service.getStatus();
+      server.injectFault(fault);
+
+      await expect(service.rotateSessionKey()).rejects.toThrow(message);
+
+      expect(service.getStatus()).toMatchObject({ authenticated: true, sessionKey, sessionExpiresAt });
+      expect(server.connectionCount).toBe(1);
+      await expect(service.getChannels()).resolves.toEqual([]);
+
+      // The retry goes through now that the fault is spent
+      await once(service, 'authenticated');
+      expect(service.getStatus().sessionKey).not.toBe(sessionKey);
+      expect(server.connectionCount).toBe(1);
+    });
+
+    it('reconnects with a fresh key only once the current one has expired', async () => {
+      // Rotation is due at once, and every attempt after the first sign-in fails
+      Object.assign(CLEARNODE_CONFIG, { sessionExpiration: 2, sessionRotationMargin: 2 });
+      server.injectFault({ kind: 'error', method: RPCMethod.AuthVerify, after: 1, times: Infinity });
+      await service.connect();
+      const { sessionExpiresAt } = service.getStatus();
+
+      await once(service, 'disconnected');
+
+      expect(Date.now()).toBeGreaterThanOrEqual(sessionExpiresAt!.getTime());
+    });
+  });
+
+  it('emits server pushes as typed notifications', async () => {
+    await service.connect();
+    const channelUpdate = once(service, 'channelUpdate');
+    const balanceUpdate = once(service, 'balanceUpdate');
+
+    await server.fund(wallet.address as Address, 'usdc', '250');
+
+    expect((await channelUpdate)[0]).toMatchObject({ participant: wallet.address, token: 'usdc', amount: '250' });
+    expect((await balanceUpdate)[0]).toEqual({
+      account: wallet.address,
+      balances: [{ asset: 'usdc', amount: '250' }],
+    });
+  });
+});
+
+describe('parseNotification', () => {
+  const session = { app_session_id: '0x01', status: 'open', version: 2 };
+  const allocations = [{ participant: ACCOUNT, asset: 'usdc', amount: '5' }];
+  const transaction = { id: 1, tx_type: 'transfer', asset: 'usdc', amount: '5' };
+
+  it.each([
+    [
+      'balance updates, wrapped',
+      RPCMethod.BalanceUpdate,
+      [{ balance_updates: [{ asset: 'usdc', amount: '5' }] }],
+      { type: 'balanceUpdate', data: { account: ACCOUNT, balances: [{ asset: 'usdc', amount: '5' }] } },
+    ],
+    [
+      'balance updates as a bare list of ledger balances',
+      RPCMethod.BalanceUpdate,
+      [[{ asset: 'usdc', balance: 7 }]],
+      { type: 'balanceUpdate', data: { account: ACCOUNT, balances: [{ asset: 'usdc', amount: '7' }] } },
+    ],
+    [
+      'channel updates',
+      RPCMethod.ChannelUpdate,
+      { channel_id: '0x02', version: 3 },
+      { type: 'channelUpdate', data: { channel_id: '0x02', version: 3 } },
+    ],
+    [
+      'app session updates with their allocations',
+      RPCMethod.AppSessionUpdate,
+      [{ app_session: session, participant_allocations: allocations }],
+      { type: 'appSessionUpdate', data: { session, allocations } },
+    ],
+    [
+      'bare app session updates',
+      RPCMethod.AppSessionUpdate,
+      session,
+      { type: 'appSessionUpdate', data: { session, allocations: [] } },
+    ],
+    [
+      'transfers',
+      RPCMethod.TransferNotification,
+      [{ transactions: [transaction] }],
+      { type: 'transfer', data: { transactions: [transaction] } },
+    ],
+  ])('parses %s', (_case, method, result, notification) => {
+    expect(parseNotification(method, result, ACCOUNT)).toEqual(notification);
+  });
+
+  it.each([
+    ['a payload that is not an object', RPCMethod.ChannelUpdate, ['0x02'], ACCOUNT],
+    ['balances before authentication', RPCMethod.BalanceUpdate, { balance_updates: [] }, undefined],
+    ['a channel without an ID', RPCMethod.ChannelUpdate, { version: 3 }, ACCOUNT],
+    ['a session without an ID', RPCMethod.AppSessionUpdate, { app_session: { status: 'open' } }, ACCOUNT],
+    ['transfers without a list', RPCMethod.TransferNotification, { transactions: 'none' }, ACCOUNT],
+    ['an unknown method', 'xyz', { channel_id: '0x02' }, ACCOUNT],
+  ])('ignores %s', (_case, method, result, account) => {
+    expect(parseNotification(method, result, account as Address | undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { dealLifecycleService } from '../../../src/services/deals/DealLifecycleService';
+import { dealStateMachine, DealTransitionError } from '../../../src/services/deals/DealStateMachine';
+import { ChannelError, nitroliteService } from '../../../src/services/nitrolite/NitroliteService';
+import { dealVaultService } from '../../../src/services/blockchain/DealVaultService';
+
+const mockPrisma = {
+  deal: { findUnique: jest.fn() },
+  position: { findMany: jest.fn() },
+};
+
+jest.mock('../../../src/services/database/prisma', () => ({
+  // Resolved on use: services read the client while this file is still loading
+  getPrismaClient: () => new Proxy({}, { get: (_target, key) => (mockPrisma as any)[key] }),
+}));
+
+const dealer = `0x${'d0'.repeat(20)}`;
+const token = `0x${'01'.repeat(20)}`;
+const channelId = `0x${'ab'.repeat(32)}`;
+
+describe('DealLifecycleService.lockDeal', () => {
+  const options = { source: 'api' as const };
+
+  let transition: jest.SpyInstance;
+  let createChannel: jest.SpyInstance;
+  let linkChannel: jest.SpyInstance;
+  let lockOnChain: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.deal.findUnique.mockResolvedValue({ id: 1n, dealer, depositToken: token, simulated: false });
+    mockPrisma.position.findMany.mockResolvedValue([
+      { id: 1n, owner: `0x${'a1'.repeat(20)}`, depositAmount: { toFixed: () => '5000' } },
+    ]);
+
+    transition = jest
+      .spyOn(dealStateMachine, 'transition')
+      .mockImplementation(async (id, status) => ({ id, status }) as any);
+    createChannel = jest.spyOn(nitroliteService, 'createChannelForDeal').mockResolvedValue({ channelId } as any);
+    linkChannel = jest.spyOn(dealVaultService, 'linkChannel').mockResolvedValue({ id: 'job-link' } as any);
+    lockOnChain = jest.spyOn(dealVaultService, 'lockDeal').mockResolvedValue({ id: 'job-lock' } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('claims CREATED -> LOCKED, opens the channel and queues the link before the lock', async () => {
+    const result = await dealLifecycleService.lockDeal(1n, options);
+
+    expect(transition).toHaveBeenCalledWith(1n, 'LOCKED', expect.objectContaining({ from: 'CREATED', source: 'api' }));
+    expect(createChannel).toHaveBeenCalledWith(1n, dealer, token, [
+      { id: 1n, owner: `0x${'a1'.repeat(20)}`, depositAmount: 5000n },
+    ]);
+    expect(linkChannel.mock.invocationCallOrder[0]).toBeLessThan(lockOnChain.mock.invocationCallOrder[0]);
+    expect(result).toMatchObject({ channelId, transactions: { linkChannel: 'job-link', lockDeal: 'job-lock' } });
+  });
+
+  it('queues nothing on-chain for a simulated deal', async () => {
+    mockPrisma.deal.findUnique.mockResolvedValue({ id: 1n, dealer, depositToken: token, simulated: true });
+
+    const result = await dealLifecycleService.lockDeal(1n, options);
+
+    expect(linkChannel).not.toHaveBeenCalled();
+    expect(lockOnChain).not.toHaveBeenCalled();
+    expect(result.transactions).toBeNull();
+  });
+
+  it('rolls the deal back to CREATED when the channel cannot be opened', async () => {
+    createChannel.mockRejectedValue(new ChannelError('ClearNode rejected the session', 502));
+
+    await expect(dealLifecycleService.lockDeal(1n, options)).rejects.toThrow('ClearNode rejected the session');
+
+    expect(transition).toHaveBeenLastCalledWith(1n, 'CREATED', {
+      from: 'LOCKED',
+      source: 'api',
+      reason: 'Lock failed: ClearNode rejected the session',
+      data: { lockTimestamp: null },
+    });
+    expect(linkChannel).not.toHaveBeenCalled();
+  });
+
+  it('rolls back when queueing the on-chain lock fails', async () => {
+    lockOnChain.mockRejectedValue(new Error('DEAL_VAULT_ADDRESS not configured'));
+
+    await expect(dealLifecycleService.lockDeal(1n, options)).rejects.toThrow('DEAL_VAULT_ADDRESS not configured');
+    expect(transition).toHaveBeenLastCalledWith(1n, 'CREATED', expect.objectContaining({ from: 'LOCKED' }));
+  });
+
+  it.each([
+    ['the deal does not exist', null, 404],
+    ['the deal has no dealer', { id: 1n, dealer: null, depositToken: token, simulated: false }, 422],
+  ])('rejects a lock when %s', async (_case, deal, statusCode) => {
+    mockPrisma.deal.findUnique.mockResolvedValue(deal);
+
+    const error = await dealLifecycleService.lockDeal(1n, options).catch((error) => error);
+
+    expect(error).toBeInstanceOf(DealTransitionError);
+    expect(error.statusCode).toBe(statusCode);
+    expect(transition).not.toHaveBeenCalled();
+  });
+
+  it('rejects a deal another caller already moved out of CREATED', async () => {
+    transition.mockResolvedValueOnce(null);
+
+    const error = await dealLifecycleService.lockDeal(1n, options).catch((error) => error);
+
+    expect(error).toBeInstanceOf(DealTransitionError);
+    expect(error.statusCode).toBe(409);
+    expect(createChannel).not.toHaveBeenCalled();
+  });
+});
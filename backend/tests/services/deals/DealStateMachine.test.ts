@@ -0,0 +1,236 @@
+import type { DealStatus } from '@prisma/client';
+import {
+  DEAL_TRANSITIONS,
+  dealStateMachine,
+  DealTransitionError,
+} from '../../../src/services/deals/DealStateMachine';
+import { eventStreamService } from '../../../src/services/stream/EventStreamService';
+
+// One stored deal and the DealTransition rows written for it
+let deal: Record<string, any> | null;
+let transitions: Record<string, unknown>[];
+
+const mockPrisma = {
+  deal: {
+    findUnique: jest.fn(async () => (deal ? { ...deal } : null)),
+    updateMany: jest.fn(async ({ where, data }: any) => {
+      if (!deal || deal.id !== where.id || deal.status !== where.status) return { count: 0 };
+      Object.assign(deal, data);
+      return { count: 1 };
+    }),
+  },
+  dealTransition: {
+    create: jest.fn(async ({ data }: any) => transitions.push(data)),
+  },
+  $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma)),
+};
+
+jest.mock('../../../src/services/database/prisma', () => ({
+  // Resolved on use: services read the client while this file is still loading
+  getPrismaClient: () => new Proxy({}, { get: (_target, key) => (mockPrisma as any)[key] }),
+}));
+
+const STATUSES: DealStatus[] = ['CREATED', 'LOCKED', 'ACTIVE', 'SETTLING', 'SETTLED', 'CANCELLED'];
+
+const ALLOWED: [DealStatus, DealStatus][] = [
+  ['CREATED', 'LOCKED'],
+  ['CREATED', 'CANCELLED'],
+  ['LOCKED', 'ACTIVE'],
+  ['LOCKED', 'CREATED'],
+  ['LOCKED', 'CANCELLED'],
+  ['ACTIVE', 'SETTLING'],
+  ['SETTLING', 'SETTLED'],
+];
+
+const REJECTED = STATUSES.flatMap((from) =>
+  STATUSES.filter((to) => !ALLOWED.some(([a, b]) => a === from && b === to)).map(
+    (to) => [from, to] as [DealStatus, DealStatus]
+  )
+);
+
+// A deal that passes every guard
+function storeDeal(status: DealStatus, overrides: Record<string, unknown> = {}) {
+  deal = {
+    id: 1n,
+    status,
+    dealer: `0x${'d0'.repeat(20)}`,
+    expiryTimestamp: new Date(Date.now() - 1000),
+    channelState: { channelId: `0x${'ab'.repeat(32)}` },
+    settlements: [{ id: 'settlement-1', status: 'COMPLETED' }],
+    _count: { positions: 1 },
+    positions: [{ owner: `0x${'A1'.repeat(20)}` }],
+    ...overrides,
+  };
+}
+
+describe('DealStateMachine', () => {
+  let publish: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    deal = null;
+    transitions = [];
+    publish = jest.spyOn(eventStreamService, 'publish').mockResolvedValue(undefined as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('allows exactly the listed transitions', () => {
+    for (const from of STATUSES) {
+      for (const to of STATUSES) {
+        const allowed = ALLOWED.some(([a, b]) => a === from && b === to);
+        expect([from, to, dealStateMachine.canTransition(from, to)]).toEqual([from, to, allowed]);
+      }
+    }
+    expect(Object.values(DEAL_TRANSITIONS).flat()).toHaveLength(ALLOWED.length);
+  });
+
+  it.each(ALLOWED)('moves %s -> %s and records it', async (from, to) => {
+    storeDeal(from);
+
+    const updated = await dealStateMachine.transition(1n, to, { source: 'api', reason: 'Test' });
+
+    expect(updated!.status).toBe(to);
+    expect(transitions).toEqual([{ dealId: 1n, fromStatus: from, toStatus: to, source: 'api', reason: 'Test' }]);
+    expect(publish).toHaveBeenCalledWith(
+      'deal.status',
+      ['deal:1', `owner:0x${'d0'.repeat(20)}`, `owner:0x${'a1'.repeat(20)}`],
+      { dealId: '1', from, to, source: 'api', reason: 'Test' },
+      mockPrisma
+    );
+  });
+
+  it.each(REJECTED)('rejects %s -> %s with 409 and records nothing', async (from, to) => {
+    storeDeal(from);
+
+    const error = await dealStateMachine.transition(1n, to, { source: 'api' }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(DealTransitionError);
+    expect(error.statusCode).toBe(409);
+    expect(error.message).toBe(`Cannot move deal from ${from} to ${to}`);
+    expect(deal!.status).toBe(from);
+    expect(transitions).toEqual([]);
+  });
+
+  it.each([
+    ['CREATED', 'LOCKED', { _count: { positions: 0 } }, 'Deal has no deposits'],
+    ['LOCKED', 'ACTIVE', { channelState: null }, 'Deal has no open channel'],
+    [
+      'ACTIVE',
+      'SETTLING',
+      { expiryTimestamp: new Date('2999-01-01T00:00:00.000Z') },
+      'Deal expires at 2999-01-01T00:00:00.000Z',
+    ],
+    ['SETTLING', 'SETTLED', { settlements: [] }, 'Deal has no completed settlement'],
+  ] as [DealStatus, DealStatus, Record<string, unknown>, string][])(
+    'guards %s -> %s',
+    async (from, to, overrides, reason) => {
+      storeDeal(from, overrides);
+
+      const error = await dealStateMachine.transition(1n, to, { source: 'api' }).catch((error) => error);
+
+      expect(error).toBeInstanceOf(DealTransitionError);
+      expect(error.statusCode).toBe(409);
+      expect(error.message).toBe(`Cannot move deal from ${from} to ${to}: ${reason}`);
+      expect(transitions).toEqual([]);
+    }
+  );
+
+  it('throws 404 for an unknown deal', async () => {
+    const error = await dealStateMachine.transition(1n, 'LOCKED', { source: 'api' }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(DealTransitionError);
+    expect(error.statusCode).toBe(404);
+  });
+
+  it('skips a deal no longer in the expected status', async () => {
+    storeDeal('LOCKED');
+
+    expect(await dealStateMachine.transition(1n, 'LOCKED', { source: 'scheduler', from: 'CREATED' })).toBeNull();
+    expect(transitions).toEqual([]);
+  });
+
+  it('skips when another caller changed the status first', async () => {
+    storeDeal('CREATED');
+    mockPrisma.deal.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    expect(await dealStateMachine.transition(1n, 'LOCKED', { source: 'api' })).toBeNull();
+    expect(transitions).toEqual([]);
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('writes extra deal fields with the status', async () => {
+    storeDeal('CREATED');
+    const lockTimestamp = new Date();
+
+    await dealStateMachine.transition(1n, 'LOCKED', { source: 'api', data: { lockTimestamp } });
+
+    expect(mockPrisma.deal.updateMany).toHaveBeenCalledWith({
+      where: { id: 1n, status: 'CREATED' },
+      data: { status: 'LOCKED', lockTimestamp },
+    });
+  });
+
+  it('does not notify a dealer the deal does not have', async () => {
+    storeDeal('CREATED', { dealer: null });
+
+    await dealStateMachine.transition(1n, 'CANCELLED', { source: 'indexer' });
+
+    expect(publish.mock.calls[0][1]).toEqual(['deal:1', `owner:0x${'a1'.repeat(20)}`]);
+  });
+
+  describe('sync', () => {
+    it('walks and records every step to a status that is not directly reachable', async () => {
+      storeDeal('CREATED', { _count: { positions: 0 }, channelState: null, settlements: [] });
+
+      const updated = await dealStateMachine.transition(1n, 'SETTLED', {
+        source: 'indexer',
+        sync: true,
+        data: { totalDeposited: '0' },
+      });
+
+      expect(updated!.status).toBe('SETTLED');
+      expect(transitions.map((row) => `${row.fromStatus}->${row.toStatus}`)).toEqual([
+        'CREATED->LOCKED',
+        'LOCKED->ACTIVE',
+        'ACTIVE->SETTLING',
+        'SETTLING->SETTLED',
+      ]);
+      // Extra fields only go with the last step
+      expect(mockPrisma.deal.updateMany.mock.calls.map(([{ data }]) => data)).toEqual([
+        { status: 'LOCKED' },
+        { status: 'ACTIVE' },
+        { status: 'SETTLING' },
+        { status: 'SETTLED', totalDeposited: '0' },
+      ]);
+    });
+
+    it('skips unknown deals, unreachable targets and the current status', async () => {
+      expect(await dealStateMachine.transition(1n, 'LOCKED', { source: 'indexer', sync: true })).toBeNull();
+
+      storeDeal('SETTLED');
+      expect(await dealStateMachine.transition(1n, 'ACTIVE', { source: 'indexer', sync: true })).toBeNull();
+      expect((await dealStateMachine.transition(1n, 'SETTLED', { source: 'indexer', sync: true }))!.status).toBe(
+        'SETTLED'
+      );
+      expect(transitions).toEqual([]);
+    });
+  });
+
+  it('rewinds past the transition table and records it', async () => {
+    storeDeal('ACTIVE');
+
+    await dealStateMachine.rewind(1n, 'LOCKED', {
+      source: 'indexer',
+      reason: 'DealActivated removed by reorg',
+      tx: mockPrisma as any,
+    });
+
+    expect(deal!.status).toBe('LOCKED');
+    expect(transitions).toEqual([
+      { dealId: 1n, fromStatus: 'ACTIVE', toStatus: 'LOCKED', source: 'indexer', reason: 'DealActivated removed by reorg' },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { ethers } from 'ethers';
+import type { Hex } from 'viem';
+import {
+  getBackendSigner,
+  hashChannelState,
+  recoverStateSigner,
+  signStateHash,
+  type HashableState,
+} from '../../../src/services/nitrolite/ChannelStateHash';
+
+// Hardhat account 0
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const state: HashableState = {
+  channelId: `0x${'ab'.repeat(32)}`,
+  version: 3n,
+  intent: 'RESIZE',
+  allocations: [
+    { destination: `0x${'d0'.repeat(20)}`, token: `0x${'01'.repeat(20)}`, amount: '5000' },
+    { destination: `0x${'a1'.repeat(20)}`, token: `0x${'01'.repeat(20)}`, amount: '15000' },
+  ],
+  stateData: '0x1234',
+};
+
+describe('hashChannelState', () => {
+  it('hashes abi.encode(channelId, version, intent, allocations, stateData)', () => {
+    const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+      ['bytes32', 'uint256', 'uint8', 'tuple(address,address,uint256)[]', 'bytes'],
+      [
+        state.channelId,
+        3n,
+        2,
+        state.allocations.map((allocation) => [allocation.destination, allocation.token, allocation.amount]),
+        '0x1234',
+      ]
+    );
+
+    expect(hashChannelState(state)).toBe(ethers.keccak256(encoded));
+  });
+
+  it('encodes missing state data as empty bytes', () => {
+    expect(hashChannelState({ ...state, stateData: null })).toBe(
+      hashChannelState({ ...state, stateData: '0x' })
+    );
+  });
+
+  it('changes with the intent, the version and the allocation order', () => {
+    const hash = hashChannelState(state);
+
+    expect(hashChannelState({ ...state, intent: 'OPERATE' })).not.toBe(hash);
+    expect(hashChannelState({ ...state, version: 4n })).not.toBe(hash);
+    expect(hashChannelState({ ...state, allocations: [...state.allocations].reverse() })).not.toBe(hash);
+  });
+});
+
+describe('state signatures', () => {
+  const key = process.env.PRIVATE_KEY_BACKEND;
+
+  beforeAll(() => {
+    process.env.PRIVATE_KEY_BACKEND = PRIVATE_KEY;
+  });
+
+  afterAll(() => {
+    if (key === undefined) delete process.env.PRIVATE_KEY_BACKEND;
+    else process.env.PRIVATE_KEY_BACKEND = key;
+  });
+
+  it('signs the EIP-191 message of the raw hash with the backend key', async () => {
+    const stateHash = hashChannelState(state);
+    const signature = await signStateHash(stateHash);
+
+    expect(getBackendSigner()).toBe(ADDRESS);
+    expect(ethers.verifyMessage(ethers.getBytes(stateHash), signature)).toBe(ADDRESS);
+    expect(await recoverStateSigner(stateHash, signature)).toBe(ADDRESS);
+  });
+
+  it('recovers another address for a different state', async () => {
+    const signature = await signStateHash(hashChannelState(state));
+    const other = hashChannelState({ ...state, version: 4n });
+
+    expect(await recoverStateSigner(other, signature)).not.toBe(ADDRESS);
+  });
+
+  it('returns null for a malformed signature', async () => {
+    expect(await recoverStateSigner(hashChannelState(state), '0x1234' as Hex)).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+import { CLEARNODE_CONFIG } from '../../../src/config/clearnode';
+import { clearNodeService } from '../../../src/services/clearnode/ClearNodeService';
+import { MockClearNodeServer } from '../../../src/services/clearnode/mock/MockClearNodeServer';
+import { RPCMethod } from '../../../src/services/clearnode/types';
+import { ClearNodeSync } from '../../../src/services/nitrolite/ClearNodeSync';
+
+const mockPrisma = {
+  ledgerBalance: { upsert: jest.fn(async (args: unknown) => args) },
+  ledgerChannel: { findUnique: jest.fn(), upsert: jest.fn() },
+  channelState: { updateMany: jest.fn() },
+  $transaction: jest.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+};
+
+jest.mock('../../../src/services/database/prisma', () => ({
+  // Resolved on use: services read the client while this file is still loading
+  getPrismaClient: () => new Proxy({}, { get: (_target, key) => (mockPrisma as any)[key] }),
+}));
+
+const LP = `0x${'a1'.repeat(20)}` as Address;
+
+// Resolves with the arguments of the next call, since writes are not awaited
+function nextCall(mock: jest.Mock, result: unknown = undefined): Promise<any> {
+  return new Promise((resolve) => {
+    mock.mockImplementationOnce(async (args: unknown) => {
+      resolve(args);
+      return result;
+    });
+  });
+}
+
+describe('ClearNodeSync against the mock ClearNode', () => {
+  const config = { ...CLEARNODE_CONFIG };
+  const wallet = ethers.Wallet.createRandom();
+  const server = new MockClearNodeServer({ port: 0 });
+
+  beforeAll(async () => {
+    Object.assign(CLEARNODE_CONFIG, { wsUrl: await server.start() });
+    new ClearNodeSync().start();
+    await clearNodeService.initialize(wallet.privateKey);
+    await clearNodeService.connect();
+  });
+
+  afterAll(async () => {
+    clearNodeService.disconnect();
+    await server.stop();
+    Object.assign(CLEARNODE_CONFIG, config);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.ledgerChannel.findUnique.mockResolvedValue(null);
+    mockPrisma.channelState.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('stores the ledger channel and the full balances of a deposit', async () => {
+    const channelWrite = nextCall(mockPrisma.ledgerChannel.upsert);
+    const balanceWrite = nextCall(mockPrisma.ledgerBalance.upsert);
+
+    const channel = await server.fund(wallet.address as Address, 'usdc', '100');
+
+    expect(await channelWrite).toEqual({
+      where: { channelId: channel.channel_id },
+      create: expect.objectContaining({ channelId: channel.channel_id, amount: '100', version: 1 }),
+      update: {
+        participant: wallet.address.toLowerCase(),
+        token: 'usdc',
+        amount: '100',
+        status: 'open',
+        chainId: 114n,
+        version: 1,
+      },
+    });
+    expect(await balanceWrite).toEqual({
+      where: { account_asset: { account: wallet.address.toLowerCase(), asset: 'usdc' } },
+      create: { account: wallet.address.toLowerCase(), asset: 'usdc', amount: '100' },
+      update: { amount: '100' },
+    });
+  });
+
+  it('skips a channel update older than the stored one', async () => {
+    const lookup = nextCall(mockPrisma.ledgerChannel.findUnique, { version: 5 });
+
+    await server.notify(RPCMethod.ChannelUpdate, {
+      channel_id: `0x${'cc'.repeat(32)}`,
+      participant: wallet.address,
+      token: 'usdc',
+      amount: '1',
+      status: 'open',
+      chain_id: 114,
+      version: 4,
+    });
+    await lookup;
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mockPrisma.ledgerChannel.upsert).not.toHaveBeenCalled();
+  });
+
+  it("records ClearNode's view of a deal channel's app session", async () => {
+    const stateWrite = nextCall(mockPrisma.channelState.updateMany, { count: 1 });
+    const allocations = [
+      { participant: wallet.address as Address, asset: 'usdc', amount: '0' },
+      { participant: LP, asset: 'usdc', amount: '40' },
+    ];
+
+    const { app_session_id } = await clearNodeService.createAppSession(
+      {
+        protocol: 'nitroliterpc',
+        participants: [wallet.address as Address, LP],
+        weights: [50, 50],
+        quorum: 100,
+        challenge: 0,
+        nonce: Date.now(),
+      },
+      allocations
+    );
+
+    expect(await stateWrite).toEqual({
+      where: {
+        channelId: app_session_id,
+        OR: [{ clearNodeVersion: null }, { clearNodeVersion: { lte: 1 } }],
+      },
+      data: {
+        clearNodeStatus: 'open',
+        clearNodeVersion: 1,
+        clearNodeAllocations: allocations,
+        clearNodeUpdatedAt: expect.any(Date),
+      },
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { getAddress, type Address } from 'viem';
+import type { StateHistory, StateIntent } from '@prisma/client';
+import {
+  buildSessionSeats,
+  diffStates,
+  planResize,
+  type ChannelAllocation,
+} from '../../../src/services/nitrolite/NitroliteService';
+
+const TOKEN = '0x0000000000000000000000000000000000000001';
+const dealer = getAddress(`0x${'d0'.repeat(20)}`);
+const lpA = getAddress(`0x${'a1'.repeat(20)}`);
+const lpB = getAddress(`0x${'b2'.repeat(20)}`);
+
+function position(id: number, owner: string, depositAmount: number) {
+  return { id: BigInt(id), owner, depositAmount: BigInt(depositAmount) };
+}
+
+describe('buildSessionSeats', () => {
+  it('gives every LP address one seat holding its deposits, in position order', () => {
+    const seats = buildSessionSeats(dealer, TOKEN, [
+      position(3, lpA, 3000),
+      position(2, lpB.toLowerCase(), 4000),
+      position(1, lpA.toLowerCase(), 1000),
+    ]);
+
+    expect(seats.participants).toEqual([dealer, lpA, lpB]);
+    expect(seats.allocations).toEqual([
+      { destination: dealer, token: TOKEN, amount: '0', positionIds: [] },
+      { destination: lpA, token: TOKEN, amount: '4000', positionIds: ['1', '3'] },
+      { destination: lpB, token: TOKEN, amount: '4000', positionIds: ['2'] },
+    ]);
+    expect(seats.weights).toEqual([5000, 2500, 2500]);
+  });
+
+  it("keeps a dealer's own deposits in seat 0 and weighs them with the LPs", () => {
+    const seats = buildSessionSeats(dealer, TOKEN, [
+      position(1, dealer.toLowerCase(), 500),
+      position(2, lpA, 4000),
+      position(3, lpB, 4000),
+    ]);
+
+    expect(seats.participants).toEqual([dealer, lpA, lpB]);
+    expect(seats.allocations[0]).toEqual({ destination: dealer, token: TOKEN, amount: '500', positionIds: ['1'] });
+    // 5000 LP weight split 500 : 4000 : 4000, leftover to the largest remainders
+    expect(seats.weights).toEqual([5294, 2353, 2353]);
+  });
+
+  it('needs the dealer and a deposit majority for quorum', () => {
+    const owners: Address[] = [lpA, lpB, getAddress(`0x${'c3'.repeat(20)}`)];
+    const seats = buildSessionSeats(
+      dealer,
+      TOKEN,
+      owners.map((owner, index) => position(index + 1, owner, 1000 * (index + 1)))
+    );
+    const [dealerWeight, ...lpWeights] = seats.weights;
+
+    expect(seats.weights.reduce((sum, weight) => sum + weight, 0)).toBe(10_000);
+    expect(lpWeights.reduce((sum, weight) => sum + weight, 0)).toBeLessThan(seats.quorum);
+    // Dealer plus the largest LP (3000 of 6000 deposits) is not a majority
+    expect(dealerWeight + lpWeights[2]).toBeLessThan(seats.quorum);
+    expect(dealerWeight + lpWeights[2] + lpWeights[0]).toBeGreaterThanOrEqual(seats.quorum);
+  });
+});
+
+describe('planResize', () => {
+  const { allocations } = buildSessionSeats(dealer, TOKEN, [position(1, lpA, 1000), position(2, lpB, 2000)]);
+
+  function claimed(id: number, owner: string, depositAmount: number) {
+    return { ...position(id, owner, depositAmount), claimed: true };
+  }
+
+  function open(id: number, owner: string, depositAmount: number) {
+    return { ...position(id, owner, depositAmount), claimed: false };
+  }
+
+  it('plans nothing when every seated position is still open', () => {
+    expect(planResize(allocations, [open(1, lpA, 1000), open(2, lpB, 2000)])).toEqual({
+      deposits: [],
+      withdrawals: [],
+      unseated: [],
+    });
+  });
+
+  it("adds late deposits to their owner's seat, matching addresses in any case", () => {
+    const late = open(3, lpB.toLowerCase(), 500);
+    const ownDeposit = open(4, dealer, 700);
+
+    const positions = [open(1, lpA, 1000), open(2, lpB, 2000), late, ownDeposit];
+
+    expect(planResize(allocations, positions)).toEqual({
+      deposits: [late, ownDeposit],
+      withdrawals: [],
+      unseated: [],
+    });
+  });
+
+  it('withdraws claimed positions still held in a seat', () => {
+    const withdrawn = claimed(1, lpA, 1000);
+
+    expect(planResize(allocations, [withdrawn, open(2, lpB, 2000)])).toEqual({
+      deposits: [],
+      withdrawals: [withdrawn],
+      unseated: [],
+    });
+  });
+
+  it('ignores claimed positions that never joined a seat', () => {
+    const positions = [open(1, lpA, 1000), open(2, lpB, 2000), claimed(3, lpA, 500)];
+
+    expect(planResize(allocations, positions)).toEqual({
+      deposits: [],
+      withdrawals: [],
+      unseated: [],
+    });
+  });
+
+  it('sets deposits from addresses without a seat apart', () => {
+    const newcomer = open(3, getAddress(`0x${'c3'.repeat(20)}`), 800);
+    const late = open(4, lpA, 200);
+
+    expect(planResize(allocations, [open(1, lpA, 1000), open(2, lpB, 2000), newcomer, late])).toEqual({
+      deposits: [late],
+      withdrawals: [],
+      unseated: [newcomer],
+    });
+  });
+});
+
+describe('diffStates', () => {
+  function state(version: number, intent: StateIntent, amounts: [string, number][], stateData = '0x01') {
+    const allocations: ChannelAllocation[] = amounts.map(([destination, amount]) => ({
+      destination: destination as Address,
+      token: TOKEN,
+      amount: String(amount),
+      positionIds: [],
+    }));
+    return { version: BigInt(version), intent, allocations, stateData } as unknown as StateHistory;
+  }
+
+  it('starts every seat at zero without a previous state', () => {
+    const diff = diffStates(null, state(1, 'INITIALIZE', [[dealer, 0], [lpA, 1000]]));
+
+    expect(diff).toEqual({
+      fromVersion: null,
+      toVersion: 1n,
+      intent: { from: null, to: 'INITIALIZE' },
+      allocations: [{ destination: lpA, token: TOKEN, before: '0', after: '1000', delta: '1000' }],
+      stateDataChanged: true,
+    });
+  });
+
+  it('lists only seats whose amount changed, with signed deltas', () => {
+    const diff = diffStates(
+      state(2, 'OPERATE', [[dealer, 5000], [lpA, 1000], [lpB, 2000]]),
+      state(3, 'OPERATE', [[dealer, 4800], [lpA, 1200], [lpB, 2000]])
+    );
+
+    expect(diff.fromVersion).toBe(2n);
+    expect(diff.toVersion).toBe(3n);
+    expect(diff.allocations).toEqual([
+      { destination: dealer, token: TOKEN, before: '5000', after: '4800', delta: '-200' },
+      { destination: lpA, token: TOKEN, before: '1000', after: '1200', delta: '200' },
+    ]);
+    expect(diff.stateDataChanged).toBe(false);
+  });
+
+  it('matches seats by destination in any case and order', () => {
+    const diff = diffStates(
+      state(1, 'INITIALIZE', [[dealer, 0], [lpA, 1000]]),
+      state(2, 'RESIZE', [[lpA.toLowerCase(), 1500], [dealer, 0]])
+    );
+
+    expect(diff.intent).toEqual({ from: 'INITIALIZE', to: 'RESIZE' });
+    expect(diff.allocations).toEqual([
+      { destination: lpA.toLowerCase(), token: TOKEN, before: '1000', after: '1500', delta: '500' },
+    ]);
+  });
+
+  it('counts seats missing from one side as zero', () => {
+    const diff = diffStates(
+      state(1, 'INITIALIZE', [[dealer, 0], [lpA, 1000]]),
+      state(1, 'INITIALIZE', [[dealer, 0], [lpB, 1000]], '0x02')
+    );
+
+    expect(diff.allocations).toEqual([
+      { destination: lpA, token: TOKEN, before: '1000', after: '0', delta: '-1000' },
+      { destination: lpB, token: TOKEN, before: '0', after: '1000', delta: '1000' },
+    ]);
+    expect(diff.stateDataChanged).toBe(true);
+  });
+});
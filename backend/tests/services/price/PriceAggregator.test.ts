@@ -0,0 +1,122 @@
+import { PRICE_CONFIG } from '../../../src/config/contracts';
+import { median, priceAggregator, type AggregatedPrice } from '../../../src/services/price/PriceAggregator';
+import type { SourcePrice } from '../../../src/services/price/PriceSources';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// Price with 18 decimals, read now unless `age` seconds ago
+function reading(price: string, age = 0, decimals = 18): SourcePrice {
+  const [whole, fraction = ''] = price.split('.');
+  return {
+    price: BigInt(whole + fraction.padEnd(decimals, '0')),
+    decimals,
+    timestamp: now() - age,
+  };
+}
+
+function combine(results: [string, SourcePrice | Error | undefined][]): AggregatedPrice {
+  return priceAggregator['combine']('BTC', results);
+}
+
+function statuses(aggregated: AggregatedPrice) {
+  return Object.fromEntries(aggregated.sources.map((source) => [source.source, source.status]));
+}
+
+describe('median', () => {
+  it('takes the middle value of an odd count, in any order', () => {
+    expect(median([5n, 1n, 3n])).toBe(3n);
+    expect(median([7n])).toBe(7n);
+  });
+
+  it('rounds the mean of the middle two down for an even count', () => {
+    expect(median([4n, 1n, 2n, 3n])).toBe(2n);
+    expect(median([10n, 20n])).toBe(15n);
+  });
+
+  it('does not reorder its input', () => {
+    const values = [3n, 1n, 2n];
+    median(values);
+    expect(values).toEqual([3n, 1n, 2n]);
+  });
+});
+
+describe('combine', () => {
+  const minSources = PRICE_CONFIG.minSources;
+
+  afterEach(() => {
+    PRICE_CONFIG.minSources = minSources;
+  });
+
+  it('stores the median of the fresh readings', () => {
+    const oldest = reading('50100', 60);
+    const aggregated = combine([
+      ['ftso', reading('50000')],
+      ['priceReader', oldest],
+      ['feed', reading('50050', 30)],
+    ]);
+
+    expect(aggregated.price).toBe('50050');
+    expect(aggregated.decimals).toBe(18);
+    expect(statuses(aggregated)).toEqual({ feed: 'used', ftso: 'used', priceReader: 'used' });
+    // Oldest reading used
+    expect(aggregated.timestamp.getTime()).toBe(oldest.timestamp * 1000);
+  });
+
+  it('rejects readings deviating from the median by more than the limit', () => {
+    const aggregated = combine([
+      ['ftso', reading('50000')],
+      ['priceReader', reading('50050')],
+      ['feed', reading('52000')],
+    ]);
+
+    // 52000 is about 390 bps above the 50050 median
+    expect(statuses(aggregated)).toEqual({ feed: 'outlier', ftso: 'used', priceReader: 'used' });
+    expect(aggregated.price).toBe('50025');
+  });
+
+  it('rejects readings that are too old or too far in the future', () => {
+    const aggregated = combine([
+      ['ftso', reading('50000')],
+      ['priceReader', reading('40000', PRICE_CONFIG.maxAge + 1)],
+      ['feed', reading('60000', -(PRICE_CONFIG.maxFutureSkew + 1))],
+    ]);
+
+    expect(statuses(aggregated)).toEqual({ feed: 'stale', ftso: 'used', priceReader: 'stale' });
+    expect(aggregated.price).toBe('50000');
+  });
+
+  it('records failed sources and zero prices without using them', () => {
+    const aggregated = combine([
+      ['ftso', reading('50000')],
+      ['priceReader', new Error('execution reverted')],
+      ['feed', reading('0')],
+    ]);
+
+    expect(statuses(aggregated)).toEqual({ feed: 'failed', ftso: 'used', priceReader: 'failed' });
+    expect(aggregated.sources.find((source) => source.source === 'priceReader')!.error).toBe(
+      'execution reverted'
+    );
+  });
+
+  it('throws when fewer than minSources readings survive', () => {
+    PRICE_CONFIG.minSources = 2;
+
+    expect(() =>
+      combine([
+        ['ftso', reading('50000')],
+        ['priceReader', reading('50000', PRICE_CONFIG.maxAge + 1)],
+      ])
+    ).toThrow('1 usable BTC price readings, need 2');
+  });
+
+  it('keeps sources with more than 18 decimals exact', () => {
+    const aggregated = combine([
+      ['ftso', reading('1.00000000000000000001', 0, 20)],
+      ['feed', reading('1.00000000000000000003', 0, 20)],
+    ]);
+
+    expect(aggregated.decimals).toBe(20);
+    expect(aggregated.raw).toBe(100000000000000000002n);
+    expect(aggregated.price).toBe('1.00000000000000000002');
+  });
+});
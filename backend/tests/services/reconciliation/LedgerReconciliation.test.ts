@@ -0,0 +1,337 @@
+import { encodeFunctionResult, parseAbi, type Hex } from 'viem';
+import type { DiscrepancyKind, DiscrepancySeverity, DiscrepancySource } from '@prisma/client';
+import { LedgerReconciliation } from '../../../src/services/reconciliation/LedgerReconciliation';
+import { clearNodeService } from '../../../src/services/clearnode/ClearNodeService';
+import * as alerts from '../../../src/utils/alerts';
+
+const CHANNEL_ID = `0x${'ab'.repeat(32)}`;
+const STATE_HASH = `0x${'5e'.repeat(32)}` as Hex;
+const dealer = `0x${'D0'.repeat(20)}`;
+const lp = `0x${'A1'.repeat(20)}`;
+
+const YELLOW_CHANNEL_ABI = parseAbi([
+  'function getCommitment(bytes32 channelId) view returns ((bytes32 channelId, bytes32 stateHash, uint256 nonce, uint256 balance0, uint256 balance1, bytes signature0, bytes signature1, uint256 timeout))',
+]);
+
+// Sources as this backend, ClearNode and YellowChannel see them; each test
+// starts with all three agreeing
+let channel: Record<string, any>;
+let sessions: { app_session_id: string }[];
+let ledgerBalance: string;
+let commitment: { nonce: bigint; stateHash: Hex; balance0: bigint; balance1: bigint };
+let history: Record<string, unknown> | null;
+
+// In-memory LedgerDiscrepancy table
+let discrepancies: Record<string, any>[];
+
+const mockPrisma = {
+  channelState: { findMany: jest.fn(async () => [channel]) },
+  stateHistory: { findFirst: jest.fn(async () => history) },
+  ledgerDiscrepancy: {
+    findMany: jest.fn(async ({ where }: any) =>
+      discrepancies
+        .filter((row) => row.channelId === where.channelId && row.source === where.source && row.status === where.status)
+        .map((row) => ({ ...row }))
+    ),
+    create: jest.fn(async ({ data }: any) => {
+      const row = { id: `d${discrepancies.length + 1}`, status: 'OPEN', alertedAt: null, resolvedAt: null, ...data };
+      discrepancies.push(row);
+      return { ...row };
+    }),
+    update: jest.fn(async ({ where, data }: any) => {
+      const row = discrepancies.find((candidate) => candidate.id === where.id)!;
+      return { ...Object.assign(row, data) };
+    }),
+  },
+};
+
+jest.mock('../../../src/services/database/prisma', () => ({
+  // Resolved on use: services read the client while this file is still loading
+  getPrismaClient: () => new Proxy({}, { get: (_target, key) => (mockPrisma as any)[key] }),
+}));
+
+function allocations(dealerAmount: string, lpAmount: string) {
+  return [
+    { destination: dealer, token: '0x01', amount: dealerAmount, positionIds: [] },
+    { destination: lp, token: '0x01', amount: lpAmount, positionIds: ['1'] },
+  ];
+}
+
+describe('LedgerReconciliation', () => {
+  let service: LedgerReconciliation;
+  let postAlert: jest.SpyInstance;
+  let getStatus: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    channel = {
+      channelId: CHANNEL_ID,
+      dealId: 1n,
+      version: 3n,
+      intent: 'OPERATE',
+      stateHash: STATE_HASH,
+      allocations: allocations('1000', '5000'),
+      clearNodeStatus: 'open',
+      clearNodeVersion: 3,
+      clearNodeAllocations: [
+        { participant: dealer.toLowerCase(), asset: 'usdc', amount: '1000' },
+        { participant: lp.toLowerCase(), asset: 'usdc', amount: '5000.0' },
+      ],
+    };
+    sessions = [{ app_session_id: CHANNEL_ID }];
+    ledgerBalance = '6000';
+    commitment = { nonce: 2n, stateHash: STATE_HASH, balance0: 500n, balance1: 5500n };
+    history = { version: 2n, stateHash: STATE_HASH, allocations: allocations('500', '5500') };
+    discrepancies = [];
+
+    service = new LedgerReconciliation();
+    service['yellowChannelAddress'] = `0x${'ee'.repeat(20)}`;
+
+    getStatus = jest.spyOn(clearNodeService, 'getStatus').mockReturnValue({ authenticated: true } as any);
+    jest.spyOn(clearNodeService, 'getAppSessions').mockImplementation(async () => sessions as any);
+    jest
+      .spyOn(clearNodeService, 'getLedgerBalances')
+      .mockImplementation(async () => [[{ participant: CHANNEL_ID, asset: 'usdc', balance: ledgerBalance }]]);
+    jest.spyOn(service['client'], 'call').mockImplementation(async () => ({
+      data: encodeFunctionResult({
+        abi: YELLOW_CHANNEL_ABI,
+        functionName: 'getCommitment',
+        result: {
+          channelId: CHANNEL_ID as Hex,
+          signature0: '0x',
+          signature1: '0x',
+          timeout: 0n,
+          ...commitment,
+        },
+      }),
+    }));
+    postAlert = jest.spyOn(alerts, 'postAlert').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('opens nothing while all three sources agree', async () => {
+    const run = await service.reconcile();
+
+    expect(run).toMatchObject({ channels: 1, opened: 0, resolved: 0, skipped: [] });
+    expect(discrepancies).toEqual([]);
+  });
+
+  it('asks only about open channels and channels with open discrepancies', async () => {
+    await service.reconcile();
+
+    expect(mockPrisma.channelState.findMany).toHaveBeenCalledWith({
+      where: { OR: [{ intent: { not: 'FINALIZE' } }, { discrepancies: { some: { status: 'OPEN' } } }] },
+    });
+  });
+
+  it.each([
+    ['ClearNode does not list the session', () => (sessions = []), 'CLEARNODE', 'SESSION_MISSING', 'CRITICAL', ''],
+    ['ClearNode holds a different total', () => (ledgerBalance = '5999.5'), 'CLEARNODE', 'BALANCE', 'CRITICAL', 'usdc'],
+    [
+      'ClearNode closed a session we consider open',
+      () => (channel.clearNodeStatus = 'closed'),
+      'CLEARNODE',
+      'SESSION_STATUS',
+      'CRITICAL',
+      '',
+    ],
+    [
+      'ClearNode has not closed a finalized session',
+      () => (channel.intent = 'FINALIZE'),
+      'CLEARNODE',
+      'SESSION_STATUS',
+      'WARNING',
+      '',
+    ],
+    ['ClearNode is ahead of our version', () => (channel.clearNodeVersion = 4), 'CLEARNODE', 'VERSION', 'CRITICAL', ''],
+    ['ClearNode is behind our version', () => (channel.clearNodeVersion = 2), 'CLEARNODE', 'VERSION', 'WARNING', ''],
+    [
+      'ClearNode allocates a seat differently',
+      () => (channel.clearNodeAllocations[1].amount = '4000'),
+      'CLEARNODE',
+      'ALLOCATION',
+      'CRITICAL',
+      lp.toLowerCase(),
+    ],
+    ['YellowChannel is ahead of our version', () => (commitment.nonce = 4n), 'ONCHAIN', 'COMMITMENT_AHEAD', 'CRITICAL', ''],
+    [
+      'YellowChannel holds a version missing from the history',
+      () => (history = null),
+      'ONCHAIN',
+      'COMMITMENT_STATE',
+      'CRITICAL',
+      '',
+    ],
+    [
+      'YellowChannel holds different balances for a known version',
+      () => (commitment.balance1 = 5499n),
+      'ONCHAIN',
+      'COMMITMENT_STATE',
+      'CRITICAL',
+      '',
+    ],
+  ] as [string, () => void, DiscrepancySource, DiscrepancyKind, DiscrepancySeverity, string][])(
+    'records when %s',
+    async (_case, diverge, source, kind, severity, subject) => {
+      diverge();
+
+      const run = await service.reconcile();
+
+      expect(run!.opened).toBe(1);
+      expect(discrepancies).toEqual([
+        expect.objectContaining({ channelId: CHANNEL_ID, source, kind, severity, subject, status: 'OPEN' }),
+      ]);
+    }
+  );
+
+  it('compares nothing else for a session ClearNode does not list', async () => {
+    sessions = [];
+    ledgerBalance = '0';
+
+    await service.reconcile();
+
+    expect(clearNodeService.getLedgerBalances).not.toHaveBeenCalled();
+    expect(discrepancies.map((row) => row.kind)).toEqual(['SESSION_MISSING']);
+  });
+
+  it('does not compare allocations across versions', async () => {
+    channel.clearNodeVersion = 2;
+    channel.clearNodeAllocations[1].amount = '4000';
+
+    await service.reconcile();
+
+    expect(discrepancies.map((row) => row.kind)).toEqual(['VERSION']);
+  });
+
+  it('records the expected and actual values', async () => {
+    channel.clearNodeAllocations[1].amount = '4000';
+
+    await service.reconcile();
+
+    expect(discrepancies[0]).toMatchObject({ expected: '5000', actual: '4000' });
+  });
+
+  it('refreshes a discrepancy seen again instead of opening another', async () => {
+    ledgerBalance = '5000';
+    await service.reconcile();
+    const firstSeen = discrepancies[0].lastSeenAt;
+
+    ledgerBalance = '4000';
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const run = await service.reconcile();
+
+    expect(run!.opened).toBe(0);
+    expect(discrepancies).toHaveLength(1);
+    expect(discrepancies[0].actual).toBe('4000');
+    expect(discrepancies[0].lastSeenAt.getTime()).toBeGreaterThan(firstSeen.getTime());
+  });
+
+  it('keeps one discrepancy per seat', async () => {
+    channel.clearNodeAllocations = [];
+
+    await service.reconcile();
+    await service.reconcile();
+
+    expect(discrepancies.map((row) => [row.kind, row.subject])).toEqual([
+      ['ALLOCATION', dealer.toLowerCase()],
+      ['ALLOCATION', lp.toLowerCase()],
+    ]);
+  });
+
+  it('resolves a discrepancy on the first pass where the sources agree', async () => {
+    channel.clearNodeVersion = 4;
+    await service.reconcile();
+
+    channel.clearNodeVersion = 3;
+    const run = await service.reconcile();
+
+    expect(run!.resolved).toBe(1);
+    expect(discrepancies[0]).toMatchObject({ status: 'RESOLVED', resolvedAt: expect.any(Date) });
+
+    // A later divergence opens a new one
+    channel.clearNodeVersion = 4;
+    await service.reconcile();
+    expect(discrepancies.map((row) => row.status)).toEqual(['RESOLVED', 'OPEN']);
+  });
+
+  it('resolves per source', async () => {
+    channel.clearNodeVersion = 4;
+    commitment.nonce = 4n;
+    await service.reconcile();
+
+    commitment.nonce = 2n;
+    await service.reconcile();
+
+    expect(discrepancies.map((row) => [row.source, row.status])).toEqual([
+      ['CLEARNODE', 'OPEN'],
+      ['ONCHAIN', 'RESOLVED'],
+    ]);
+  });
+
+  it.each([
+    ['ClearNode is not connected', () => getStatus.mockReturnValue({ authenticated: false }), 'CLEARNODE'],
+    [
+      'ClearNode cannot list sessions',
+      () => (clearNodeService.getAppSessions as jest.Mock).mockRejectedValue(new Error('Request timeout')),
+      'CLEARNODE',
+    ],
+    [
+      'the ledger balance cannot be read',
+      () => (clearNodeService.getLedgerBalances as jest.Mock).mockRejectedValue(new Error('Request timeout')),
+      'CLEARNODE',
+    ],
+    ['YellowChannel cannot be read', () => (service['client'].call as jest.Mock).mockRejectedValue(new Error('503')), 'ONCHAIN'],
+    ['YellowChannel is not configured', () => (service['yellowChannelAddress'] = null), 'ONCHAIN'],
+  ] as [string, () => void, DiscrepancySource][])('leaves discrepancies open when %s', async (_case, fail, source) => {
+    channel.clearNodeVersion = 4;
+    commitment.nonce = 4n;
+    await service.reconcile();
+
+    channel.clearNodeVersion = 3;
+    commitment.nonce = 2n;
+    fail();
+    const run = await service.reconcile();
+
+    expect(run!.skipped).toEqual([source]);
+    expect(discrepancies.find((row) => row.source === source)!.status).toBe('OPEN');
+    expect(discrepancies.find((row) => row.source !== source)!.status).toBe('RESOLVED');
+  });
+
+  describe('alerts', () => {
+    it('alerts a discrepancy at the configured severity once', async () => {
+      commitment.nonce = 4n;
+
+      await service.reconcile();
+      await service.reconcile();
+
+      expect(postAlert).toHaveBeenCalledTimes(1);
+      expect(postAlert.mock.calls[0][1]).toMatchObject({
+        type: 'ledger_discrepancy',
+        discrepancyId: 'd1',
+        channelId: CHANNEL_ID,
+        dealId: '1',
+        source: 'ONCHAIN',
+        kind: 'COMMITMENT_AHEAD',
+        subject: null,
+        severity: 'CRITICAL',
+      });
+      expect(discrepancies[0].alertedAt).toBeInstanceOf(Date);
+    });
+
+    it('alerts a discrepancy when its severity rises past the threshold', async () => {
+      channel.clearNodeVersion = 2;
+      await service.reconcile();
+      expect(postAlert).not.toHaveBeenCalled();
+
+      channel.clearNodeVersion = 4;
+      await service.reconcile();
+
+      expect(discrepancies).toEqual([expect.objectContaining({ kind: 'VERSION', severity: 'CRITICAL' })]);
+      expect(postAlert).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { SCHEDULER_CONFIG } from '../../../src/config/contracts';
+import { DealScheduler } from '../../../src/services/scheduler/DealScheduler';
+import { dealLifecycleService } from '../../../src/services/deals/DealLifecycleService';
+import { DealTransitionError } from '../../../src/services/deals/DealStateMachine';
+import { settlementService, SettlementError } from '../../../src/services/settlement/SettlementService';
+
+const mockPrisma = {
+  deal: { findMany: jest.fn() },
+};
+
+jest.mock('../../../src/services/database/prisma', () => ({
+  // Resolved on use: services read the client while this file is still loading
+  getPrismaClient: () => new Proxy({}, { get: (_target, key) => (mockPrisma as any)[key] }),
+}));
+
+describe('DealScheduler', () => {
+  const scheduler = new DealScheduler();
+  const lockFillAmount = SCHEDULER_CONFIG.lockFillAmount;
+
+  let lockDeal: jest.SpyInstance;
+  let settleDeal: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    lockDeal = jest.spyOn(dealLifecycleService, 'lockDeal').mockResolvedValue({} as any);
+    settleDeal = jest.spyOn(settlementService, 'settleDeal').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    SCHEDULER_CONFIG.lockFillAmount = lockFillAmount;
+  });
+
+  describe('lock sweep', () => {
+    const lockDueDeals = () => scheduler['lockDueDeals']();
+
+    it('only considers CREATED deals with a dealer and deposits', async () => {
+      SCHEDULER_CONFIG.lockFillAmount = null;
+      mockPrisma.deal.findMany.mockResolvedValue([]);
+
+      const before = Date.now();
+      await lockDueDeals();
+      const after = Date.now();
+
+      const [{ where }] = mockPrisma.deal.findMany.mock.calls[0];
+      expect(where).toMatchObject({ status: 'CREATED', dealer: { not: null }, totalDeposited: { gt: 0 } });
+      // Without a fill level only the deadline locks
+      expect(where.OR).toHaveLength(1);
+      const cutoff = where.OR[0].createdAt.lte.getTime();
+      expect(cutoff).toBeGreaterThanOrEqual(before - SCHEDULER_CONFIG.lockDeadline * 1000);
+      expect(cutoff).toBeLessThanOrEqual(after - SCHEDULER_CONFIG.lockDeadline * 1000);
+    });
+
+    it('also locks at the fill level when one is set', async () => {
+      SCHEDULER_CONFIG.lockFillAmount = 1_000_000n;
+      mockPrisma.deal.findMany.mockResolvedValue([]);
+
+      await lockDueDeals();
+
+      const [{ where }] = mockPrisma.deal.findMany.mock.calls[0];
+      expect(where.OR[1]).toEqual({ totalDeposited: { gte: '1000000' } });
+    });
+
+    it('locks each due deal with the reason it became due', async () => {
+      const overdue = new Date(Date.now() - SCHEDULER_CONFIG.lockDeadline * 1000 - 60_000);
+      mockPrisma.deal.findMany.mockResolvedValue([
+        { id: 1n, createdAt: overdue },
+        { id: 2n, createdAt: new Date() },
+      ]);
+
+      await lockDueDeals();
+
+      expect(lockDeal).toHaveBeenCalledWith(1n, { source: 'scheduler', reason: 'Lock deadline reached' });
+      expect(lockDeal).toHaveBeenCalledWith(2n, { source: 'scheduler', reason: 'Fill level reached' });
+    });
+
+    it('keeps locking the other deals when one fails', async () => {
+      mockPrisma.deal.findMany.mockResolvedValue([
+        { id: 1n, createdAt: new Date() },
+        { id: 2n, createdAt: new Date() },
+      ]);
+      lockDeal.mockRejectedValueOnce(new DealTransitionError('Deal must be in CREATED status'));
+
+      await expect(lockDueDeals()).resolves.toBeUndefined();
+      expect(lockDeal).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('expiry sweep', () => {
+    const expireActiveDeals = () => scheduler['expireActiveDeals']();
+
+    it('settles ACTIVE deals past their expiry', async () => {
+      mockPrisma.deal.findMany.mockResolvedValue([{ id: 1n }, { id: 2n }]);
+
+      const before = Date.now();
+      await expireActiveDeals();
+
+      const [{ where }] = mockPrisma.deal.findMany.mock.calls[0];
+      expect(where.status).toBe('ACTIVE');
+      expect(where.expiryTimestamp.lte.getTime()).toBeGreaterThanOrEqual(before);
+      expect(settleDeal).toHaveBeenCalledWith(1n, { source: 'scheduler', reason: 'Deal expired' });
+      expect(settleDeal).toHaveBeenCalledWith(2n, { source: 'scheduler', reason: 'Deal expired' });
+    });
+
+    it('defers settlements that cannot proceed yet and keeps going', async () => {
+      mockPrisma.deal.findMany.mockResolvedValue([{ id: 1n }, { id: 2n }, { id: 3n }]);
+      settleDeal
+        .mockRejectedValueOnce(new SettlementError('No countersigned channel state to settle from yet', 409))
+        .mockRejectedValueOnce(new Error('ClearNode unreachable'));
+
+      await expect(expireActiveDeals()).resolves.toBeUndefined();
+      expect(settleDeal).toHaveBeenCalledTimes(3);
+    });
+
+    it('retries SETTLING deals only once their settlement lease has run out', async () => {
+      mockPrisma.deal.findMany.mockResolvedValue([{ id: 4n }]);
+
+      const before = Date.now();
+      await scheduler['settleSettlingDeals']();
+      const after = Date.now();
+
+      const [{ where }] = mockPrisma.deal.findMany.mock.calls[0];
+      expect(where.status).toBe('SETTLING');
+      expect(where.updatedAt.lte.getTime()).toBeGreaterThanOrEqual(before - SCHEDULER_CONFIG.settlementLease);
+      expect(where.updatedAt.lte.getTime()).toBeLessThanOrEqual(after - SCHEDULER_CONFIG.settlementLease);
+      expect(settleDeal).toHaveBeenCalledWith(4n, { source: 'scheduler', reason: 'Scheduled settlement' });
+    });
+  });
+});
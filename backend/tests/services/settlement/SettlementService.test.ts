@@ -0,0 +1,269 @@
+import {
+  computeChannelFinal,
+  computePayouts,
+  computeSettlement,
+  settlementService,
+  type SettlementInputs,
+} from '../../../src/services/settlement/SettlementService';
+import { ChannelError, nitroliteService } from '../../../src/services/nitrolite/NitroliteService';
+import { dealStateMachine } from '../../../src/services/deals/DealStateMachine';
+
+const mockPrisma = {
+  channelState: { findUnique: jest.fn(), findUniqueOrThrow: jest.fn() },
+  settlement: { findFirst: jest.fn(), create: jest.fn(), update: jest.fn() },
+  position: { findMany: jest.fn(), update: jest.fn() },
+  $transaction: jest.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma)),
+};
+
+jest.mock('../../../src/services/database/prisma', () => ({
+  // Resolved on use: services read the client while this file is still loading
+  getPrismaClient: () => new Proxy({}, { get: (_target, key) => (mockPrisma as any)[key] }),
+}));
+
+function inputs(overrides: Partial<SettlementInputs>): SettlementInputs {
+  return {
+    dealId: '1',
+    channelId: `0x${'ab'.repeat(32)}`,
+    stateVersion: '3',
+    stateHash: `0x${'cd'.repeat(32)}`,
+    stateSigned: true,
+    dealerAllocation: '0',
+    lpAllocation: '0',
+    lpPrincipal: '0',
+    expectedYieldBps: '100',
+    protocolFeeBps: '100',
+    priceSymbol: 'USDC',
+    finalPrice: '1',
+    finalPriceRaw: '1000000000000000000',
+    priceDecimals: 18,
+    priceTimestamp: '2024-11-22T19:00:00.000Z',
+    priceSource: 'MEDIAN',
+    ...overrides,
+  };
+}
+
+function positions(...deposits: number[]) {
+  return deposits.map((deposit, index) => ({ id: String(index + 1), depositAmount: String(deposit) }));
+}
+
+describe('computeSettlement', () => {
+  it('rounds yield and fee per position as DealVault.claimPosition does', () => {
+    const result = computeSettlement(
+      inputs({
+        dealerAllocation: '5000',
+        lpAllocation: '15000',
+        lpPrincipal: '15000',
+        positions: positions(5000, 5000, 5000),
+      })
+    );
+
+    // 50 yield per position; its 1% fee rounds down to 0
+    expect(result).toEqual({ dealerFinal: 4850n, lpFinal: 15150n, protocolFee: 0n });
+  });
+
+  it('rounds on the LP total for version 1 proofs without positions', () => {
+    const result = computeSettlement(
+      inputs({ dealerAllocation: '5000', lpAllocation: '15000', lpPrincipal: '15000' })
+    );
+
+    expect(result).toEqual({ dealerFinal: 4850n, lpFinal: 15149n, protocolFee: 1n });
+  });
+
+  it('gives LPs the whole channel when it cannot cover their claims', () => {
+    const result = computeSettlement(
+      inputs({
+        dealerAllocation: '0',
+        lpAllocation: '15100',
+        lpPrincipal: '15000',
+        positions: positions(5000, 5000, 5000),
+      })
+    );
+
+    expect(result).toEqual({ dealerFinal: 0n, lpFinal: 15099n, protocolFee: 1n });
+  });
+
+  it('takes no fee when the channel holds less than the principal', () => {
+    const result = computeSettlement(
+      inputs({
+        dealerAllocation: '0',
+        lpAllocation: '14000',
+        lpPrincipal: '15000',
+        positions: positions(5000, 5000, 5000),
+      })
+    );
+
+    expect(result).toEqual({ dealerFinal: 0n, lpFinal: 14000n, protocolFee: 0n });
+  });
+
+  it('conserves the channel total and matches the contract payouts', () => {
+    let seed = 7;
+    const next = (max: number) => {
+      seed = (seed * 48271) % 2147483647;
+      return seed % max;
+    };
+
+    for (let round = 0; round < 200; round++) {
+      const deposits = Array.from({ length: 1 + next(6) }, () => 1 + next(1_000_000));
+      const principal = deposits.reduce((sum, deposit) => sum + deposit, 0);
+      const dealer = next(200_000);
+      const settlementInputs = inputs({
+        dealerAllocation: String(dealer),
+        lpAllocation: String(principal),
+        lpPrincipal: String(principal),
+        positions: positions(...deposits),
+        expectedYieldBps: String(next(2_000)),
+        protocolFeeBps: String(next(1_000)),
+      });
+
+      const result = computeSettlement(settlementInputs);
+      expect(result.dealerFinal + result.lpFinal + result.protocolFee).toBe(BigInt(principal + dealer));
+
+      if (result.dealerFinal > 0n) {
+        const distribution = computePayouts(
+          deposits.map((deposit, index) => ({ id: BigInt(index + 1), depositAmount: BigInt(deposit) })),
+          result.lpFinal,
+          BigInt(settlementInputs.expectedYieldBps),
+          BigInt(settlementInputs.protocolFeeBps)
+        );
+
+        expect(distribution.method).toBe('contract');
+        expect(distribution.dust).toBe(0n);
+      }
+    }
+  });
+});
+
+describe('computePayouts', () => {
+  const deposits = [
+    { id: 3n, depositAmount: 5000n },
+    { id: 1n, depositAmount: 5000n },
+    { id: 2n, depositAmount: 5000n },
+  ];
+
+  it('pays each position what the contract pays, in position ID order', () => {
+    const distribution = computePayouts(deposits, 15150n, 100n, 100n);
+
+    expect(distribution).toEqual({
+      method: 'contract',
+      payouts: [
+        { positionId: 1n, claimAmount: 5050n },
+        { positionId: 2n, claimAmount: 5050n },
+        { positionId: 3n, claimAmount: 5050n },
+      ],
+      distributed: 15150n,
+      dust: 0n,
+    });
+  });
+
+  it('splits pro rata when the LP total cannot cover the claims', () => {
+    const distribution = computePayouts(deposits, 15001n, 100n, 100n);
+
+    expect(distribution.method).toBe('pro-rata');
+    // The leftover unit goes to the lowest position ID on equal remainders
+    expect(distribution.payouts.map((payout) => payout.claimAmount)).toEqual([5001n, 5000n, 5000n]);
+    expect(distribution.distributed).toBe(15001n);
+    expect(distribution.dust).toBe(0n);
+  });
+});
+
+describe('computeChannelFinal', () => {
+  it('gives the dealer seat dealerFinal and splits the LP side by seat deposits', () => {
+    const amounts = computeChannelFinal(
+      [{ positionIds: [] }, { positionIds: ['1', '2'] }, { positionIds: ['3'] }],
+      new Map([
+        ['1', 5000n],
+        ['2', 5000n],
+        ['3', 5000n],
+      ]),
+      { dealerFinal: 4850n, lpFinal: 15150n, protocolFee: 0n }
+    );
+
+    expect(amounts).toEqual([4850n, 10100n, 5050n]);
+  });
+});
+
+describe('settleDeal', () => {
+  const channelId = `0x${'ab'.repeat(32)}`;
+  const settlementInputs = inputs({
+    dealerAllocation: '5000',
+    lpAllocation: '10000',
+    lpPrincipal: '10000',
+    positions: positions(5000, 5000),
+  });
+
+  let collectInputs: jest.SpyInstance;
+  let finalizeChannel: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(settlementService, 'acquireLease').mockResolvedValue(true);
+    jest.spyOn(dealStateMachine, 'transition').mockResolvedValue({ id: 1n, status: 'SETTLED' } as any);
+    collectInputs = jest.spyOn(settlementService, 'collectInputs').mockResolvedValue(settlementInputs);
+    finalizeChannel = jest.spyOn(nitroliteService, 'finalizeChannel');
+
+    mockPrisma.channelState.findUnique.mockResolvedValue({ intent: 'OPERATE' });
+    mockPrisma.channelState.findUniqueOrThrow.mockResolvedValue({
+      channelId,
+      allocations: [{ positionIds: [] }, { positionIds: ['1', '2'] }],
+    });
+    mockPrisma.settlement.findFirst.mockResolvedValue(null);
+    mockPrisma.settlement.create.mockImplementation(async ({ data }) => ({ id: 'settlement-1', ...data }));
+    mockPrisma.settlement.update.mockImplementation(async ({ data }) => ({ id: 'settlement-1', ...data }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('finalizes the channel with the computed split, then records the payouts', async () => {
+    finalizeChannel.mockResolvedValue(undefined);
+
+    const { settlement } = await settlementService.settleDeal(1n);
+
+    expect(finalizeChannel).toHaveBeenCalledWith(channelId, [4900n, 10100n]);
+    expect(mockPrisma.position.update).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.position.update).toHaveBeenCalledWith({ where: { id: 1n }, data: { claimAmount: '5050' } });
+    expect(settlement.status).toBe('COMPLETED');
+  });
+
+  it('keeps a settlement whose channel finalization failed and retries it without recomputing', async () => {
+    finalizeChannel.mockRejectedValueOnce(new ChannelError('ClearNode session is at version 4, stored state at 3', 502));
+
+    await expect(settlementService.settleDeal(1n)).rejects.toThrow(ChannelError);
+    expect(mockPrisma.settlement.update).not.toHaveBeenCalled();
+
+    const [{ data: stored }] = mockPrisma.settlement.create.mock.calls[0];
+    mockPrisma.settlement.findFirst.mockResolvedValue({ id: 'settlement-1', ...stored });
+    finalizeChannel.mockResolvedValue(undefined);
+
+    const { settlement } = await settlementService.settleDeal(1n);
+
+    expect(collectInputs).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.settlement.create).toHaveBeenCalledTimes(1);
+    expect(finalizeChannel).toHaveBeenNthCalledWith(2, channelId, [4900n, 10100n]);
+    expect(settlement.status).toBe('COMPLETED');
+  });
+
+  it('records a settlement whose channel was finalized by an earlier attempt', async () => {
+    mockPrisma.channelState.findUnique.mockResolvedValue({ intent: 'FINALIZE' });
+    mockPrisma.settlement.findFirst.mockResolvedValue({
+      id: 'settlement-1',
+      proofData: JSON.stringify({
+        version: 1,
+        inputs: inputs({ lpPrincipal: '10000' }),
+        result: { dealerFinal: '4900', lpFinal: '10100', protocolFee: '0' },
+      }),
+    });
+    mockPrisma.position.findMany.mockResolvedValue([
+      { id: 1n, depositAmount: { toFixed: () => '5000' } },
+      { id: 2n, depositAmount: { toFixed: () => '5000' } },
+    ]);
+
+    await settlementService.settleDeal(1n);
+
+    expect(finalizeChannel).not.toHaveBeenCalled();
+    expect(collectInputs).not.toHaveBeenCalled();
+    // Version 1 proofs have no positions; they are loaded from the deal
+    expect(mockPrisma.position.update).toHaveBeenCalledTimes(2);
+  });
+});
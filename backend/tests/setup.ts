@@ -0,0 +1,6 @@
+/**
+ * Unit tests never connect: services are imported with the database and
+ * chain clients stubbed, so the database URL only has to be well-formed
+ */
+process.env.DATABASE_URL ??= 'postgresql://localhost:5432/liquium_test';
+process.env.LOG_LEVEL ??= 'error';
@@ -0,0 +1,47 @@
+import { splitProRata } from '../../src/utils/math';
+
+describe('splitProRata', () => {
+  it('splits exactly divisible totals by weight', () => {
+    expect(splitProRata(100n, [1n, 3n])).toEqual([25n, 75n]);
+  });
+
+  it('gives the leftover to the largest remainders', () => {
+    // 10/3 each leaves 1 unit over, 20/7 * [1, 2, 4] leaves 2
+    expect(splitProRata(10n, [1n, 1n, 1n])).toEqual([4n, 3n, 3n]);
+    expect(splitProRata(20n, [1n, 2n, 4n])).toEqual([3n, 6n, 11n]);
+  });
+
+  it('breaks remainder ties towards the lower index', () => {
+    expect(splitProRata(1n, [5n, 5n])).toEqual([1n, 0n]);
+  });
+
+  it('gives zero-weight parts nothing', () => {
+    expect(splitProRata(7n, [0n, 2n, 0n, 1n])).toEqual([0n, 5n, 0n, 2n]);
+  });
+
+  it('returns all zeros when every weight is zero', () => {
+    expect(splitProRata(100n, [0n, 0n])).toEqual([0n, 0n]);
+    expect(splitProRata(100n, [])).toEqual([]);
+  });
+
+  it('always sums to the total', () => {
+    let seed = 7n;
+    const next = () => {
+      seed = (seed * 6364136223846793005n + 1442695040888963407n) % 2n ** 64n;
+      return seed >> 40n;
+    };
+
+    for (let round = 0; round < 200; round++) {
+      const total = next();
+      const weights = Array.from({ length: Number(next() % 8n) + 1 }, () => next() % 1000n + 1n);
+      const parts = splitProRata(total, weights);
+
+      expect(parts.reduce((sum, part) => sum + part, 0n)).toBe(total);
+      parts.forEach((part, index) => {
+        // Never more than one unit away from the exact share
+        const exact = (total * weights[index]) / weights.reduce((sum, weight) => sum + weight, 0n);
+        expect(part - exact >= 0n && part - exact <= 1n).toBe(true);
+      });
+    }
+  });
+});
@@ -18,7 +18,8 @@ export interface Deal {
   status: 'CREATED' | 'LOCKED' | 'ACTIVE' | 'SETTLING' | 'SETTLED' | 'CANCELLED';
   totalDeposited: string;
   expectedYield: string;
-  dealer: string;
+  // null for deals indexed from the chain that the API never stored
+  dealer: string | null;
   createdAt: string;
   lockTimestamp?: string;
   channelState?: ChannelState;
@@ -37,27 +38,62 @@ export interface Position {
   createdAt: string;
 }
 
+export interface ChannelAllocation {
+  destination: string;
+  token: string;
+  amount: string;
+  positionIds: string[];
+}
+
 export interface ChannelState {
   channelId: string;
   dealId: string;
   version: string;
   intent: string;
-  allocation0: any;
-  allocation1: any;
+  allocations: ChannelAllocation[];
   participants: string[];
+  weights: number[];
+  quorum: number;
   stateData: string;
+  // ClearNode's view of the session, from its notifications
+  clearNodeStatus: string | null;
+  clearNodeVersion: number | null;
+  clearNodeAllocations: { participant: string; asset: string; amount: string }[] | null;
+  clearNodeUpdatedAt: string | null;
+}
+
+export interface StateDiff {
+  fromVersion: string | null;
+  toVersion: string;
+  intent: { from: string | null; to: string };
+  allocations: { destination: string; token: string; before: string; after: string; delta: string }[];
+  stateDataChanged: boolean;
+}
+
+export interface PriceReading {
+  source: string;
+  price: string | null;
+  raw: string | null;
+  decimals: number | null;
+  timestamp: string | null;
+  status: 'used' | 'stale' | 'outlier' | 'failed';
+  error?: string;
 }
 
 export interface PriceData {
   tokenSymbol: string;
-  price: number;
+  // Decimal string; priceRaw / 10^decimals is the exact value
+  price: string;
+  priceRaw: string;
+  decimals: number;
   source: string;
+  sources?: PriceReading[];
   timestamp: string;
 }
 
 // API Functions
 export const dealsApi = {
-  list: async (params?: { status?: string; limit?: number; offset?: number }) => {
+  list: async (params?: { status?: string; include?: string; limit?: number; cursor?: string }) => {
     const { data } = await api.get('/api/deals', { params });
     return data;
   },
@@ -102,7 +138,7 @@ export const dealsApi = {
 };
 
 export const positionsApi = {
-  list: async (params?: { owner?: string; dealId?: string; limit?: number; offset?: number }) => {
+  list: async (params?: { owner?: string; dealId?: string; limit?: number; cursor?: string }) => {
     const { data } = await api.get('/api/positions', { params });
     return data;
   },
@@ -113,6 +149,45 @@ export const positionsApi = {
   },
 };
 
+export const channelsApi = {
+  list: async (params?: {
+    dealId?: string;
+    intent?: string;
+    clearNodeStatus?: string;
+    participant?: string;
+    limit?: number;
+    offset?: number;
+  }) => {
+    const { data } = await api.get('/api/channels', { params });
+    return data;
+  },
+  
+  get: async (channelId: string) => {
+    const { data } = await api.get(`/api/channels/${channelId}`);
+    return data;
+  },
+  
+  getHistory: async (channelId: string, params?: { limit?: number; offset?: number }) => {
+    const { data } = await api.get(`/api/channels/${channelId}/history`, { params });
+    return data;
+  },
+  
+  diff: async (channelId: string, from: string, to: string) => {
+    const { data } = await api.get(`/api/channels/${channelId}/diff`, { params: { from, to } });
+    return data;
+  },
+  
+  getBalances: async (channelId: string) => {
+    const { data } = await api.get(`/api/channels/${channelId}/balances`);
+    return data;
+  },
+  
+  getStatus: async () => {
+    const { data } = await api.get('/api/channels/status');
+    return data;
+  },
+};
+
 export const pricesApi = {
   getCurrent: async (symbol: string) => {
     const { data } = await api.get(`/api/prices/${symbol}`);